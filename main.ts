@@ -15,14 +15,15 @@
 import {
   SERVER_INFO,
   corsHeaders,
+  getOAuthConfig,
   initializeServersFromEnv,
 } from './src/config.ts';
-import type { BackendServer } from './src/types.ts';
+import type { BackendServer, RequestContext } from './src/types.ts';
 import * as kv from './src/kv.ts';
 import { jsonRpcResponse, jsonRpcError, JsonRpcErrorCode } from './src/jsonrpc.ts';
 import { logger } from './src/logger.ts';
 import { sessions, metrics, sendSSE } from './src/session.ts';
-import { handleJsonRpcRequest } from './src/mcprequest.ts';
+import { getAllServers, handleJsonRpcRequest } from './src/mcprequest.ts';
 import {
   handleCors,
   handleStaticFile,
@@ -37,9 +38,34 @@ import {
   handleUploadConfig,
   handleDeleteServer,
   handleServerHealth,
+  handleResetCircuitBreakers,
+  handleIssueAdminKey,
+  handleListAdminKeys,
+  handleRevokeAdminKey,
+  handleSaveAccessPolicy,
+  handleListAccessPolicies,
+  handleListAuditLog,
+  handleListToolPins,
+  handleApproveToolPin,
+  handleDeleteAccessPolicy,
   handle404,
+  sweepExpiredSessions,
 } from './src/handlers.ts';
-import { circuitBreakerRegistry } from './src/circuitbreaker/mod.ts';
+import {
+  authenticateMcpRequest,
+  handleProtectedResourceMetadata,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  redactServer,
+  resolveClientApiKey,
+} from './src/auth/mod.ts';
+import { AccessDeniedError } from './src/policy/mod.ts';
+import { RateLimitError } from './src/ratelimit/mod.ts';
+import {
+  readJsonBody,
+  RequestBodyError,
+  requestBodyErrorResponse,
+} from './src/validation/requestLimits.ts';
+import { applyCorsHeaders, checkOrigin } from './src/cors.ts';
 
 // ============================================================================
 // Global State
@@ -48,6 +74,9 @@ import { circuitBreakerRegistry } from './src/circuitbreaker/mod.ts';
 const BACKEND_SERVERS: BackendServer[] = initializeServersFromEnv();
 const dynamicServers = new Map<string, BackendServer>();
 
+/** How often sessions that expired while idle are looked for */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
 // ============================================================================
 // Content-Type Validation Helper
 // ============================================================================
@@ -77,11 +106,70 @@ function validateJsonContentType(req: Request): Response | null {
   return null;
 }
 
+/**
+ * Read a JSON-RPC body within the configured request limits
+ * Returns error response if rejected, the parsed body otherwise
+ */
+async function readJsonRpcBody(req: Request): Promise<{ body: unknown; error: Response | null }> {
+  try {
+    return { body: await readJsonBody(req), error: null };
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      logger.warn('Request body rejected', {
+        path: new URL(req.url).pathname,
+        error: error.message,
+      });
+      return { body: null, error: requestBodyErrorResponse(error) };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Client Authentication Helper
+// ============================================================================
+
+/**
+ * Authenticate an MCP client: OAuth access token (if enabled) and gateway API key.
+ * Every route that reaches backends goes through this.
+ * Returns error response if rejected, the caller's request context otherwise
+ */
+async function authenticateClient(
+  req: Request,
+  clientIp: string | undefined
+): Promise<{ context: RequestContext; error: Response | null }> {
+  const context: RequestContext = { clientIp };
+  const { auth, error: oauthError } = await authenticateMcpRequest(req);
+  if (oauthError) return { context, error: oauthError };
+  context.auth = auth ?? undefined;
+  const { apiKeyId, error } = await resolveClientApiKey(req);
+  if (error) return { context, error };
+  context.apiKeyId = apiKeyId ?? undefined;
+  return { context, error: null };
+}
+
 // ============================================================================
 // HTTP Request Handler
 // ============================================================================
 
-export async function handler(req: Request): Promise<Response> {
+/**
+ * Entry point: validates the Origin, routes the request and applies the
+ * route's CORS policy to the response
+ */
+export async function handler(
+  req: Request,
+  info?: Deno.ServeHandlerInfo
+): Promise<Response> {
+  const originError = checkOrigin(req);
+  if (originError) {
+    metrics.totalRequests++;
+    return originError;
+  }
+  const clientIp = (info?.remoteAddr as Deno.NetAddr | undefined)?.hostname;
+  return applyCorsHeaders(req, await routeRequest(req, clientIp));
+}
+
+async function routeRequest(req: Request, clientIp?: string): Promise<Response> {
   const url = new URL(req.url);
   const path = url.pathname;
   const startTime = performance.now();
@@ -109,14 +197,30 @@ export async function handler(req: Request): Promise<Response> {
   try {
     // MCP JSON-RPC at root path (for Claude Desktop compatibility)
     if (path === '/' && req.method === 'POST') {
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const contentTypeError = validateJsonContentType(req);
       if (contentTypeError) return contentTypeError;
-      const body = await req.json();
-      return await handleStreamableHttp(req, body, (method, params) =>
-        handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers)
+      const { body, error: bodyError } = await readJsonRpcBody(req);
+      if (bodyError) return bodyError;
+      return await handleStreamableHttp(
+        req,
+        body,
+        (method, params, context) =>
+          handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers, context),
+        clientContext
       );
     }
 
+    // OAuth protected resource metadata (RFC 9728)
+    if (
+      (path === PROTECTED_RESOURCE_METADATA_PATH ||
+        path.startsWith(`${PROTECTED_RESOURCE_METADATA_PATH}/`)) &&
+      req.method === 'GET'
+    ) {
+      return handleProtectedResourceMetadata(req);
+    }
+
     // Serve static files
     const staticResponse = await handleStaticFile(path);
     if (staticResponse) {
@@ -135,38 +239,62 @@ export async function handler(req: Request): Promise<Response> {
 
     // SSE endpoint - GET /sse
     if (path === '/sse' && req.method === 'GET') {
-      return handleSseStream();
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
+      return handleSseStream(await getAllServers(BACKEND_SERVERS, dynamicServers), clientContext);
     }
 
     // Message endpoint - POST /message
     if (path === '/message' && req.method === 'POST') {
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const sessionId = url.searchParams.get('sessionId');
-      const body = await req.json();
-      return await handleMessage(sessionId, body, (method, params) =>
-        handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers)
+      const { body, error: bodyError } = await readJsonRpcBody(req);
+      if (bodyError) return bodyError;
+      return await handleMessage(
+        sessionId,
+        body,
+        (method, params, context) =>
+          handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers, context),
+        clientContext
       );
     }
 
     // Streamable HTTP transport - POST /mcp
     if ((path === '/mcp' || path === '/mcp/') && req.method === 'POST') {
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const contentTypeError = validateJsonContentType(req);
       if (contentTypeError) return contentTypeError;
-      const body = await req.json();
-      return await handleStreamableHttp(req, body, (method, params) =>
-        handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers)
+      const { body, error: bodyError } = await readJsonRpcBody(req);
+      if (bodyError) return bodyError;
+      return await handleStreamableHttp(
+        req,
+        body,
+        (method, params, context) =>
+          handleJsonRpcRequest(method, params, BACKEND_SERVERS, dynamicServers, context),
+        clientContext
       );
     }
 
     // Handle GET /mcp for SSE stream
     if ((path === '/mcp' || path === '/mcp/') && req.method === 'GET') {
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const sessionId = req.headers.get('Mcp-Session-Id');
-      return handleMcpGetStream(sessionId);
+      return await handleMcpGetStream(
+        sessionId,
+        await getAllServers(BACKEND_SERVERS, dynamicServers),
+        clientContext
+      );
     }
 
     // Handle DELETE /mcp to close session
     if ((path === '/mcp' || path === '/mcp/') && req.method === 'DELETE') {
+      const { context: clientContext, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const sessionId = req.headers.get('Mcp-Session-Id');
-      return handleMcpDeleteSession(sessionId);
+      return await handleMcpDeleteSession(sessionId, clientContext);
     }
 
     // MCP REST endpoints (for web UI)
@@ -175,11 +303,14 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'GET'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'tools/list' });
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const result = await handleJsonRpcRequest(
         'tools/list',
         undefined,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -191,12 +322,15 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'POST'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'tools/call' });
-      const body = await req.json();
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
+      const body = (await readJsonBody(req)) as Record<string, unknown>;
       const result = await handleJsonRpcRequest(
         'tools/call',
         body,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -208,11 +342,14 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'GET'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'resources/list' });
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const result = await handleJsonRpcRequest(
         'resources/list',
         undefined,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -224,11 +361,14 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'GET'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'prompts/list' });
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
       const result = await handleJsonRpcRequest(
         'prompts/list',
         undefined,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -240,12 +380,15 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'POST'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'resources/read' });
-      const body = await req.json();
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
+      const body = (await readJsonBody(req)) as Record<string, unknown>;
       const result = await handleJsonRpcRequest(
         'resources/read',
         body,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -257,12 +400,15 @@ export async function handler(req: Request): Promise<Response> {
       req.method === 'POST'
     ) {
       logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'prompts/get' });
-      const body = await req.json();
+      const { context, error: authError } = await authenticateClient(req, clientIp);
+      if (authError) return authError;
+      const body = (await readJsonBody(req)) as Record<string, unknown>;
       const result = await handleJsonRpcRequest(
         'prompts/get',
         body,
         BACKEND_SERVERS,
-        dynamicServers
+        dynamicServers,
+        context
       );
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -273,10 +419,9 @@ export async function handler(req: Request): Promise<Response> {
     if (path === '/servers/register' && req.method === 'POST') {
       logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'server/register' });
       try {
-        const body = await req.json();
-        return handleRegisterServer(body, dynamicServers);
+        return await handleRegisterServer(req, dynamicServers);
       } catch (error) {
-        console.error('Error registering server:', error);
+        logger.error('Error registering server', { error });
         return new Response(
           JSON.stringify({ error: 'Failed to register server' }),
           { status: 500, headers: corsHeaders }
@@ -288,7 +433,7 @@ export async function handler(req: Request): Promise<Response> {
     if (path === '/mcp/servers/register' && req.method === 'GET') {
       logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'servers/list' });
       // Read from KV storage for persistence across isolates
-      const servers = await kv.listServers();
+      const servers = (await kv.listServers()).map(redactServer);
       return new Response(JSON.stringify({ servers }), {
         status: 200,
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
@@ -301,7 +446,7 @@ export async function handler(req: Request): Promise<Response> {
       try {
         return await handleUploadConfig(req, dynamicServers);
       } catch (error) {
-        console.error('Error processing config upload:', error);
+        logger.error('Error processing config upload', { error });
         return new Response(
           JSON.stringify({
             error: 'Failed to process upload',
@@ -317,7 +462,7 @@ export async function handler(req: Request): Promise<Response> {
     if (deleteServerMatch && req.method === 'DELETE') {
       const serverId = deleteServerMatch[1];
       logger.info('REST API call', { endpoint: path, method: 'DELETE', operation: 'server/delete', serverId });
-      return handleDeleteServer(serverId, dynamicServers);
+      return await handleDeleteServer(req, serverId, dynamicServers);
     }
 
     // Check server health status - GET /mcp/servers/{serverId}/health
@@ -331,19 +476,67 @@ export async function handler(req: Request): Promise<Response> {
     // Reset all circuit breakers - POST /mcp/circuit-breakers/reset
     if (path === '/mcp/circuit-breakers/reset' && req.method === 'POST') {
       logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'reset-circuit-breakers' });
-      circuitBreakerRegistry.resetAll();
-      logger.info('All circuit breakers reset');
-      return new Response(
-        JSON.stringify({
-          status: 'success',
-          message: 'All circuit breakers have been reset',
-          circuitBreakers: circuitBreakerRegistry.getAllStatuses(),
-        }),
-        {
-          status: 200,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders },
-        }
-      );
+      return await handleResetCircuitBreakers(req);
+    }
+
+    // Issue a new admin API key - POST /mcp/admin/keys
+    if (path === '/mcp/admin/keys' && req.method === 'POST') {
+      logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'admin-keys/issue' });
+      return await handleIssueAdminKey(req);
+    }
+
+    // List admin API keys - GET /mcp/admin/keys
+    if (path === '/mcp/admin/keys' && req.method === 'GET') {
+      logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'admin-keys/list' });
+      return await handleListAdminKeys(req);
+    }
+
+    // Revoke an admin API key - DELETE /mcp/admin/keys/{keyId}
+    const revokeKeyMatch = path.match(/^\/mcp\/admin\/keys\/([^/]+)$/);
+    if (revokeKeyMatch && req.method === 'DELETE') {
+      const keyId = revokeKeyMatch[1];
+      logger.info('REST API call', { endpoint: path, method: 'DELETE', operation: 'admin-keys/revoke', keyId });
+      return await handleRevokeAdminKey(req, keyId);
+    }
+
+    // Create or replace an access policy - POST /mcp/admin/policies
+    if (path === '/mcp/admin/policies' && req.method === 'POST') {
+      logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'policies/save' });
+      return await handleSaveAccessPolicy(req);
+    }
+
+    // List access policies - GET /mcp/admin/policies
+    if (path === '/mcp/admin/policies' && req.method === 'GET') {
+      logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'policies/list' });
+      return await handleListAccessPolicies(req);
+    }
+
+    // Delete an access policy - DELETE /mcp/admin/policies/{policyId}
+    const deletePolicyMatch = path.match(/^\/mcp\/admin\/policies\/([^/]+)$/);
+    if (deletePolicyMatch && req.method === 'DELETE') {
+      const policyId = deletePolicyMatch[1];
+      logger.info('REST API call', { endpoint: path, method: 'DELETE', operation: 'policies/delete', policyId });
+      return await handleDeleteAccessPolicy(req, policyId);
+    }
+
+    // List tool pins and integrity alerts - GET /mcp/admin/tools
+    if (path === '/mcp/admin/tools' && req.method === 'GET') {
+      logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'tools/pins' });
+      return await handleListToolPins(req);
+    }
+
+    // Approve a tool's current definition - POST /mcp/admin/tools/{toolName}/approve
+    const approveToolMatch = path.match(/^\/mcp\/admin\/tools\/([^/]+)\/approve$/);
+    if (approveToolMatch && req.method === 'POST') {
+      const toolName = decodeURIComponent(approveToolMatch[1]);
+      logger.info('REST API call', { endpoint: path, method: 'POST', operation: 'tools/approve', toolName });
+      return await handleApproveToolPin(req, toolName);
+    }
+
+    // Query the audit log - GET /mcp/audit
+    if (path === '/mcp/audit' && req.method === 'GET') {
+      logger.info('REST API call', { endpoint: path, method: 'GET', operation: 'audit/list' });
+      return await handleListAuditLog(req);
     }
 
     if (path === '/mcp/metrics' && req.method === 'GET') {
@@ -397,12 +590,24 @@ export async function handler(req: Request): Promise<Response> {
       error: errorMessage,
       durationMs,
     });
-    logger.logResponse(req.method, path, 500, durationMs);
-    console.error('Request error:', errorMessage);
+    const status = error instanceof AccessDeniedError
+      ? 403
+      : error instanceof RateLimitError
+      ? 429
+      : error instanceof RequestBodyError
+      ? error.status
+      : 500;
+    logger.logResponse(req.method, path, status, durationMs);
 
     return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+        ...(error instanceof RateLimitError && {
+          'Retry-After': String(error.retryAfterSeconds),
+        }),
+      },
     });
   }
 }
@@ -415,6 +620,9 @@ if (import.meta.main) {
   const port = parseInt(Deno.env.get('PORT') || '8000');
   const logLevel = Deno.env.get('LOG_LEVEL') || 'INFO';
 
+  // Fail at startup rather than on the first request when OAuth is misconfigured
+  getOAuthConfig();
+
   console.log(`
 ========================================
   Federated MCP Gateway Server v${SERVER_INFO.version}
@@ -437,5 +645,13 @@ ${BACKEND_SERVERS.map((s) => `    - ${s.name} (${s.id})`).join('\n')}
 ========================================
 `);
 
+  setInterval(() => {
+    sweepExpiredSessions().catch((error) => {
+      logger.warn('Session sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, SESSION_SWEEP_INTERVAL_MS);
+
   Deno.serve({ port }, handler);
 }
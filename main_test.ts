@@ -6,10 +6,19 @@
 import {
   assertEquals,
   assertExists,
+  assertNotEquals,
   assertRejects,
   assertStringIncludes,
 } from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import { handler } from './main.ts';
+import { sweepExpiredSessions } from './src/handlers.ts';
+import { endMcpSession, getMcpSession } from './src/session.ts';
+import { issueAdminKey } from './src/auth/mod.ts';
+import * as kv from './src/kv.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
 
 // =============================================================================
 // Health Endpoint Tests
@@ -1206,6 +1215,79 @@ Deno.test('GET /mcp/servers/{id}/health returns 404 for non-existent server', as
 // Session Management Tests
 // =============================================================================
 
+// Open a session with an initialize request and return its ID
+async function initializeSession(): Promise<string> {
+  const res = await handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-06-18',
+          capabilities: { sampling: {} },
+          clientInfo: { name: 'session-test', version: '1.0' },
+        },
+      }),
+    })
+  );
+  await res.body?.cancel();
+  const sessionId = res.headers.get('Mcp-Session-Id');
+  assertExists(sessionId);
+  return sessionId;
+}
+
+Deno.test('POST /mcp initialize creates a session', async () => {
+  const sessionId = await initializeSession();
+  const session = await getMcpSession(sessionId);
+  assertEquals(session?.protocolVersion, '2025-06-18');
+  assertEquals(session?.clientInfo, { name: 'session-test', version: '1.0' });
+  assertEquals(session?.capabilities, { sampling: {} });
+  await endMcpSession(sessionId);
+});
+
+Deno.test('POST /mcp without initialize does not create a session', async () => {
+  const res = await handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    })
+  );
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('Mcp-Session-Id'), null);
+  await res.body?.cancel();
+});
+
+Deno.test('POST /mcp with unknown session ID returns 404', async () => {
+  const res = await handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'unknown-session' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    })
+  );
+  assertEquals(res.status, 404);
+  const data = await res.json();
+  assertStringIncludes(data.error.message, 'initialize');
+});
+
+Deno.test('POST /mcp with existing session ID is accepted', async () => {
+  const sessionId = await initializeSession();
+  const res = await handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    })
+  );
+  assertEquals(res.status, 200);
+  assertEquals((await res.json()).result, {});
+  await endMcpSession(sessionId);
+});
+
 Deno.test('GET /mcp without session ID returns 400', async () => {
   const req = new Request('http://localhost:8000/mcp', {
     method: 'GET',
@@ -1224,26 +1306,146 @@ Deno.test({
   sanitizeResources: false,
   sanitizeOps: false,
   async fn() {
+    const sessionId = await initializeSession();
     const req = new Request('http://localhost:8000/mcp', {
       method: 'GET',
-      headers: { 'Mcp-Session-Id': 'test-session-123' },
+      headers: { 'Mcp-Session-Id': sessionId },
     });
 
     const res = await handler(req);
     assertEquals(res.status, 200);
     assertEquals(res.headers.get('Content-Type'), 'text/event-stream');
-    assertEquals(res.headers.get('Mcp-Session-Id'), 'test-session-123');
+    assertEquals(res.headers.get('Mcp-Session-Id'), sessionId);
+    await endMcpSession(sessionId);
   },
 });
 
-Deno.test('DELETE /mcp closes session and returns 204', async () => {
+Deno.test('GET /mcp with unknown session ID returns 404', async () => {
   const req = new Request('http://localhost:8000/mcp', {
-    method: 'DELETE',
-    headers: { 'Mcp-Session-Id': 'session-to-delete' },
+    method: 'GET',
+    headers: { 'Mcp-Session-Id': 'test-session-123' },
   });
 
   const res = await handler(req);
+  assertEquals(res.status, 404);
+  await res.body?.cancel();
+});
+
+Deno.test('DELETE /mcp closes session and returns 204', async () => {
+  const sessionId = await initializeSession();
+  const deleteSession = () =>
+    handler(
+      new Request('http://localhost:8000/mcp', {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': sessionId },
+      })
+    );
+
+  const res = await deleteSession();
   assertEquals(res.status, 204);
+
+  // The session is gone afterwards
+  const again = await deleteSession();
+  assertEquals(again.status, 404);
+  await again.body?.cancel();
+});
+
+Deno.test({
+  name: 'Sessions are only found by the API key that created them',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const owner = await issueAdminKey(`session-owner-${Date.now()}`, 'client');
+    const other = await issueAdminKey(`session-other-${Date.now()}`, 'client');
+    const mcp = (method: string, key: string, sessionId?: string) =>
+      handler(
+        new Request('http://localhost:8000/mcp', {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-API-Key': key,
+            ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+          },
+          ...(method === 'POST' && {
+            body: JSON.stringify({
+              jsonrpc: '2.0',
+              id: 1,
+              method: sessionId ? 'ping' : 'initialize',
+              params: sessionId ? {} : { protocolVersion: '2025-06-18', capabilities: {} },
+            }),
+          }),
+        })
+      );
+
+    try {
+      const init = await mcp('POST', owner.key);
+      await init.body?.cancel();
+      const sessionId = init.headers.get('Mcp-Session-Id')!;
+
+      for (const method of ['POST', 'GET', 'DELETE']) {
+        const res = await mcp(method, other.key, sessionId);
+        assertEquals(res.status, 404, method);
+        await res.body?.cancel();
+      }
+      const anonymous = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': sessionId },
+        })
+      );
+      assertEquals(anonymous.status, 404);
+      await anonymous.body?.cancel();
+
+      // The owner still has the session
+      const ping = await mcp('POST', owner.key, sessionId);
+      assertEquals(ping.status, 200);
+      await ping.body?.cancel();
+
+      // Its GET stream belongs to the owner as well
+      const stream = await mcp('GET', owner.key, sessionId);
+      assertEquals(stream.status, 200);
+      const otherStream = await mcp('GET', other.key, sessionId);
+      assertEquals(otherStream.status, 404);
+      await otherStream.body?.cancel();
+      const callers: Record<string, string>[] = [{}, { 'X-API-Key': other.key }];
+      for (const headers of callers) {
+        const injected = await handler(
+          new Request(`http://localhost:8000/message?sessionId=${sessionId}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+          })
+        );
+        assertEquals(injected.status, 400);
+        await injected.body?.cancel();
+      }
+      await stream.body?.cancel();
+
+      const end = await mcp('DELETE', owner.key, sessionId);
+      assertEquals(end.status, 204);
+
+      // Likewise for legacy /sse sessions
+      const sseRes = await handler(
+        new Request('http://localhost:8000/sse', { headers: { 'X-API-Key': owner.key } })
+      );
+      const reader = sseRes.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const { value } = await reader.read();
+      const endpoint = value!.match(/data: "(.*)"/)![1];
+      const message = await handler(
+        new Request(`http://localhost:8000${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-API-Key': other.key },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+        })
+      );
+      assertEquals(message.status, 400);
+      await message.body?.cancel();
+      await reader.cancel();
+    } finally {
+      await kv.revokeAdminKey(owner.record.id);
+      await kv.revokeAdminKey(other.record.id);
+    }
+  },
 });
 
 Deno.test('DELETE /mcp without session ID still returns 204', async () => {
@@ -1255,6 +1457,593 @@ Deno.test('DELETE /mcp without session ID still returns 204', async () => {
   assertEquals(res.status, 204);
 });
 
+Deno.test({
+  name: 'requiresSession backends get one session per client session',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `stateful-${Date.now()}`;
+    const log: string[] = [];
+    const live = new Set<string>();
+    let sessionCount = 0;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const sessionId = req.headers.get('Mcp-Session-Id');
+      if (req.method === 'DELETE') {
+        log.push(`DELETE ${sessionId}`);
+        live.delete(sessionId!);
+        return new Response(null, { status: 204 });
+      }
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method } = await req.json();
+      log.push(`${method} ${sessionId}`);
+      if (method === 'initialize') {
+        const newId = `backend-${++sessionCount}`;
+        live.add(newId);
+        return Response.json(
+          { jsonrpc: '2.0', id, result: { protocolVersion: '2025-06-18', capabilities: {} } },
+          { headers: { 'Mcp-Session-Id': newId } }
+        );
+      }
+      if (!live.has(sessionId!)) return new Response(null, { status: 404 });
+      if (method === 'notifications/initialized') return new Response(null, { status: 202 });
+      const result = method === 'tools/list'
+        ? { tools: [{ name: 'whoami' }] }
+        : { content: [{ type: 'text', text: sessionId }] };
+      return Response.json({ jsonrpc: '2.0', id, result });
+    });
+
+    const callTool = async (sessionId: string) => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 2,
+            method: 'tools/call',
+            params: { name: `${serverId}__whoami`, arguments: {} },
+          }),
+        })
+      );
+      return (await res.json()).result.content[0].text;
+    };
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Stateful Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+            requiresSession: true,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+
+      const first = await initializeSession();
+      const second = await initializeSession();
+
+      // Handshake runs lazily, once per client session
+      const firstBackendSession = await callTool(first);
+      assertEquals(await callTool(first), firstBackendSession);
+      const secondBackendSession = await callTool(second);
+      assertNotEquals(secondBackendSession, firstBackendSession);
+      const handshake = log.indexOf(`notifications/initialized ${firstBackendSession}`);
+      assertEquals(log.slice(0, handshake).includes('initialize null'), true);
+
+      // A backend 404 starts a new session and retries the call
+      live.delete(firstBackendSession);
+      const renewedBackendSession = await callTool(first);
+      assertNotEquals(renewedBackendSession, firstBackendSession);
+
+      // Ending the client session terminates its backend session
+      const deleteRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': first },
+        })
+      );
+      assertEquals(deleteRes.status, 204);
+      assertEquals(
+        log.filter((entry) => entry.startsWith('DELETE')),
+        [`DELETE ${renewedBackendSession}`]
+      );
+      assertEquals(live.has(secondBackendSession), true);
+
+      await endMcpSession(second);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'expired and legacy SSE sessions release their backend sessions',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `released-${Date.now()}`;
+    const deleted: string[] = [];
+    const called: string[] = [];
+    let sessionCount = 0;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'DELETE') {
+        deleted.push(req.headers.get('Mcp-Session-Id')!);
+        return new Response(null, { status: 204 });
+      }
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method } = await req.json();
+      if (id === undefined) return new Response(null, { status: 202 });
+      if (method === 'initialize') {
+        return Response.json(
+          { jsonrpc: '2.0', id, result: { protocolVersion: '2025-06-18', capabilities: {} } },
+          { headers: { 'Mcp-Session-Id': `backend-${++sessionCount}` } }
+        );
+      }
+      if (method === 'tools/call') called.push(req.headers.get('Mcp-Session-Id')!);
+      return Response.json({ jsonrpc: '2.0', id, result: { content: [] } });
+    });
+
+    const toolCall = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: `${serverId}__noop`, arguments: {} },
+    });
+    const waitForDelete = async (backendSessionId: string) => {
+      for (let i = 0; i < 50 && !deleted.includes(backendSessionId); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      assertEquals(deleted.includes(backendSessionId), true);
+    };
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Released Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+            requiresSession: true,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+
+      // A session left idle past its TTL is swept
+      Deno.env.set('MCP_SESSION_TTL_SECONDS', '1');
+      try {
+        const sessionId = await initializeSession();
+        const callRes = await handler(
+          new Request('http://localhost:8000/mcp', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId },
+            body: toolCall,
+          })
+        );
+        await callRes.body?.cancel();
+        assertEquals(deleted.includes(called[0]), false);
+
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        assertEquals(await sweepExpiredSessions() > 0, true);
+        assertEquals(deleted.includes(called[0]), true);
+        assertEquals(await getMcpSession(sessionId), null);
+      } finally {
+        Deno.env.delete('MCP_SESSION_TTL_SECONDS');
+      }
+
+      // A legacy session ends with its stream
+      const sseRes = await handler(new Request('http://localhost:8000/sse'));
+      const reader = sseRes.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const { value } = await reader.read();
+      const endpoint = value!.match(/data: "(.*)"/)![1];
+      const messageRes = await handler(
+        new Request(`http://localhost:8000${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: toolCall,
+        })
+      );
+      await messageRes.body?.cancel();
+      assertEquals(deleted.includes(called[1]), false);
+
+      await reader.cancel();
+      await waitForDelete(called[1]);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'notifications/cancelled aborts the backend call and suppresses the response',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `cancel-${Date.now()}`;
+    const callReceived = Promise.withResolvers<number>();
+    const cancelReceived = Promise.withResolvers<Record<string, unknown>>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method, params } = await req.json();
+      if (method === 'notifications/cancelled') {
+        cancelReceived.resolve(params);
+        return new Response(null, { status: 202 });
+      }
+      if (method === 'tools/list') {
+        return Response.json({ jsonrpc: '2.0', id, result: { tools: [{ name: 'slow' }] } });
+      }
+      if (method !== 'tools/call') {
+        return Response.json({ jsonrpc: '2.0', id, result: {} });
+      }
+      // Only answers after the cancellation, which the gateway must not relay
+      callReceived.resolve(id);
+      await cancelReceived.promise;
+      return Response.json({ jsonrpc: '2.0', id, result: { content: [] } });
+    });
+
+    const post = (sessionId: string, message: Record<string, unknown>) =>
+      handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId },
+          body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+        })
+      );
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Slow Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+      const sessionId = await initializeSession();
+
+      const pending = post(sessionId, {
+        id: 'call-1',
+        method: 'tools/call',
+        params: { name: `${serverId}__slow`, arguments: {} },
+      });
+      const backendRequestId = await callReceived.promise;
+
+      // Unknown request IDs and other sessions are ignored
+      const otherSession = await initializeSession();
+      const ignored = await post(otherSession, {
+        method: 'notifications/cancelled',
+        params: { requestId: 'call-1' },
+      });
+      await ignored.body?.cancel();
+
+      const cancelRes = await post(sessionId, {
+        method: 'notifications/cancelled',
+        params: { requestId: 'call-1', reason: 'User pressed stop' },
+      });
+      await cancelRes.body?.cancel();
+
+      const res = await pending;
+      assertEquals(res.status, 202);
+      assertEquals(await res.text(), '');
+      assertEquals(await cancelReceived.promise, {
+        requestId: backendRequestId,
+        reason: 'User pressed stop',
+      });
+
+      await endMcpSession(sessionId);
+      await endMcpSession(otherSession);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'resources/templates/list aggregates namespaced templates and reads route back',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const templatesId = `templates-${Date.now()}`;
+    const plainId = `plain-${Date.now()}`;
+    const readUris: string[] = [];
+
+    const withTemplates = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method, params } = await req.json();
+      if (method === 'resources/templates/list') {
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          result: {
+            resourceTemplates: [{ uriTemplate: 'file:///logs/{day}', name: 'Daily log' }],
+          },
+        });
+      }
+      if (method === 'resources/read') {
+        readUris.push(params.uri);
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          result: { contents: [{ uri: params.uri, text: 'log' }] },
+        });
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+    // Backends without templates answer with METHOD_NOT_FOUND
+    const withoutTemplates = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method } = await req.json();
+      if (method === 'resources/templates/list') {
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32601, message: 'Method not found' },
+        });
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    const rpc = async (id: number, method: string, params: Record<string, unknown> = {}) => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+        })
+      );
+      return await res.json();
+    };
+
+    try {
+      const backends = [[templatesId, withTemplates], [plainId, withoutTemplates]] as const;
+      for (const [id, backend] of backends) {
+        const registerRes = await handler(
+          new Request('http://localhost:8000/servers/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              id,
+              name: id,
+              endpoint: `http://localhost:${backend.addr.port}/mcp`,
+            }),
+          })
+        );
+        await registerRes.body?.cancel();
+      }
+
+      // Repeated METHOD_NOT_FOUND must not open the backend's circuit breaker
+      for (let i = 0; i < 6; i++) {
+        const list = await rpc(i, 'resources/templates/list');
+        assertEquals(list.error, undefined);
+        const templates = list.result.resourceTemplates.filter(
+          (t: { _server: { id: string } }) => [templatesId, plainId].includes(t._server.id)
+        );
+        assertEquals(templates, [
+          {
+            uriTemplate: `${templatesId}://file:///logs/{day}`,
+            name: 'Daily log',
+            _server: { id: templatesId, name: templatesId },
+          },
+        ]);
+      }
+
+      const read = await rpc(10, 'resources/read', { uri: `${templatesId}://file:///logs/monday` });
+      assertEquals(read.result.contents[0].text, 'log');
+      assertEquals(readUris, ['file:///logs/monday']);
+      const call = await rpc(11, 'tools/call', { name: `${plainId}__echo`, arguments: {} });
+      assertEquals(call.result, {});
+    } finally {
+      for (const id of [templatesId, plainId]) {
+        const deleteRes = await handler(
+          new Request(`http://localhost:8000/mcp/servers/${id}`, { method: 'DELETE' })
+        );
+        await deleteRes.body?.cancel();
+      }
+      await withTemplates.shutdown();
+      await withoutTemplates.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'completion/complete is advertised with backend support and routed by reference',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `complete-${Date.now()}`;
+    const completeParams: Record<string, unknown>[] = [];
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method, params } = await req.json();
+      if (method === 'initialize') {
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          result: { protocolVersion: '2025-06-18', capabilities: { completions: {} } },
+        });
+      }
+      if (method === 'completion/complete') {
+        completeParams.push(params);
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          result: { completion: { values: ['Bern', 'Berlin'], hasMore: false } },
+        });
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    const rpc = async (id: number, method: string, params: Record<string, unknown> = {}) => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+        })
+      );
+      if (method === 'initialize') {
+        await endMcpSession(res.headers.get('Mcp-Session-Id')!);
+      }
+      return await res.json();
+    };
+    const initialize = { protocolVersion: '2025-06-18', capabilities: {} };
+
+    try {
+      const before = await rpc(1, 'initialize', initialize);
+      assertEquals(before.result.capabilities.completions, undefined);
+
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Completing Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+
+      const after = await rpc(2, 'initialize', initialize);
+      assertEquals(after.result.capabilities.completions, {});
+
+      const argument = { name: 'city', value: 'Ber' };
+      const prompt = await rpc(3, 'completion/complete', {
+        ref: { type: 'ref/prompt', name: `${serverId}__trip` },
+        argument,
+      });
+      assertEquals(prompt.result.completion.values, ['Bern', 'Berlin']);
+      await rpc(4, 'completion/complete', {
+        ref: { type: 'ref/resource', uri: `${serverId}://weather/{city}` },
+        argument,
+      });
+      assertEquals(completeParams, [
+        { ref: { type: 'ref/prompt', name: 'trip' }, argument },
+        { ref: { type: 'ref/resource', uri: 'weather/{city}' }, argument },
+      ]);
+
+      const invalid = await rpc(5, 'completion/complete', {
+        ref: { type: 'ref/prompt', name: 'trip' },
+        argument,
+      });
+      assertEquals(invalid.error.code, -32602);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'initialize closes capability probe sessions and skips unreachable backends',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `probe-${Date.now()}`;
+    const log: string[] = [];
+    let reachable = false;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      if (req.method === 'DELETE') {
+        log.push(`DELETE ${req.headers.get('Mcp-Session-Id')}`);
+        return new Response(null, { status: 204 });
+      }
+      const { id, method } = await req.json();
+      log.push(method);
+      if (!reachable) return new Response(null, { status: 503 });
+      if (id === undefined) return new Response(null, { status: 202 });
+      return Response.json(
+        { jsonrpc: '2.0', id, result: { protocolVersion: '2025-06-18', capabilities: {} } },
+        { headers: { 'Mcp-Session-Id': 'probe-session' } }
+      );
+    });
+
+    const initialize = async () => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2025-06-18', capabilities: {} },
+          }),
+        })
+      );
+      await res.body?.cancel();
+      await endMcpSession(res.headers.get('Mcp-Session-Id')!);
+    };
+    const register = async () => {
+      const res = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Probed Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await res.body?.cancel();
+    };
+
+    try {
+      // A failed probe is not repeated by the next initialize
+      await register();
+      await initialize();
+      await initialize();
+      assertEquals(log, ['initialize']);
+
+      // Re-registering probes again; the session the probe got is closed
+      reachable = true;
+      log.length = 0;
+      await register();
+      await initialize();
+      await initialize();
+      assertEquals(log, ['initialize', 'notifications/initialized', 'DELETE probe-session']);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
 // =============================================================================
 // Message Endpoint Tests
 // =============================================================================
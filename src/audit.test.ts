@@ -0,0 +1,228 @@
+/**
+ * Audit Log Tests
+ */
+
+import {
+  assertEquals,
+  assertExists,
+  assertRejects,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../main.ts';
+import { createAuditEntry, parseAuditQuery } from './audit.ts';
+import { deleteServer, getServer, listAuditEntries, saveServer } from './kv.ts';
+import type { AdminIdentity, BackendServer } from './types.ts';
+
+// Backends run on localhost
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+const BOOTSTRAP_KEY = 'test-audit-admin-key';
+
+// Run a test body with admin auth enabled via the bootstrap key
+async function withBootstrapKey(fn: () => Promise<void>): Promise<void> {
+  const original = Deno.env.get('ADMIN_API_KEY');
+  Deno.env.set('ADMIN_API_KEY', BOOTSTRAP_KEY);
+  try {
+    await fn();
+  } finally {
+    if (original) {
+      Deno.env.set('ADMIN_API_KEY', original);
+    } else {
+      Deno.env.delete('ADMIN_API_KEY');
+    }
+  }
+}
+
+function adminRequest(path: string, method = 'GET', body?: unknown): Request {
+  return new Request(`http://localhost:8000${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${BOOTSTRAP_KEY}`,
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+// =============================================================================
+// Query Parsing
+// =============================================================================
+
+Deno.test('Audit - parseAuditQuery reads filters and pagination', () => {
+  const { query, errors } = parseAuditQuery(
+    new URLSearchParams({
+      from: '2025-01-01T00:00:00Z',
+      to: '1767225600000',
+      action: 'server.register,server.delete',
+      limit: '10',
+      cursor: 'abc',
+    })
+  );
+  assertEquals(errors, []);
+  assertEquals(query, {
+    from: Date.parse('2025-01-01T00:00:00Z'),
+    to: 1767225600000,
+    actions: ['server.register', 'server.delete'],
+    limit: 10,
+    cursor: 'abc',
+  });
+
+  assertEquals(parseAuditQuery(new URLSearchParams()).query, { limit: 50 });
+});
+
+Deno.test('Audit - parseAuditQuery rejects invalid parameters', () => {
+  const { errors } = parseAuditQuery(
+    new URLSearchParams('from=yesterday&action=server.rename&limit=1000')
+  );
+  assertEquals(errors, [
+    'from must be an ISO 8601 date or epoch milliseconds',
+    'Unknown action: server.rename',
+    'limit must be between 1 and 500',
+  ]);
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Audit - server mutations are recorded with actor and snapshots',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `audit-test-${Date.now()}`;
+    const start = Date.now();
+    const server = {
+      id: serverId,
+      name: 'Audit Test Server',
+      endpoint: 'http://localhost:9100/mcp',
+      auth: { type: 'bearer', token: 'plain-secret-token' },
+    };
+
+    try {
+      await withBootstrapKey(async () => {
+        for (const name of ['Audit Test Server', 'Renamed Server']) {
+          const res = await handler(
+            adminRequest('/servers/register', 'POST', { ...server, name })
+          );
+          assertEquals(res.status, 200);
+          await res.body?.cancel();
+        }
+        const deleted = await handler(adminRequest(`/mcp/servers/${serverId}`, 'DELETE'));
+        assertEquals(deleted.status, 200);
+        await deleted.body?.cancel();
+
+        const res = await handler(
+          adminRequest(`/mcp/audit?from=${start}&action=server.register,server.delete`)
+        );
+        assertEquals(res.status, 200);
+        const { entries } = await res.json();
+        const own = entries.filter((e: { serverId?: string }) => e.serverId === serverId);
+
+        // Newest first
+        assertEquals(
+          own.map((e: { action: string }) => e.action),
+          ['server.delete', 'server.register', 'server.register']
+        );
+        const [deletion, update, creation] = own;
+        assertEquals(creation.actor.keyId, 'bootstrap');
+        assertEquals(creation.before, null);
+        assertEquals(creation.after.auth, { type: 'bearer', token: '[REDACTED]' });
+        assertEquals(update.before.name, 'Audit Test Server');
+        assertEquals(update.after.name, 'Renamed Server');
+        assertEquals(deletion.before.name, 'Renamed Server');
+        assertEquals(deletion.after, null);
+        assertExists(Date.parse(deletion.timestamp));
+      });
+    } finally {
+      await deleteServer(serverId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Audit - entries are committed atomically with the mutation',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `audit-atomic-${Date.now()}`;
+    const server: BackendServer = {
+      id: serverId,
+      name: 'Original',
+      endpoint: 'http://localhost:9100/mcp',
+      requiresSession: false,
+    };
+    const actor: AdminIdentity = { keyId: 'atomic', name: 'Atomic', role: 'admin', source: 'kv' };
+    const entry = createAuditEntry('server.register', actor, { serverId, after: server });
+
+    try {
+      await saveServer(server, entry);
+      const from = Date.parse(entry.timestamp);
+      const { entries } = await listAuditEntries({ limit: 500, from });
+      assertEquals(entries.filter((e) => e.id === entry.id).length, 1);
+
+      // `to` includes entries recorded in its very millisecond
+      const atTo = await listAuditEntries({ limit: 500, from, to: from });
+      assertEquals(atTo.entries.filter((e) => e.id === entry.id).length, 1);
+
+      // If the entry cannot be written, neither is the change
+      await assertRejects(() => saveServer({ ...server, name: 'Changed' }, entry));
+      assertEquals((await getServer(serverId))?.name, 'Original');
+      await assertRejects(() => deleteServer(serverId, { ...entry, action: 'server.delete' }));
+      assertExists(await getServer(serverId));
+    } finally {
+      await deleteServer(serverId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Audit - entries are paginated with a cursor',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const start = Date.now();
+
+    await withBootstrapKey(async () => {
+      for (let i = 0; i < 3; i++) {
+        const res = await handler(adminRequest('/mcp/circuit-breakers/reset', 'POST'));
+        assertEquals(res.status, 200);
+        await res.body?.cancel();
+      }
+
+      const query = `/mcp/audit?from=${start}&action=circuit-breakers.reset&limit=2`;
+      const first = await (await handler(adminRequest(query))).json();
+      assertEquals(first.entries.length, 2);
+      assertExists(first.cursor);
+
+      const second = await (
+        await handler(adminRequest(`${query}&cursor=${encodeURIComponent(first.cursor)}`))
+      ).json();
+      assertEquals(second.entries.length, 1);
+      assertEquals(second.cursor, null);
+
+      const ids = [...first.entries, ...second.entries].map((e: { id: string }) => e.id);
+      assertEquals(new Set(ids).size, 3);
+    });
+  },
+});
+
+Deno.test({
+  name: 'Audit - invalid queries and missing credentials are rejected',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const unauthenticated = await handler(new Request('http://localhost:8000/mcp/audit'));
+      assertEquals(unauthenticated.status, 401);
+      await unauthenticated.body?.cancel();
+
+      const invalid = await handler(adminRequest('/mcp/audit?limit=0'));
+      assertEquals(invalid.status, 400);
+      assertEquals((await invalid.json()).details, ['limit must be between 1 and 500']);
+
+      const badCursor = await handler(adminRequest('/mcp/audit?cursor=%25%25%25'));
+      assertEquals(badCursor.status, 400);
+      assertEquals((await badCursor.json()).error, 'Invalid cursor');
+    });
+  },
+});
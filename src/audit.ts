@@ -0,0 +1,146 @@
+/**
+ * Audit log module
+ *
+ * Records registry and admin mutations to an append-only log in Deno KV
+ * and parses audit log queries (GET /mcp/audit). Entries of KV mutations
+ * are passed to the kv.ts function performing them, which writes both in
+ * one atomic operation.
+ */
+
+import * as kv from './kv.ts';
+import { logger } from './logger.ts';
+import { redactServer } from './auth/mod.ts';
+import type {
+  AdminIdentity,
+  AuditAction,
+  AuditEntry,
+  AuditQuery,
+  BackendServer,
+} from './types.ts';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'server.register',
+  'server.upload',
+  'server.delete',
+  'circuit-breakers.reset',
+  'admin-key.issue',
+  'admin-key.revoke',
+  'access-policy.save',
+  'access-policy.delete',
+  'tool-pin.approve',
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/** What an audited action changed */
+interface AuditTarget {
+  serverId?: string;
+  targetId?: string;
+  before?: BackendServer | null;
+  after?: BackendServer | null;
+}
+
+let lastTimestamp = 0;
+let sequence = 0;
+
+/**
+ * Entry ID that sorts in recording order within this isolate,
+ * even for entries recorded in the same millisecond
+ */
+function createEntryId(now: number): string {
+  sequence = now === lastTimestamp ? sequence + 1 : 0;
+  lastTimestamp = now;
+  return `${now}-${String(sequence).padStart(6, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Build the audit entry for a mutation performed by an admin
+ */
+export function createAuditEntry(
+  action: AuditAction,
+  actor: AdminIdentity,
+  target: AuditTarget = {}
+): AuditEntry {
+  const now = Date.now();
+  const entry: AuditEntry = {
+    id: createEntryId(now),
+    timestamp: new Date(now).toISOString(),
+    action,
+    actor,
+    ...(target.serverId !== undefined && { serverId: target.serverId }),
+    ...(target.targetId !== undefined && { targetId: target.targetId }),
+    before: target.before ? redactServer(target.before) : null,
+    after: target.after ? redactServer(target.after) : null,
+  };
+  logger.debug('Audit entry created', { id: entry.id, action, actor: actor.keyId });
+  return entry;
+}
+
+/**
+ * Append an audit entry for an admin action that changes nothing in KV
+ */
+export async function recordAudit(
+  action: AuditAction,
+  actor: AdminIdentity,
+  target: AuditTarget = {}
+): Promise<AuditEntry> {
+  const entry = createAuditEntry(action, actor, target);
+  await kv.appendAuditEntry(entry);
+  return entry;
+}
+
+/**
+ * Parse a time bound given as ISO 8601 date or epoch milliseconds
+ */
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+}
+
+/**
+ * Parse audit log query parameters (from, to, action, limit, cursor).
+ * Returns validation errors if any parameter is invalid.
+ */
+export function parseAuditQuery(
+  params: URLSearchParams
+): { query: AuditQuery; errors: string[] } {
+  const errors: string[] = [];
+  const query: AuditQuery = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (value === null) continue;
+    const time = parseTime(value);
+    if (isNaN(time)) {
+      errors.push(`${bound} must be an ISO 8601 date or epoch milliseconds`);
+    } else {
+      query[bound] = time;
+    }
+  }
+
+  const actions = params.get('action');
+  if (actions) {
+    query.actions = actions.split(',').map((a) => a.trim()) as AuditAction[];
+    const unknown = query.actions.filter((a) => !AUDIT_ACTIONS.includes(a));
+    if (unknown.length > 0) {
+      errors.push(`Unknown action: ${unknown.join(', ')}`);
+    }
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const value = parseInt(limit);
+    if (!(value > 0 && value <= MAX_PAGE_SIZE)) {
+      errors.push(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    } else {
+      query.limit = value;
+    }
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    query.cursor = cursor;
+  }
+
+  return { query, errors };
+}
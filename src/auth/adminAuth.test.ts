@@ -0,0 +1,397 @@
+/**
+ * Admin Authentication Tests
+ *
+ * Tests key hashing, issuance and revocation, and the 401/403 behavior
+ * of the admin routes when admin auth is enabled.
+ */
+
+import {
+  assertEquals,
+  assertExists,
+  assertStringIncludes,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import {
+  API_KEY_PREFIX,
+  authenticateAdmin,
+  extractApiKey,
+  generateApiKey,
+  hashApiKey,
+  issueAdminKey,
+  resolveAdminKey,
+} from './mod.ts';
+import { deleteServer, listAdminKeys, revokeAdminKey } from '../kv.ts';
+
+// Backends run on localhost
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+const BOOTSTRAP_KEY = 'test-bootstrap-admin-key';
+
+// Run a test body with admin auth enabled via the bootstrap key
+async function withBootstrapKey(fn: () => Promise<void>): Promise<void> {
+  const original = Deno.env.get('ADMIN_API_KEY');
+  Deno.env.set('ADMIN_API_KEY', BOOTSTRAP_KEY);
+  try {
+    await fn();
+  } finally {
+    if (original) {
+      Deno.env.set('ADMIN_API_KEY', original);
+    } else {
+      Deno.env.delete('ADMIN_API_KEY');
+    }
+  }
+}
+
+// Run a test body with ADMIN_AUTH_DISABLED set to `value` (or unset)
+async function withAdminAuthDisabled(
+  value: string | undefined,
+  fn: () => Promise<void>
+): Promise<void> {
+  const original = Deno.env.get('ADMIN_AUTH_DISABLED');
+  if (value === undefined) Deno.env.delete('ADMIN_AUTH_DISABLED');
+  else Deno.env.set('ADMIN_AUTH_DISABLED', value);
+  try {
+    await fn();
+  } finally {
+    if (original === undefined) Deno.env.delete('ADMIN_AUTH_DISABLED');
+    else Deno.env.set('ADMIN_AUTH_DISABLED', original);
+  }
+}
+
+function registerRequest(id: string, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost:8000/servers/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      id,
+      name: 'Admin Auth Test Server',
+      endpoint: 'http://localhost:9100/mcp',
+    }),
+  });
+}
+
+// =============================================================================
+// Key Helpers
+// =============================================================================
+
+Deno.test('Admin auth - generateApiKey returns unique prefixed keys', () => {
+  const a = generateApiKey();
+  const b = generateApiKey();
+
+  assertEquals(a.startsWith(API_KEY_PREFIX), true);
+  assertEquals(a === b, false);
+  assertEquals(/^[A-Za-z0-9_-]+$/.test(a), true);
+});
+
+Deno.test('Admin auth - hashApiKey is deterministic SHA-256 hex', async () => {
+  const hash = await hashApiKey('abc');
+  assertEquals(
+    hash,
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+  );
+  assertEquals(await hashApiKey('abc'), hash);
+});
+
+Deno.test('Admin auth - extractApiKey reads Bearer and X-API-Key headers', () => {
+  const bearer = new Request('http://localhost/', {
+    headers: { Authorization: 'Bearer key-1' },
+  });
+  const header = new Request('http://localhost/', {
+    headers: { 'X-API-Key': 'key-2' },
+  });
+  const basic = new Request('http://localhost/', {
+    headers: { Authorization: 'Basic dXNlcjpwYXNz' },
+  });
+
+  assertEquals(extractApiKey(bearer), 'key-1');
+  assertEquals(extractApiKey(header), 'key-2');
+  assertEquals(extractApiKey(basic), null);
+});
+
+// =============================================================================
+// Key Lifecycle
+// =============================================================================
+
+Deno.test({
+  name: 'Admin auth - issued key resolves until revoked',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const { key, record } = await issueAdminKey('lifecycle-test', 'operator');
+
+    try {
+      const identity = await resolveAdminKey(key);
+      assertExists(identity);
+      assertEquals(identity.keyId, record.id);
+      assertEquals(identity.role, 'operator');
+      assertEquals(identity.source, 'kv');
+
+      // The plain key is never persisted
+      const stored = (await listAdminKeys()).find((k) => k.id === record.id);
+      assertExists(stored);
+      assertEquals(JSON.stringify(stored).includes(key), false);
+    } finally {
+      await revokeAdminKey(record.id);
+    }
+
+    assertEquals(await resolveAdminKey(key), null);
+    const revoked = (await listAdminKeys()).find((k) => k.id === record.id);
+    assertExists(revoked?.revokedAt);
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - rejects requests when no admin key is configured',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    for (const value of [undefined, 'false']) {
+      await withAdminAuthDisabled(value, async () => {
+        const res = await handler(registerRequest(`closed-${Date.now()}`));
+        assertEquals(res.status, 401);
+        await res.body?.cancel();
+
+        const req = new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+          method: 'POST',
+        });
+        const result = await authenticateAdmin(req);
+        assertEquals(result.identity, null);
+      });
+    }
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - open mode allows requests without credentials',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withAdminAuthDisabled('true', async () => {
+      const req = new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+        method: 'POST',
+      });
+      const result = await authenticateAdmin(req);
+
+      assertEquals(result.error, null);
+      assertEquals(result.identity?.source, 'open');
+    });
+  },
+});
+
+// =============================================================================
+// Admin Route Enforcement
+// =============================================================================
+
+Deno.test({
+  name: 'Admin auth - register without credentials returns 401',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const res = await handler(registerRequest(`auth-test-${Date.now()}`));
+
+      assertEquals(res.status, 401);
+      assertStringIncludes(res.headers.get('WWW-Authenticate') || '', 'Bearer');
+      const body = await res.json();
+      assertStringIncludes(body.error, 'Unauthorized');
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - register with invalid key returns 401',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const res = await handler(
+        registerRequest(`auth-test-${Date.now()}`, {
+          Authorization: 'Bearer not-a-real-key',
+        })
+      );
+      assertEquals(res.status, 401);
+      await res.body?.cancel();
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - register with bootstrap key succeeds',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `auth-test-bootstrap-${Date.now()}`;
+    try {
+      await withBootstrapKey(async () => {
+        const res = await handler(
+          registerRequest(serverId, { Authorization: `Bearer ${BOOTSTRAP_KEY}` })
+        );
+        assertEquals(res.status, 200);
+        const body = await res.json();
+        assertEquals(body.success, true);
+      });
+    } finally {
+      await deleteServer(serverId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - operator key cannot manage keys (403)',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const { key, record } = await issueAdminKey('operator-test', 'operator');
+      try {
+        // Operators may reset circuit breakers
+        const resetRes = await handler(
+          new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+            method: 'POST',
+            headers: { 'X-API-Key': key },
+          })
+        );
+        assertEquals(resetRes.status, 200);
+        await resetRes.body?.cancel();
+
+        // ...but not list admin keys
+        const listRes = await handler(
+          new Request('http://localhost:8000/mcp/admin/keys', {
+            headers: { Authorization: `Bearer ${key}` },
+          })
+        );
+        assertEquals(listRes.status, 403);
+        await listRes.body?.cancel();
+      } finally {
+        await revokeAdminKey(record.id);
+      }
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - issue, list and revoke keys via API',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const adminHeaders = {
+        Authorization: `Bearer ${BOOTSTRAP_KEY}`,
+        'Content-Type': 'application/json',
+      };
+
+      const issueRes = await handler(
+        new Request('http://localhost:8000/mcp/admin/keys', {
+          method: 'POST',
+          headers: adminHeaders,
+          body: JSON.stringify({ name: 'api-issued', role: 'operator' }),
+        })
+      );
+      assertEquals(issueRes.status, 201);
+      const issued = await issueRes.json();
+      assertEquals(issued.key.startsWith(API_KEY_PREFIX), true);
+      assertEquals(issued.hash, undefined);
+
+      try {
+        const listRes = await handler(
+          new Request('http://localhost:8000/mcp/admin/keys', { headers: adminHeaders })
+        );
+        assertEquals(listRes.status, 200);
+        const { keys } = await listRes.json();
+        const listed = keys.find((k: { id: string }) => k.id === issued.id);
+        assertExists(listed);
+        assertEquals(listed.hash, undefined);
+        assertEquals(listed.key, undefined);
+      } finally {
+        const revokeRes = await handler(
+          new Request(`http://localhost:8000/mcp/admin/keys/${issued.id}`, {
+            method: 'DELETE',
+            headers: adminHeaders,
+          })
+        );
+        assertEquals(revokeRes.status, 200);
+        await revokeRes.body?.cancel();
+      }
+
+      // The revoked key no longer authenticates
+      const res = await handler(
+        new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${issued.key}` },
+        })
+      );
+      assertEquals(res.status, 401);
+      await res.body?.cancel();
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - the first key cannot be issued in open mode',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withAdminAuthDisabled('true', async () => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp/admin/keys', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'first-key', role: 'admin' }),
+        })
+      );
+      assertEquals(res.status, 403);
+      await res.body?.cancel();
+
+      const { keys } = await (await handler(
+        new Request('http://localhost:8000/mcp/admin/keys')
+      )).json();
+      assertEquals(keys.some((k: { name: string }) => k.name === 'first-key'), false);
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - issuing a key with a null or non-JSON body returns 400',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      for (const body of ['null', 'not json', '[]']) {
+        const res = await handler(
+          new Request('http://localhost:8000/mcp/admin/keys', {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${BOOTSTRAP_KEY}`,
+              'Content-Type': 'application/json',
+            },
+            body,
+          })
+        );
+        assertEquals(res.status, 400, body);
+        await res.body?.cancel();
+      }
+    });
+  },
+});
+
+Deno.test({
+  name: 'Admin auth - issuing a key with an invalid role returns 400',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withBootstrapKey(async () => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp/admin/keys', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${BOOTSTRAP_KEY}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name: 'bad-role', role: 'superuser' }),
+        })
+      );
+      assertEquals(res.status, 400);
+      await res.body?.cancel();
+    });
+  },
+});
@@ -0,0 +1,279 @@
+/**
+ * Admin Authentication
+ *
+ * Protects the mutating admin routes (server registration, upload, deletion,
+ * circuit breaker resets and key management) with API keys.
+ *
+ * Keys are accepted via `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * Two sources of keys exist:
+ * 1. A bootstrap key from the ADMIN_API_KEY environment variable (role: admin)
+ * 2. Keys issued through the admin API, stored hashed in Deno KV
+ *
+ * While neither source is configured admin routes reject every request,
+ * unless ADMIN_AUTH_DISABLED=true explicitly opts into open mode (for local
+ * development; a warning is logged).
+ */
+
+import { corsHeaders } from '../config.ts';
+import { logger } from '../logger.ts';
+import * as kv from '../kv.ts';
+import type { AdminIdentity, AdminKeyRecord, AdminRole, AuditEntry } from '../types.ts';
+
+/**
+ * Prefix of issued keys, makes leaked keys easy to recognize in scanners
+ */
+export const API_KEY_PREFIX = 'mgw_';
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  client: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export type AdminAuthResult =
+  | { identity: AdminIdentity; error: null }
+  | { identity: null; error: Response };
+
+/**
+ * Public view of an admin key (never includes the hash)
+ */
+export type AdminKeyInfo = Omit<AdminKeyRecord, 'hash'>;
+
+let openModeWarned = false;
+
+/**
+ * Check whether a string is a valid admin role
+ */
+export function isAdminRole(value: unknown): value is AdminRole {
+  return value === 'client' || value === 'operator' || value === 'admin';
+}
+
+/**
+ * Hash an API key with SHA-256 (hex encoded)
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(key)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a new random API key (256 bits, base64url encoded)
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${API_KEY_PREFIX}${encoded}`;
+}
+
+/**
+ * Extract an API key from the Authorization or X-API-Key header
+ */
+export function extractApiKey(req: Request): string | null {
+  const authorization = req.headers.get('Authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  const apiKey = req.headers.get('X-API-Key');
+  return apiKey ? apiKey.trim() : null;
+}
+
+/**
+ * Strip the hash from a stored key record
+ */
+export function toAdminKeyInfo(record: AdminKeyRecord): AdminKeyInfo {
+  const { hash: _hash, ...info } = record;
+  return info;
+}
+
+/**
+ * Issue a new admin key. The plain key is only returned here, KV stores its hash.
+ * `audit` is stored with the key, its target set to the key's ID.
+ */
+export async function issueAdminKey(
+  name: string,
+  role: AdminRole,
+  audit?: AuditEntry
+): Promise<{ key: string; record: AdminKeyRecord }> {
+  const key = generateApiKey();
+  const record: AdminKeyRecord = {
+    id: crypto.randomUUID(),
+    name,
+    role,
+    hash: await hashApiKey(key),
+    prefix: key.substring(0, API_KEY_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.saveAdminKey(record, audit && { ...audit, targetId: record.id });
+  logger.info('Admin key issued', { keyId: record.id, name, role });
+  return { key, record };
+}
+
+/**
+ * Resolve an API key to an admin identity, or null if it is unknown/revoked
+ */
+export async function resolveAdminKey(
+  key: string
+): Promise<AdminIdentity | null> {
+  const hash = await hashApiKey(key);
+
+  const bootstrapKey = Deno.env.get('ADMIN_API_KEY');
+  if (bootstrapKey && timingSafeEqual(hash, await hashApiKey(bootstrapKey))) {
+    return { keyId: 'bootstrap', name: 'bootstrap', role: 'admin', source: 'bootstrap' };
+  }
+
+  const record = await kv.getAdminKeyByHash(hash);
+  if (!record) {
+    return null;
+  }
+  return { keyId: record.id, name: record.name, role: record.role, source: 'kv' };
+}
+
+/**
+ * Check whether admin authentication is enforced
+ */
+export async function isAdminAuthEnabled(): Promise<boolean> {
+  if (Deno.env.get('ADMIN_API_KEY')) {
+    return true;
+  }
+  return await kv.hasActiveAdminKeys();
+}
+
+/**
+ * Authenticate an admin request and check that it holds the required role.
+ * Returns a 401 response for missing/unknown keys and 403 for insufficient roles.
+ */
+export async function authenticateAdmin(
+  req: Request,
+  requiredRole: AdminRole = 'operator'
+): Promise<AdminAuthResult> {
+  const path = new URL(req.url).pathname;
+
+  if (!(await isAdminAuthEnabled())) {
+    if (Deno.env.get('ADMIN_AUTH_DISABLED')?.toLowerCase() !== 'true') {
+      logger.warn('Admin request rejected: admin auth is not configured', {
+        path,
+        method: req.method,
+      });
+      return {
+        identity: null,
+        error: unauthorizedResponse('Set ADMIN_API_KEY to enable admin routes'),
+      };
+    }
+    if (!openModeWarned) {
+      logger.warn(
+        'Admin routes are unauthenticated (ADMIN_AUTH_DISABLED=true)',
+        { path }
+      );
+      openModeWarned = true;
+    }
+    return {
+      identity: { keyId: 'anonymous', name: 'anonymous', role: 'admin', source: 'open' },
+      error: null,
+    };
+  }
+
+  const key = extractApiKey(req);
+  if (!key) {
+    logger.warn('Admin request without credentials', { path, method: req.method });
+    return { identity: null, error: unauthorizedResponse('Missing API key') };
+  }
+
+  const identity = await resolveAdminKey(key);
+  if (!identity) {
+    logger.warn('Admin request with invalid API key', { path, method: req.method });
+    return { identity: null, error: unauthorizedResponse('Invalid or revoked API key') };
+  }
+
+  if (ROLE_RANK[identity.role] < ROLE_RANK[requiredRole]) {
+    logger.warn('Admin request with insufficient role', {
+      path,
+      method: req.method,
+      keyId: identity.keyId,
+      role: identity.role,
+      requiredRole,
+    });
+    return {
+      identity: null,
+      error: new Response(
+        JSON.stringify({ error: `Forbidden: requires role "${requiredRole}"` }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      ),
+    };
+  }
+
+  return { identity, error: null };
+}
+
+/**
+ * Identify an MCP client by a gateway API key, for access policies.
+ * Only X-API-Key and `Bearer mgw_...` are considered, so OAuth access tokens
+ * pass through untouched. Requests without a key stay anonymous; unknown or
+ * revoked keys are rejected with 401.
+ */
+export async function resolveClientApiKey(
+  req: Request
+): Promise<{ apiKeyId: string | null; error: Response | null }> {
+  const bearer = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  const key =
+    req.headers.get('X-API-Key')?.trim() ||
+    (bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined);
+  if (!key) {
+    return { apiKeyId: null, error: null };
+  }
+
+  const identity = await resolveAdminKey(key);
+  if (!identity) {
+    logger.warn('MCP request with invalid API key', {
+      path: new URL(req.url).pathname,
+    });
+    return {
+      apiKeyId: null,
+      error: unauthorizedResponse('Invalid or revoked API key', 'mcp-gateway'),
+    };
+  }
+  return { apiKeyId: identity.keyId, error: null };
+}
+
+/**
+ * Build a 401 response with a Bearer challenge
+ */
+function unauthorizedResponse(message: string, realm = 'mcp-gateway-admin'): Response {
+  return new Response(JSON.stringify({ error: `Unauthorized: ${message}` }), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': `Bearer realm="${realm}"`,
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Compare two equal-length strings without short-circuiting
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
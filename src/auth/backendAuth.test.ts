@@ -0,0 +1,237 @@
+/**
+ * Backend Credential Injection Tests
+ */
+
+import {
+  assertEquals,
+  assertExists,
+  assertThrows,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { sendToBackend } from '../backend.ts';
+import { deleteServer, getServer } from '../kv.ts';
+import type { BackendServer } from '../types.ts';
+import {
+  buildBackendHeaders,
+  InvalidSecretNameError,
+  MissingSecretError,
+  REDACTED,
+  redactServer,
+  resolveSecret,
+  validateBackendCredentials,
+} from './mod.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+function createServer(overrides: Partial<BackendServer> = {}): BackendServer {
+  return {
+    id: 'creds-test',
+    name: 'Credentials Test',
+    endpoint: 'http://localhost:9200/mcp',
+    requiresSession: false,
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Secret Resolution and Header Building
+// =============================================================================
+
+Deno.test('Backend auth - resolveSecret reads secret references from env', () => {
+  Deno.env.set('BACKEND_SECRET_AUTH_TEST', 's3cret');
+  try {
+    assertEquals(resolveSecret('plain'), 'plain');
+    assertEquals(resolveSecret({ secret: 'BACKEND_SECRET_AUTH_TEST' }), 's3cret');
+  } finally {
+    Deno.env.delete('BACKEND_SECRET_AUTH_TEST');
+  }
+
+  assertThrows(
+    () => resolveSecret({ secret: 'BACKEND_SECRET_AUTH_TEST_MISSING' }),
+    MissingSecretError
+  );
+});
+
+Deno.test('Backend auth - resolveSecret only reads BACKEND_SECRET_ variables', () => {
+  Deno.env.set('ADMIN_API_KEY_AUTH_TEST', 'gateway-config');
+  try {
+    assertThrows(
+      () => resolveSecret({ secret: 'ADMIN_API_KEY_AUTH_TEST' }),
+      InvalidSecretNameError,
+      'must start with BACKEND_SECRET_'
+    );
+  } finally {
+    Deno.env.delete('ADMIN_API_KEY_AUTH_TEST');
+  }
+  assertThrows(() => resolveSecret({ secret: 'BACKEND_SECRET_' }), InvalidSecretNameError);
+  assertEquals(
+    validateBackendCredentials({ auth: { type: 'bearer', token: { secret: 'ADMIN_API_KEY' } } }),
+    [
+      'auth.token.secret must be an environment variable name starting with BACKEND_SECRET_',
+    ]
+  );
+});
+
+Deno.test('Backend auth - buildBackendHeaders for bearer, api-key and custom headers', async () => {
+  Deno.env.set('BACKEND_SECRET_AUTH_TEST_TOKEN', 'token-from-env');
+  try {
+    assertEquals(
+      await buildBackendHeaders(
+        createServer({ auth: { type: 'bearer', token: { secret: 'BACKEND_SECRET_AUTH_TEST_TOKEN' } } })
+      ),
+      { Authorization: 'Bearer token-from-env' }
+    );
+  } finally {
+    Deno.env.delete('BACKEND_SECRET_AUTH_TEST_TOKEN');
+  }
+
+  assertEquals(
+    await buildBackendHeaders(createServer({ auth: { type: 'api-key', value: 'k1' } })),
+    { 'X-API-Key': 'k1' }
+  );
+
+  assertEquals(
+    await buildBackendHeaders(
+      createServer({
+        auth: { type: 'api-key', header: 'X-Custom-Key', value: 'k2' },
+        headers: { 'X-Tenant': 'sbb' },
+      })
+    ),
+    { 'X-Tenant': 'sbb', 'X-Custom-Key': 'k2' }
+  );
+
+  assertEquals(await buildBackendHeaders(createServer()), {});
+});
+
+Deno.test('Backend auth - redactServer hides plain values but keeps secret names', () => {
+  const redacted = redactServer(
+    createServer({
+      auth: { type: 'bearer', token: 'plain-token' },
+      headers: { 'X-Plain': 'value', 'X-Ref': { secret: 'BACKEND_SECRET_HEADER' } },
+    })
+  );
+
+  assertEquals(redacted.auth, { type: 'bearer', token: REDACTED });
+  assertEquals(redacted.headers, { 'X-Plain': REDACTED, 'X-Ref': { secret: 'BACKEND_SECRET_HEADER' } });
+});
+
+Deno.test('Backend auth - validateBackendCredentials', () => {
+  assertEquals(validateBackendCredentials({}), []);
+  assertEquals(
+    validateBackendCredentials({ auth: { type: 'bearer', token: { secret: 'BACKEND_SECRET_MY_TOKEN' } } }),
+    []
+  );
+
+  assertEquals(validateBackendCredentials({ auth: { type: 'basic' } }).length, 1);
+  assertEquals(validateBackendCredentials({ auth: { type: 'bearer', token: 42 } }).length, 1);
+  assertEquals(
+    validateBackendCredentials({ auth: { type: 'bearer', token: { secret: 'bad name' } } }).length,
+    1
+  );
+  assertEquals(validateBackendCredentials({ headers: { 'Mcp-Session-Id': 'x' } }).length, 1);
+  assertEquals(validateBackendCredentials({ headers: { 'Bad Header': 'x' } }).length, 1);
+  assertEquals(validateBackendCredentials({ headers: ['x'] }).length, 1);
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Backend auth - sendToBackend injects credentials into backend requests',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    let received: Headers | null = null;
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      received = req.headers;
+      const { id } = await req.json();
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    try {
+      await sendToBackend(
+        createServer({
+          id: `creds-inject-${Date.now()}`,
+          endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          auth: { type: 'bearer', token: 'backend-token' },
+          headers: { 'X-Tenant': 'sbb' },
+        }),
+        'ping'
+      );
+
+      assertExists(received);
+      const headers = received as Headers;
+      assertEquals(headers.get('Authorization'), 'Bearer backend-token');
+      assertEquals(headers.get('X-Tenant'), 'sbb');
+      assertEquals(headers.get('Content-Type'), 'application/json');
+    } finally {
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Backend auth - registered credentials are stored and redacted in listings',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `creds-register-${Date.now()}`;
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Credentials Register Test',
+            endpoint: 'http://localhost:9200/mcp',
+            auth: { type: 'api-key', value: 'plain-api-key' },
+            headers: { 'X-Ref': { secret: 'BACKEND_SECRET_SOME' } },
+          }),
+        })
+      );
+      assertEquals(registerRes.status, 200);
+      await registerRes.body?.cancel();
+
+      const stored = await getServer(serverId);
+      assertEquals(stored?.auth, { type: 'api-key', value: 'plain-api-key' });
+
+      const listRes = await handler(new Request('http://localhost:8000/mcp/servers/register'));
+      const { servers } = await listRes.json();
+      const listed = servers.find((s: BackendServer) => s.id === serverId);
+      assertExists(listed);
+      assertEquals(listed.auth, { type: 'api-key', value: REDACTED });
+      assertEquals(listed.headers, { 'X-Ref': { secret: 'BACKEND_SECRET_SOME' } });
+      assertEquals(JSON.stringify(servers).includes('plain-api-key'), false);
+    } finally {
+      await deleteServer(serverId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Backend auth - register with invalid credentials returns 400',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(
+      new Request('http://localhost:8000/servers/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: `creds-invalid-${Date.now()}`,
+          name: 'Invalid Credentials',
+          endpoint: 'http://localhost:9200/mcp',
+          auth: { type: 'bearer' },
+        }),
+      })
+    );
+    assertEquals(res.status, 400);
+    const body = await res.json();
+    assertEquals(body.error, 'Invalid backend credentials');
+  },
+});
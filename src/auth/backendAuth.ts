@@ -0,0 +1,260 @@
+/**
+ * Backend Credential Injection
+ *
+ * Builds the authentication and custom headers the gateway sends to a backend
+ * server, based on the server's `auth` and `headers` settings.
+ *
+ * Credential values can be given as plain text or as `{ "secret": "NAME" }`,
+ * which reads the value from the environment variable NAME at request time.
+ * Secret references are preferred: they keep credentials out of Deno KV.
+ * Only variables prefixed with BACKEND_SECRET_ can be referenced, so a
+ * registered server cannot read the gateway's own configuration.
+ */
+
+import { logger } from '../logger.ts';
+import type { BackendAuth, BackendServer, SecretValue } from '../types.ts';
+import { getClientCredentialsToken } from './clientCredentials.ts';
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Headers managed by the gateway itself that backend settings may not override
+ */
+const RESERVED_HEADERS = [
+  'accept',
+  'content-type',
+  'content-length',
+  'host',
+  'mcp-session-id',
+  'mcp-protocol-version',
+];
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+export const SECRET_ENV_PREFIX = 'BACKEND_SECRET_';
+const SECRET_NAME_PATTERN = /^BACKEND_SECRET_[A-Za-z0-9_]+$/;
+
+/**
+ * Thrown when a referenced secret is not available
+ */
+export class MissingSecretError extends Error {
+  constructor(public readonly secretName: string) {
+    super(`Secret "${secretName}" is not configured`);
+    this.name = 'MissingSecretError';
+  }
+}
+
+/**
+ * Thrown when a secret reference names a variable outside SECRET_ENV_PREFIX
+ */
+export class InvalidSecretNameError extends Error {
+  constructor(public readonly secretName: string) {
+    super(`Secret "${secretName}" must start with ${SECRET_ENV_PREFIX}`);
+    this.name = 'InvalidSecretNameError';
+  }
+}
+
+/**
+ * Check whether a value is a secret reference
+ */
+export function isSecretRef(value: unknown): value is { secret: string } {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as Record<string, unknown>).secret === 'string'
+  );
+}
+
+/**
+ * Resolve a credential value, reading secret references from the environment
+ */
+export function resolveSecret(value: SecretValue): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!SECRET_NAME_PATTERN.test(value.secret)) {
+    throw new InvalidSecretNameError(value.secret);
+  }
+  const resolved = Deno.env.get(value.secret);
+  if (resolved === undefined) {
+    throw new MissingSecretError(value.secret);
+  }
+  return resolved;
+}
+
+/**
+ * Build the headers to send to a backend server for its auth/headers settings
+ */
+export async function buildBackendHeaders(
+  server: BackendServer
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(server.headers || {})) {
+    headers[name] = resolveSecret(value);
+  }
+
+  const auth = server.auth;
+  if (auth?.type === 'bearer') {
+    headers['Authorization'] = `Bearer ${resolveSecret(auth.token)}`;
+  } else if (auth?.type === 'api-key') {
+    headers[auth.header || DEFAULT_API_KEY_HEADER] = resolveSecret(auth.value);
+  } else if (auth?.type === 'oauth-client-credentials') {
+    headers['Authorization'] = `Bearer ${await getClientCredentialsToken(server.id, auth)}`;
+  }
+
+  return headers;
+}
+
+function redactValue(value: SecretValue): SecretValue {
+  return isSecretRef(value) ? { secret: value.secret } : REDACTED;
+}
+
+/**
+ * Copy of a server with plain-text credential values replaced by a marker.
+ * Secret references are kept, since they only contain the secret's name.
+ */
+export function redactServer<T extends Pick<BackendServer, 'auth' | 'headers'>>(
+  server: T
+): T {
+  const redacted: T = { ...server };
+
+  if (server.headers) {
+    redacted.headers = Object.fromEntries(
+      Object.entries(server.headers).map(([name, value]) => [name, redactValue(value)])
+    );
+  }
+
+  if (server.auth?.type === 'bearer') {
+    redacted.auth = { ...server.auth, token: redactValue(server.auth.token) };
+  } else if (server.auth?.type === 'api-key') {
+    redacted.auth = { ...server.auth, value: redactValue(server.auth.value) };
+  } else if (server.auth?.type === 'oauth-client-credentials') {
+    redacted.auth = { ...server.auth, clientSecret: redactValue(server.auth.clientSecret) };
+  }
+
+  return redacted;
+}
+
+function validateSecretValue(value: unknown, field: string, errors: string[]): void {
+  if (typeof value === 'string') {
+    if (!value) errors.push(`${field} must not be empty`);
+    return;
+  }
+  if (isSecretRef(value)) {
+    if (!SECRET_NAME_PATTERN.test(value.secret)) {
+      errors.push(
+        `${field}.secret must be an environment variable name starting with ${SECRET_ENV_PREFIX}`
+      );
+    }
+    return;
+  }
+  errors.push(`${field} must be a string or { "secret": "NAME" }`);
+}
+
+function validateHeaderName(name: string, field: string, errors: string[]): void {
+  if (!HEADER_NAME_PATTERN.test(name)) {
+    errors.push(`${field} "${name}" is not a valid header name`);
+  } else if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+    errors.push(`${field} "${name}" is managed by the gateway and cannot be set`);
+  }
+}
+
+function validateClientCredentials(auth: Record<string, unknown>, errors: string[]): void {
+  if (typeof auth.tokenUrl !== 'string') {
+    errors.push('auth.tokenUrl is required');
+  } else {
+    try {
+      const url = new URL(auth.tokenUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        errors.push('auth.tokenUrl must be an http(s) URL');
+      }
+    } catch {
+      errors.push('auth.tokenUrl must be a valid URL');
+    }
+  }
+  if (typeof auth.clientId !== 'string' || !auth.clientId) {
+    errors.push('auth.clientId is required');
+  }
+  validateSecretValue(auth.clientSecret, 'auth.clientSecret', errors);
+  for (const field of ['scope', 'audience']) {
+    if (auth[field] !== undefined && typeof auth[field] !== 'string') {
+      errors.push(`auth.${field} must be a string`);
+    }
+  }
+  if (
+    auth.clientAuthMethod !== undefined &&
+    auth.clientAuthMethod !== 'client_secret_basic' &&
+    auth.clientAuthMethod !== 'client_secret_post'
+  ) {
+    errors.push('auth.clientAuthMethod must be client_secret_basic or client_secret_post');
+  }
+}
+
+/**
+ * Validate the auth and headers settings of a server definition
+ */
+export function validateBackendCredentials(server: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (server.headers !== undefined) {
+    if (!server.headers || typeof server.headers !== 'object' || Array.isArray(server.headers)) {
+      errors.push('headers must be an object');
+    } else {
+      for (const [name, value] of Object.entries(server.headers)) {
+        validateHeaderName(name, 'headers', errors);
+        validateSecretValue(value, `headers.${name}`, errors);
+      }
+    }
+  }
+
+  if (server.auth !== undefined) {
+    const auth = server.auth as Record<string, unknown> | null;
+    if (!auth || typeof auth !== 'object') {
+      errors.push('auth must be an object');
+    } else if (auth.type === 'bearer') {
+      validateSecretValue(auth.token, 'auth.token', errors);
+    } else if (auth.type === 'api-key') {
+      if (auth.header !== undefined) {
+        if (typeof auth.header !== 'string') {
+          errors.push('auth.header must be a string');
+        } else {
+          validateHeaderName(auth.header, 'auth.header', errors);
+        }
+      }
+      validateSecretValue(auth.value, 'auth.value', errors);
+    } else if (auth.type === 'oauth-client-credentials') {
+      validateClientCredentials(auth, errors);
+    } else {
+      errors.push('auth.type must be one of: bearer, api-key, oauth-client-credentials');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether a server definition stores any credential in plain text
+ */
+export function hasPlainTextCredentials(
+  server: Pick<BackendServer, 'auth' | 'headers'>
+): boolean {
+  const values: SecretValue[] = Object.values(server.headers || {});
+  const auth: BackendAuth | undefined = server.auth;
+  if (auth?.type === 'bearer') values.push(auth.token);
+  if (auth?.type === 'api-key') values.push(auth.value);
+  if (auth?.type === 'oauth-client-credentials') values.push(auth.clientSecret);
+  return values.some((v) => typeof v === 'string');
+}
+
+/**
+ * Warn when credentials are about to be stored in plain text
+ */
+export function warnOnPlainTextCredentials(server: BackendServer): void {
+  if (hasPlainTextCredentials(server)) {
+    logger.warn('Backend credentials stored in plain text, prefer secret references', {
+      serverId: server.id,
+    });
+  }
+}
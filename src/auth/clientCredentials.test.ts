@@ -0,0 +1,222 @@
+/**
+ * OAuth2 Client Credentials Tests
+ *
+ * Drives token acquisition, caching, refresh and the 401 retry with a local
+ * mock token server and mock backend.
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { sendToBackend } from '../backend.ts';
+import type { BackendServer, OAuthClientCredentialsAuth } from '../types.ts';
+import {
+  clearClientCredentialsTokens,
+  getClientCredentialsToken,
+  TokenRequestError,
+  validateBackendCredentials,
+} from './mod.ts';
+
+// Backends run on localhost
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+interface MockTokenServer {
+  tokenUrl: string;
+  requests: URLSearchParams[];
+  authorizations: (string | null)[];
+  close: () => Promise<void>;
+}
+
+// Start a token endpoint issuing "token-1", "token-2", ... with the given lifetime
+function startTokenServer(expiresIn = 3600, status = 200): MockTokenServer {
+  const requests: URLSearchParams[] = [];
+  const authorizations: (string | null)[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    requests.push(new URLSearchParams(await req.text()));
+    authorizations.push(req.headers.get('Authorization'));
+    if (status !== 200) {
+      return Response.json({ error: 'invalid_client' }, { status });
+    }
+    return Response.json({
+      access_token: `token-${requests.length}`,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+    });
+  });
+
+  return {
+    tokenUrl: `http://localhost:${server.addr.port}/token`,
+    requests,
+    authorizations,
+    close: () => server.shutdown(),
+  };
+}
+
+function clientCredentials(
+  tokenUrl: string,
+  overrides: Partial<OAuthClientCredentialsAuth> = {}
+): OAuthClientCredentialsAuth {
+  return {
+    type: 'oauth-client-credentials',
+    tokenUrl,
+    clientId: 'gateway',
+    clientSecret: 'gateway-secret',
+    scope: 'mcp',
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Token Acquisition
+// =============================================================================
+
+Deno.test({
+  name: 'Client credentials - token is requested once and cached',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const tokenServer = startTokenServer();
+    try {
+      const auth = clientCredentials(tokenServer.tokenUrl);
+      const [a, b] = await Promise.all([
+        getClientCredentialsToken('cc-cache', auth),
+        getClientCredentialsToken('cc-cache', auth),
+      ]);
+      const c = await getClientCredentialsToken('cc-cache', auth);
+
+      assertEquals([a, b, c], ['token-1', 'token-1', 'token-1']);
+      assertEquals(tokenServer.requests.length, 1);
+      assertEquals(tokenServer.requests[0].get('grant_type'), 'client_credentials');
+      assertEquals(tokenServer.requests[0].get('scope'), 'mcp');
+      assertEquals(tokenServer.authorizations[0], `Basic ${btoa('gateway:gateway-secret')}`);
+    } finally {
+      clearClientCredentialsTokens();
+      await tokenServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Client credentials - client_secret_post sends credentials in the body',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const tokenServer = startTokenServer();
+    try {
+      await getClientCredentialsToken(
+        'cc-post',
+        clientCredentials(tokenServer.tokenUrl, { clientAuthMethod: 'client_secret_post' })
+      );
+
+      assertEquals(tokenServer.authorizations[0], null);
+      assertEquals(tokenServer.requests[0].get('client_id'), 'gateway');
+      assertEquals(tokenServer.requests[0].get('client_secret'), 'gateway-secret');
+    } finally {
+      clearClientCredentialsTokens();
+      await tokenServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Client credentials - token is refreshed before it expires',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    // A 1s lifetime puts the refresh point 200ms before expiry
+    const tokenServer = startTokenServer(1);
+    try {
+      const auth = clientCredentials(tokenServer.tokenUrl);
+      assertEquals(await getClientCredentialsToken('cc-refresh', auth), 'token-1');
+
+      await new Promise((resolve) => setTimeout(resolve, 850));
+      assertEquals(await getClientCredentialsToken('cc-refresh', auth), 'token-2');
+      assertEquals(tokenServer.requests.length, 2);
+    } finally {
+      clearClientCredentialsTokens();
+      await tokenServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Client credentials - token endpoint errors are reported',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const tokenServer = startTokenServer(3600, 401);
+    try {
+      const error = await assertRejects(
+        () => getClientCredentialsToken('cc-error', clientCredentials(tokenServer.tokenUrl)),
+        TokenRequestError
+      );
+      assertEquals((error as TokenRequestError).status, 401);
+    } finally {
+      clearClientCredentialsTokens();
+      await tokenServer.close();
+    }
+  },
+});
+
+Deno.test('Client credentials - configuration validation', () => {
+  assertEquals(
+    validateBackendCredentials({
+      auth: clientCredentials('https://auth.example.com/token', {
+        clientSecret: { secret: 'BACKEND_SECRET_CLIENT' },
+      }),
+    }),
+    []
+  );
+  assertEquals(
+    validateBackendCredentials({
+      auth: { type: 'oauth-client-credentials', tokenUrl: 'not a url', clientSecret: 'x' },
+    }).length,
+    2
+  );
+});
+
+// =============================================================================
+// Backend Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Client credentials - sendToBackend retries once with a fresh token on 401',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const tokenServer = startTokenServer();
+    const seenTokens: (string | null)[] = [];
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const authorization = req.headers.get('Authorization');
+      seenTokens.push(authorization);
+      // Reject the first token as if it had been revoked
+      if (authorization === 'Bearer token-1') {
+        await req.body?.cancel();
+        return new Response('Unauthorized', { status: 401 });
+      }
+      const { id } = await req.json();
+      return Response.json({ jsonrpc: '2.0', id, result: { ok: true } });
+    });
+
+    const server: BackendServer = {
+      id: `cc-retry-${Date.now()}`,
+      name: 'Client Credentials Backend',
+      endpoint: `http://localhost:${backend.addr.port}/mcp`,
+      requiresSession: false,
+      auth: clientCredentials(tokenServer.tokenUrl),
+    };
+
+    try {
+      const result = await sendToBackend(server, 'ping');
+
+      assertEquals(result, { ok: true });
+      assertEquals(seenTokens, ['Bearer token-1', 'Bearer token-2']);
+      assertEquals(tokenServer.requests.length, 2);
+    } finally {
+      clearClientCredentialsTokens();
+      await backend.shutdown();
+      await tokenServer.close();
+    }
+  },
+});
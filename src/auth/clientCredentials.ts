@@ -0,0 +1,174 @@
+/**
+ * OAuth2 Client Credentials for Backends
+ *
+ * Obtains access tokens for backend servers configured with
+ * `auth.type = "oauth-client-credentials"` using the client_credentials grant.
+ *
+ * Tokens are cached in memory per server until shortly before they expire,
+ * and concurrent requests share a single in-flight token request. Callers can
+ * invalidate a token (e.g. after the backend answered 401) to force a refresh.
+ */
+
+import { logger } from '../logger.ts';
+import type { OAuthClientCredentialsAuth } from '../types.ts';
+import { resolveSecret } from './backendAuth.ts';
+import { egressFetch } from '../egress/mod.ts';
+
+/**
+ * Lifetime assumed when the token endpoint does not return expires_in
+ */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 300;
+
+/**
+ * Refresh tokens this long before expiry (capped at 20% of the token lifetime)
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const TOKEN_REQUEST_TIMEOUT_MS = 10000;
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  refreshAt: number;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+const inflightRequests = new Map<string, Promise<CachedToken>>();
+
+/**
+ * Thrown when the token endpoint cannot issue a token
+ */
+export class TokenRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'TokenRequestError';
+  }
+}
+
+function cacheKey(serverId: string, auth: OAuthClientCredentialsAuth): string {
+  return [serverId, auth.tokenUrl, auth.clientId, auth.scope ?? '', auth.audience ?? ''].join('|');
+}
+
+/**
+ * Request a new token from the token endpoint
+ */
+async function requestToken(
+  serverId: string,
+  auth: OAuthClientCredentialsAuth
+): Promise<CachedToken> {
+  const clientSecret = resolveSecret(auth.clientSecret);
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (auth.scope) body.set('scope', auth.scope);
+  if (auth.audience) body.set('audience', auth.audience);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (auth.clientAuthMethod === 'client_secret_post') {
+    body.set('client_id', auth.clientId);
+    body.set('client_secret', clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(auth.clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers['Authorization'] = `Basic ${btoa(credentials)}`;
+  }
+
+  const startTime = performance.now();
+  const response = await egressFetch(auth.tokenUrl, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    logger.error('Backend token request failed', {
+      serverId,
+      tokenUrl: auth.tokenUrl,
+      status: response.status,
+    });
+    throw new TokenRequestError(
+      `Token request failed for ${serverId}: ${response.status}`,
+      response.status
+    );
+  }
+
+  const payload = (await response.json()) as Record<string, unknown>;
+  if (typeof payload.access_token !== 'string' || !payload.access_token) {
+    throw new TokenRequestError(`Token response for ${serverId} has no access_token`);
+  }
+
+  const lifetimeMs = (typeof payload.expires_in === 'number' && payload.expires_in > 0
+    ? payload.expires_in
+    : DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000;
+  const now = Date.now();
+
+  logger.info('Backend token acquired', {
+    serverId,
+    expiresInSeconds: Math.round(lifetimeMs / 1000),
+    durationMs: performance.now() - startTime,
+  });
+
+  return {
+    accessToken: payload.access_token,
+    tokenType: typeof payload.token_type === 'string' ? payload.token_type : 'Bearer',
+    expiresAt: now + lifetimeMs,
+    refreshAt: now + lifetimeMs - Math.min(REFRESH_MARGIN_MS, lifetimeMs * 0.2),
+  };
+}
+
+/**
+ * Get an access token for a backend, from cache or the token endpoint
+ */
+export async function getClientCredentialsToken(
+  serverId: string,
+  auth: OAuthClientCredentialsAuth
+): Promise<string> {
+  const key = cacheKey(serverId, auth);
+  const cached = tokenCache.get(key);
+  if (cached && Date.now() < cached.refreshAt) {
+    return cached.accessToken;
+  }
+
+  let inflight = inflightRequests.get(key);
+  if (!inflight) {
+    inflight = requestToken(serverId, auth)
+      .then((token) => {
+        tokenCache.set(key, token);
+        return token;
+      })
+      .finally(() => inflightRequests.delete(key));
+    inflightRequests.set(key, inflight);
+  }
+
+  try {
+    return (await inflight).accessToken;
+  } catch (error) {
+    // Keep using a token that is due for refresh but not yet expired
+    if (cached && Date.now() < cached.expiresAt) {
+      logger.warn('Backend token refresh failed, using cached token', { serverId });
+      return cached.accessToken;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop the cached token of a backend so the next request fetches a new one
+ */
+export function invalidateClientCredentialsToken(
+  serverId: string,
+  auth: OAuthClientCredentialsAuth
+): void {
+  tokenCache.delete(cacheKey(serverId, auth));
+}
+
+/**
+ * Clear all cached backend tokens (for testing)
+ */
+export function clearClientCredentialsTokens(): void {
+  tokenCache.clear();
+}
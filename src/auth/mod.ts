@@ -0,0 +1,55 @@
+/**
+ * Auth Module Exports
+ *
+ * Main entry point for gateway authentication
+ */
+
+export {
+  API_KEY_PREFIX,
+  authenticateAdmin,
+  extractApiKey,
+  generateApiKey,
+  hashApiKey,
+  isAdminAuthEnabled,
+  isAdminRole,
+  issueAdminKey,
+  resolveAdminKey,
+  resolveClientApiKey,
+  toAdminKeyInfo,
+  type AdminAuthResult,
+  type AdminKeyInfo,
+} from './adminAuth.ts';
+
+export {
+  authenticateMcpRequest,
+  buildProtectedResourceMetadata,
+  clearJwksCache,
+  getResourceMetadataUrl,
+  getResourceUrl,
+  handleProtectedResourceMetadata,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  TokenValidationError,
+  verifyAccessToken,
+  type McpAuthResult,
+} from './oauth.ts';
+
+export {
+  buildBackendHeaders,
+  hasPlainTextCredentials,
+  InvalidSecretNameError,
+  isSecretRef,
+  MissingSecretError,
+  REDACTED,
+  redactServer,
+  resolveSecret,
+  SECRET_ENV_PREFIX,
+  validateBackendCredentials,
+  warnOnPlainTextCredentials,
+} from './backendAuth.ts';
+
+export {
+  clearClientCredentialsTokens,
+  getClientCredentialsToken,
+  invalidateClientCredentialsToken,
+  TokenRequestError,
+} from './clientCredentials.ts';
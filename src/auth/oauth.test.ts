@@ -0,0 +1,449 @@
+/**
+ * OAuth Protected Resource Tests
+ *
+ * Uses a local JWKS server and locally signed tokens to test access token
+ * validation and the /mcp challenge flow.
+ */
+
+import {
+  assertEquals,
+  assertExists,
+  assertRejects,
+  assertStringIncludes,
+  assertThrows,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { clearJwksCache, TokenValidationError, verifyAccessToken } from './mod.ts';
+import { ConfigError, getOAuthConfig } from '../config.ts';
+import type { OAuthConfig } from '../types.ts';
+
+const ISSUER = 'https://auth.example.com';
+const RESOURCE = 'https://gateway.example.com/mcp';
+
+interface TestAuthServer {
+  issuer: string;
+  jwksUrl: string;
+  metadataRequests: () => number;
+  sign: (claims: Record<string, unknown>, kid?: string) => Promise<string>;
+  close: () => Promise<void>;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// Start a local JWKS stand-in with a fresh RS256 key pair
+async function startAuthServer(): Promise<TestAuthServer> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  );
+  const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+
+  let metadataRequests = 0;
+  const server = Deno.serve({ port: 0, onListen: () => {} }, (req) => {
+    const url = new URL(req.url);
+    if (url.pathname === '/.well-known/oauth-authorization-server') {
+      metadataRequests++;
+      return Response.json({ jwks_uri: `${url.origin}/jwks` });
+    }
+    return Response.json({ keys: [{ ...publicJwk, kid: 'test-key', alg: 'RS256', use: 'sig' }] });
+  });
+
+  const sign = async (claims: Record<string, unknown>, kid = 'test-key') => {
+    const encoder = new TextEncoder();
+    const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })));
+    const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+    const signature = await crypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      keyPair.privateKey,
+      encoder.encode(`${header}.${payload}`)
+    );
+    return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+  };
+
+  return {
+    issuer: `http://localhost:${server.addr.port}`,
+    jwksUrl: `http://localhost:${server.addr.port}/jwks`,
+    metadataRequests: () => metadataRequests,
+    sign,
+    close: () => server.shutdown(),
+  };
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: ISSUER,
+    aud: RESOURCE,
+    sub: 'user-123',
+    client_id: 'test-client',
+    scope: 'mcp:tools mcp:resources',
+    iat: now,
+    exp: now + 300,
+    ...overrides,
+  };
+}
+
+function testConfig(jwksUrl: string, requiredScopes: string[] = []): OAuthConfig {
+  return { issuer: ISSUER, jwksUrl, audience: RESOURCE, requiredScopes, clockSkewSeconds: 60 };
+}
+
+// Run a test body with OAuth enabled via environment variables
+async function withOAuthEnv(
+  env: Record<string, string>,
+  fn: () => Promise<void>
+): Promise<void> {
+  const originals = new Map(Object.keys(env).map((k) => [k, Deno.env.get(k)]));
+  for (const [key, value] of Object.entries(env)) Deno.env.set(key, value);
+  try {
+    await fn();
+  } finally {
+    for (const [key, value] of originals) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+    clearJwksCache();
+  }
+}
+
+function mcpRequest(token?: string): Request {
+  return new Request('http://localhost:8000/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+  });
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+Deno.test({
+  name: 'OAuth - config requires an audience or resource',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withOAuthEnv({ OAUTH_ISSUER: ISSUER }, () => {
+      assertThrows(() => getOAuthConfig(), ConfigError, 'OAUTH_RESOURCE or OAUTH_AUDIENCE');
+      return Promise.resolve();
+    });
+
+    await withOAuthEnv({ OAUTH_ISSUER: ISSUER, OAUTH_RESOURCE: RESOURCE }, () => {
+      assertEquals(getOAuthConfig()?.audience, RESOURCE);
+      return Promise.resolve();
+    });
+  },
+});
+
+// =============================================================================
+// Token Validation
+// =============================================================================
+
+Deno.test({
+  name: 'OAuth - verifyAccessToken accepts a valid token',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      const token = await authServer.sign(validClaims());
+      const auth = await verifyAccessToken(token, testConfig(authServer.jwksUrl), RESOURCE);
+
+      assertEquals(auth.subject, 'user-123');
+      assertEquals(auth.clientId, 'test-client');
+      assertEquals(auth.scopes, ['mcp:tools', 'mcp:resources']);
+    } finally {
+      clearJwksCache();
+      await authServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'OAuth - discovered JWKS URL is cached',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      const config = { ...testConfig(''), issuer: authServer.issuer, jwksUrl: undefined };
+      for (let i = 0; i < 3; i++) {
+        const token = await authServer.sign(validClaims({ iss: authServer.issuer }));
+        await verifyAccessToken(token, config, RESOURCE);
+      }
+      assertEquals(authServer.metadataRequests(), 1);
+    } finally {
+      clearJwksCache();
+      await authServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'OAuth - verifyAccessToken rejects invalid tokens',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    const config = testConfig(authServer.jwksUrl);
+    const now = Math.floor(Date.now() / 1000);
+
+    try {
+      const cases: Array<[Record<string, unknown>, string]> = [
+        [validClaims({ iss: 'https://evil.example.com' }), 'issuer'],
+        [validClaims({ aud: 'https://other.example.com/mcp' }), 'audience'],
+        [validClaims({ exp: now - 3600 }), 'expired'],
+        [validClaims({ nbf: now + 3600 }), 'not yet valid'],
+      ];
+      for (const [claims, message] of cases) {
+        const token = await authServer.sign(claims);
+        await assertRejects(
+          () => verifyAccessToken(token, config, RESOURCE),
+          TokenValidationError,
+          message
+        );
+      }
+
+      // Tampered payload
+      const token = await authServer.sign(validClaims());
+      const [header, , signature] = token.split('.');
+      const forged = base64UrlEncode(
+        new TextEncoder().encode(JSON.stringify(validClaims({ sub: 'admin' })))
+      );
+      await assertRejects(
+        () => verifyAccessToken(`${header}.${forged}.${signature}`, config, RESOURCE),
+        TokenValidationError,
+        'signature'
+      );
+
+      // Unknown key ID
+      const unknownKid = await authServer.sign(validClaims(), 'other-key');
+      await assertRejects(
+        () => verifyAccessToken(unknownKid, config, RESOURCE),
+        TokenValidationError,
+        'signing key'
+      );
+    } finally {
+      clearJwksCache();
+      await authServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'OAuth - verifyAccessToken enforces required scopes',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      const token = await authServer.sign(validClaims({ scope: 'mcp:resources' }));
+      const error = await assertRejects(
+        () => verifyAccessToken(token, testConfig(authServer.jwksUrl, ['mcp:tools']), RESOURCE),
+        TokenValidationError
+      );
+      assertEquals((error as TokenValidationError).code, 'insufficient_scope');
+    } finally {
+      clearJwksCache();
+      await authServer.close();
+    }
+  },
+});
+
+// =============================================================================
+// MCP Endpoint Integration
+// =============================================================================
+
+Deno.test('OAuth - metadata endpoint returns 404 when OAuth is disabled', async () => {
+  const res = await handler(
+    new Request('http://localhost:8000/.well-known/oauth-protected-resource')
+  );
+  assertEquals(res.status, 404);
+  await res.body?.cancel();
+});
+
+Deno.test({
+  name: 'OAuth - protected resource metadata document',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withOAuthEnv(
+      { OAUTH_ISSUER: ISSUER, OAUTH_RESOURCE: RESOURCE, OAUTH_REQUIRED_SCOPES: 'mcp:tools' },
+      async () => {
+        const res = await handler(
+          new Request('http://localhost:8000/.well-known/oauth-protected-resource/mcp')
+        );
+        assertEquals(res.status, 200);
+
+        const metadata = await res.json();
+        assertEquals(metadata.resource, RESOURCE);
+        assertEquals(metadata.authorization_servers, [ISSUER]);
+        assertEquals(metadata.scopes_supported, ['mcp:tools']);
+        assertEquals(metadata.bearer_methods_supported, ['header']);
+      }
+    );
+  },
+});
+
+Deno.test({
+  name: 'OAuth - /mcp without token returns 401 with resource metadata challenge',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withOAuthEnv({ OAUTH_ISSUER: ISSUER, OAUTH_RESOURCE: RESOURCE }, async () => {
+      const res = await handler(mcpRequest());
+      assertEquals(res.status, 401);
+
+      const challenge = res.headers.get('WWW-Authenticate');
+      assertExists(challenge);
+      assertStringIncludes(
+        challenge,
+        'resource_metadata="https://gateway.example.com/.well-known/oauth-protected-resource/mcp"'
+      );
+      await res.body?.cancel();
+    });
+  },
+});
+
+Deno.test({
+  name: 'OAuth - REST, /sse and /message routes require a token as well',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await withOAuthEnv({ OAUTH_ISSUER: ISSUER, OAUTH_RESOURCE: RESOURCE }, async () => {
+      const requests = [
+        new Request('http://localhost:8000/mcp/tools/list'),
+        new Request('http://localhost:8000/tools/call', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'any__tool', arguments: {} }),
+        }),
+        new Request('http://localhost:8000/mcp/resources/read', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ uri: 'any://resource' }),
+        }),
+        new Request('http://localhost:8000/mcp/prompts/get', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'any__prompt' }),
+        }),
+        new Request('http://localhost:8000/sse'),
+        new Request('http://localhost:8000/message?sessionId=unknown', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+        }),
+      ];
+
+      for (const req of requests) {
+        const res = await handler(req);
+        assertEquals(res.status, 401, `${req.method} ${req.url}`);
+        assertExists(res.headers.get('WWW-Authenticate'));
+        await res.body?.cancel();
+      }
+    });
+  },
+});
+
+Deno.test({
+  name: 'OAuth - /mcp with valid token is served, invalid token is rejected',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      await withOAuthEnv(
+        { OAUTH_ISSUER: ISSUER, OAUTH_RESOURCE: RESOURCE, OAUTH_JWKS_URL: authServer.jwksUrl },
+        async () => {
+          const okRes = await handler(mcpRequest(await authServer.sign(validClaims())));
+          assertEquals(okRes.status, 200);
+          const data = await okRes.json();
+          assertExists(data.result);
+
+          const badRes = await handler(
+            mcpRequest(await authServer.sign(validClaims({ aud: 'https://other.example.com' })))
+          );
+          assertEquals(badRes.status, 401);
+          assertStringIncludes(
+            badRes.headers.get('WWW-Authenticate') || '',
+            'error="invalid_token"'
+          );
+          await badRes.body?.cancel();
+        }
+      );
+    } finally {
+      await authServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'OAuth - audience is never taken from the request Host',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      await withOAuthEnv(
+        { OAUTH_ISSUER: ISSUER, OAUTH_AUDIENCE: RESOURCE, OAUTH_JWKS_URL: authServer.jwksUrl },
+        async () => {
+          const token = await authServer.sign(validClaims({ aud: 'http://evil.example.com/mcp' }));
+          const res = await handler(
+            new Request('http://evil.example.com/mcp', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+              body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+            })
+          );
+          assertEquals(res.status, 401);
+          await res.body?.cancel();
+        }
+      );
+    } finally {
+      await authServer.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'OAuth - /mcp with insufficient scope returns 403',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const authServer = await startAuthServer();
+    try {
+      await withOAuthEnv(
+        {
+          OAUTH_ISSUER: ISSUER,
+          OAUTH_RESOURCE: RESOURCE,
+          OAUTH_JWKS_URL: authServer.jwksUrl,
+          OAUTH_REQUIRED_SCOPES: 'mcp:admin',
+        },
+        async () => {
+          const res = await handler(mcpRequest(await authServer.sign(validClaims())));
+          assertEquals(res.status, 403);
+          const challenge = res.headers.get('WWW-Authenticate') || '';
+          assertStringIncludes(challenge, 'error="insufficient_scope"');
+          assertStringIncludes(challenge, 'scope="mcp:admin"');
+          await res.body?.cancel();
+        }
+      );
+    } finally {
+      await authServer.close();
+    }
+  },
+});
@@ -0,0 +1,455 @@
+/**
+ * OAuth 2.1 Protected Resource Support
+ *
+ * Lets the gateway act as an OAuth resource server for the MCP endpoint, as
+ * described in the MCP authorization spec:
+ * - Serves protected resource metadata (RFC 9728) at
+ *   /.well-known/oauth-protected-resource
+ * - Validates JWT access tokens against the issuer's JWKS (signature, iss,
+ *   aud, exp/nbf and required scopes)
+ * - Answers missing/invalid tokens with a WWW-Authenticate challenge that
+ *   points clients at the metadata document
+ *
+ * Enabled by setting OAUTH_ISSUER (see getOAuthConfig in config.ts).
+ */
+
+import { SERVER_INFO, corsHeaders, getOAuthConfig } from '../config.ts';
+import { logger } from '../logger.ts';
+import type { AuthInfo, OAuthConfig } from '../types.ts';
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Thrown when an access token is missing, malformed, expired or lacks scopes
+ */
+export class TokenValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'invalid_token' | 'insufficient_scope' = 'invalid_token'
+  ) {
+    super(message);
+    this.name = 'TokenValidationError';
+  }
+}
+
+export interface McpAuthResult {
+  auth: AuthInfo | null;
+  error: Response | null;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+interface JwksCacheEntry {
+  keys: Jwk[];
+  fetchedAt: number;
+}
+
+interface DiscoveryCacheEntry {
+  jwksUrl: string;
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+const discoveryCache = new Map<string, DiscoveryCacheEntry>();
+
+/**
+ * WebCrypto parameters for the supported JWS algorithms
+ */
+const ALGORITHMS: Record<
+  string,
+  {
+    importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+    verifyParams: Algorithm | RsaPssParams | EcdsaParams;
+  }
+> = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS384: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS512: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  PS256: {
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 32 } as RsaPssParams,
+  },
+  PS384: {
+    importParams: { name: 'RSA-PSS', hash: 'SHA-384' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 48 } as RsaPssParams,
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' } as EcdsaParams,
+  },
+  ES384: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' } as EcdsaParams,
+  },
+  EdDSA: {
+    importParams: { name: 'Ed25519' },
+    verifyParams: { name: 'Ed25519' },
+  },
+};
+
+/**
+ * Clear cached JWKS documents and discovered JWKS URLs (for testing and key rotation)
+ */
+export function clearJwksCache(): void {
+  jwksCache.clear();
+  discoveryCache.clear();
+}
+
+/**
+ * Canonical resource URL of the MCP endpoint
+ */
+export function getResourceUrl(req: Request, config: OAuthConfig): string {
+  return config.resource || `${new URL(req.url).origin}/mcp`;
+}
+
+/**
+ * URL of the protected resource metadata document for this resource
+ */
+export function getResourceMetadataUrl(req: Request, config: OAuthConfig): string {
+  const resource = new URL(getResourceUrl(req, config));
+  const suffix = resource.pathname === '/' ? '' : resource.pathname;
+  return `${resource.origin}${PROTECTED_RESOURCE_METADATA_PATH}${suffix}`;
+}
+
+/**
+ * Build the RFC 9728 protected resource metadata document
+ */
+export function buildProtectedResourceMetadata(
+  req: Request,
+  config: OAuthConfig
+): Record<string, unknown> {
+  return {
+    resource: getResourceUrl(req, config),
+    authorization_servers: [config.issuer],
+    bearer_methods_supported: ['header'],
+    resource_name: SERVER_INFO.name,
+    ...(config.requiredScopes.length > 0 && {
+      scopes_supported: config.requiredScopes,
+    }),
+  };
+}
+
+/**
+ * Decode a base64url string to bytes
+ */
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> {
+  try {
+    const json = new TextDecoder().decode(base64UrlDecode(segment));
+    const value = JSON.parse(json);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('not an object');
+    }
+    return value as Record<string, unknown>;
+  } catch {
+    throw new TokenValidationError('Malformed token');
+  }
+}
+
+/**
+ * Resolve the JWKS URL, discovering it from the issuer metadata if needed.
+ * Discovered URLs are cached as long as the JWKS itself.
+ */
+async function resolveJwksUrl(config: OAuthConfig): Promise<string> {
+  if (config.jwksUrl) {
+    return config.jwksUrl;
+  }
+
+  const issuer = config.issuer.replace(/\/$/, '');
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+    return cached.jwksUrl;
+  }
+
+  const candidates = [
+    `${issuer}/.well-known/oauth-authorization-server`,
+    `${issuer}/.well-known/openid-configuration`,
+  ];
+
+  for (const url of candidates) {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        await response.body?.cancel();
+        continue;
+      }
+      const metadata = (await response.json()) as Record<string, unknown>;
+      if (typeof metadata.jwks_uri === 'string') {
+        discoveryCache.set(issuer, { jwksUrl: metadata.jwks_uri, fetchedAt: Date.now() });
+        return metadata.jwks_uri;
+      }
+    } catch (error) {
+      logger.warn('Authorization server metadata discovery failed', {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw new TokenValidationError('Unable to discover JWKS for issuer');
+}
+
+/**
+ * Fetch (or return cached) signing keys
+ */
+async function getJwks(config: OAuthConfig, forceRefresh = false): Promise<Jwk[]> {
+  const jwksUrl = await resolveJwksUrl(config);
+  const cached = jwksCache.get(jwksUrl);
+  const now = Date.now();
+
+  if (cached) {
+    const age = now - cached.fetchedAt;
+    if (age < JWKS_CACHE_TTL_MS && (!forceRefresh || age < JWKS_MIN_REFRESH_INTERVAL_MS)) {
+      return cached.keys;
+    }
+  }
+
+  const response = await fetch(jwksUrl, { signal: AbortSignal.timeout(5000) });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new TokenValidationError(`Failed to fetch JWKS: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { keys?: Jwk[] };
+  const keys = Array.isArray(body.keys) ? body.keys : [];
+  jwksCache.set(jwksUrl, { keys, fetchedAt: now });
+  logger.debug('JWKS fetched', { jwksUrl, keyCount: keys.length });
+  return keys;
+}
+
+/**
+ * Find the JWK matching the token header, refreshing the JWKS once on a miss
+ */
+async function findSigningKey(
+  config: OAuthConfig,
+  kid: string | undefined,
+  alg: string
+): Promise<Jwk> {
+  const match = (keys: Jwk[]) =>
+    keys.find(
+      (k) =>
+        (kid === undefined || k.kid === kid) &&
+        (k.alg === undefined || k.alg === alg) &&
+        (k.use === undefined || k.use === 'sig')
+    );
+
+  const key = match(await getJwks(config)) || match(await getJwks(config, true));
+  if (!key) {
+    throw new TokenValidationError('No matching signing key');
+  }
+  return key;
+}
+
+/**
+ * Extract scopes from the "scope" (space separated) or "scp" (array) claim
+ */
+function extractScopes(claims: Record<string, unknown>): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(claims.scp)) {
+    return claims.scp.filter((s): s is string => typeof s === 'string');
+  }
+  return [];
+}
+
+/**
+ * Verify a JWT access token and return the authenticated caller
+ */
+export async function verifyAccessToken(
+  token: string,
+  config: OAuthConfig,
+  expectedAudience: string
+): Promise<AuthInfo> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenValidationError('Malformed token');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  const header = decodeJsonSegment(headerSegment);
+  const alg = header.alg as string;
+  const algorithm = ALGORITHMS[alg];
+  if (!algorithm) {
+    throw new TokenValidationError(`Unsupported token algorithm: ${String(alg)}`);
+  }
+
+  const jwk = await findSigningKey(config, header.kid as string | undefined, alg);
+
+  let verified = false;
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      algorithm.importParams,
+      false,
+      ['verify']
+    );
+    verified = await crypto.subtle.verify(
+      algorithm.verifyParams,
+      key,
+      base64UrlDecode(signatureSegment),
+      new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+    );
+  } catch (error) {
+    logger.warn('Token signature verification error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (!verified) {
+    throw new TokenValidationError('Invalid token signature');
+  }
+
+  const claims = decodeJsonSegment(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== config.issuer) {
+    throw new TokenValidationError('Token issuer mismatch');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expectedAudience)) {
+    throw new TokenValidationError('Token audience mismatch');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp + config.clockSkewSeconds < now) {
+    throw new TokenValidationError('Token expired');
+  }
+
+  if (typeof claims.nbf === 'number' && claims.nbf - config.clockSkewSeconds > now) {
+    throw new TokenValidationError('Token not yet valid');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new TokenValidationError('Token has no subject');
+  }
+
+  const scopes = extractScopes(claims);
+  const missing = config.requiredScopes.filter((s) => !scopes.includes(s));
+  if (missing.length > 0) {
+    throw new TokenValidationError(
+      `Missing required scopes: ${missing.join(' ')}`,
+      'insufficient_scope'
+    );
+  }
+
+  return {
+    subject: claims.sub,
+    issuer: claims.iss as string,
+    clientId: (claims.client_id ?? claims.azp) as string | undefined,
+    scopes,
+    expiresAt: claims.exp,
+    claims,
+  };
+}
+
+/**
+ * Build a 401/403 response carrying a Bearer challenge
+ */
+function challengeResponse(
+  req: Request,
+  config: OAuthConfig,
+  error?: TokenValidationError
+): Response {
+  const params = [`resource_metadata="${getResourceMetadataUrl(req, config)}"`];
+  if (error) {
+    params.push(`error="${error.code}"`);
+    params.push(`error_description="${error.message.replace(/"/g, "'")}"`);
+    if (error.code === 'insufficient_scope') {
+      params.push(`scope="${config.requiredScopes.join(' ')}"`);
+    }
+  }
+
+  const status = error?.code === 'insufficient_scope' ? 403 : 401;
+  return new Response(
+    JSON.stringify({
+      error: error?.code ?? 'unauthorized',
+      error_description: error?.message ?? 'Bearer token required',
+    }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'WWW-Authenticate': `Bearer ${params.join(', ')}`,
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+/**
+ * Authenticate a request to the MCP endpoint.
+ * When OAuth is not configured every request is let through without auth info.
+ */
+export async function authenticateMcpRequest(req: Request): Promise<McpAuthResult> {
+  const config = getOAuthConfig();
+  if (!config) {
+    return { auth: null, error: null };
+  }
+
+  const authorization = req.headers.get('Authorization') || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    logger.debug('MCP request without bearer token', { path: new URL(req.url).pathname });
+    return { auth: null, error: challengeResponse(req, config) };
+  }
+
+  try {
+    const auth = await verifyAccessToken(match[1].trim(), config, config.audience);
+    return { auth, error: null };
+  } catch (error) {
+    const tokenError = error instanceof TokenValidationError
+      ? error
+      : new TokenValidationError('Token validation failed');
+    logger.warn('MCP access token rejected', {
+      code: tokenError.code,
+      reason: tokenError.message,
+    });
+    return { auth: null, error: challengeResponse(req, config, tokenError) };
+  }
+}
+
+/**
+ * Handle GET /.well-known/oauth-protected-resource[/path]
+ */
+export function handleProtectedResourceMetadata(req: Request): Response {
+  const config = getOAuthConfig();
+  if (!config) {
+    return new Response(JSON.stringify({ error: 'Not Found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+
+  return new Response(JSON.stringify(buildProtectedResourceMetadata(req, config)), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'max-age=3600',
+      ...corsHeaders,
+    },
+  });
+}
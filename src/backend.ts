@@ -5,48 +5,335 @@
 
 import { CircuitBreakerRegistry, CircuitState } from './circuitbreaker/mod.ts';
 import type { BackendServer, ServerHealth } from './types.ts';
-import { metrics } from './session.ts';
+import { metrics, RequestCancelledError } from './session.ts';
 import { logger } from './logger.ts';
+import {
+  buildBackendHeaders,
+  invalidateClientCredentialsToken,
+} from './auth/mod.ts';
+import { egressFetch } from './egress/mod.ts';
+import { cacheToolSchemas } from './validation/toolSchemas.ts';
+import { SERVER_INFO } from './config.ts';
+import { jsonRpcError, JsonRpcErrorCode, jsonRpcNotification } from './jsonrpc.ts';
+import { SseParser, type SseEvent } from './streams/sseParser.ts';
 
 export type { ServerHealth };
 
+/**
+ * Thrown when a backend answers with a non-2xx HTTP status
+ */
+export class BackendHttpError extends Error {
+  constructor(public readonly status: number) {
+    super(`Request failed: ${status}`);
+    this.name = 'BackendHttpError';
+  }
+}
+
+/**
+ * JSON-RPC error returned by a backend
+ */
+export class BackendRpcError extends Error {
+  constructor(public readonly code: number | undefined, message: string | undefined) {
+    super(message);
+    this.name = 'BackendRpcError';
+  }
+}
+
+/**
+ * Options for a backend call made on behalf of a client
+ */
+export interface BackendCallOptions {
+  clientSessionId?: string; // Gateway MCP session the call belongs to
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  onMessage?: BackendMessageHandler; // Messages the backend streams before its response
+  progressToken?: string; // Sent as `_meta.progressToken` with tools/call
+}
+
+/**
+ * Receives notifications and requests a backend sends on a response or GET
+ * stream. For requests it returns the response to send back, if it has one.
+ */
+export type BackendMessageHandler = (
+  message: Record<string, unknown>,
+  server: BackendServer
+) => Promise<Record<string, unknown>> | void;
+
+/**
+ * Per-request options of sendJsonRpcRequest
+ */
+export interface JsonRpcRequestOptions {
+  signal?: AbortSignal;
+  // Returns a promise while it handles a backend request, e.g. waits for the client
+  onMessage?: (message: Record<string, unknown>) => Promise<unknown> | void;
+}
+
+/**
+ * Timeout of a request to a backend, as controlled while reading the response
+ */
+interface RequestTimer {
+  extend(): void; // Restart the timeout
+  hold(): () => void; // Stop it until the returned function is called
+}
+
+/**
+ * A backend session, keyed by the gateway session that opened it
+ */
+interface BackendSession {
+  server: BackendServer;
+  sessionId: Promise<string | null>; // Pending until the handshake completes
+}
+
+/** Key for calls made outside a client session (stateless requests, health checks) */
+const SHARED_SESSION_KEY = '';
+const SESSION_INIT_TIMEOUT_MS = 10000;
+const SESSION_CLOSE_TIMEOUT_MS = 5000;
+const CANCEL_TIMEOUT_MS = 5000;
+const REPLY_TIMEOUT_MS = 10000;
+/** Backends whose capabilities could not be read are asked again after this long */
+const CAPABILITY_RETRY_MS = 60 * 1000;
+/** Upper bound for requests whose timeout is restarted by progress notifications */
+const MAX_REQUEST_DURATION_MS = 10 * 60 * 1000;
+
+/** Result of a backend call that was cancelled, kept out of the circuit breaker */
+const CANCELLED = Symbol('cancelled');
+/** Result of a call to a method the backend does not implement, likewise */
+const UNSUPPORTED = Symbol('unsupported');
+
 let requestIdCounter = 1;
-const backendSessions = new Map<string, string>();
+// Client session ID -> server ID -> backend session
+const backendSessions = new Map<string, Map<string, BackendSession>>();
+// Server ID -> capabilities the backend announced in its initialize result
+const backendCapabilities = new Map<string, Record<string, unknown>>();
+// Server ID -> pending handshake of a backend without sessions, run to learn its capabilities
+const capabilityProbes = new Map<string, Promise<unknown>>();
+// Server ID -> time after which a backend whose handshake failed is probed again
+const capabilityRetries = new Map<string, number>();
 export const circuitBreakerRegistry = new CircuitBreakerRegistry();
 
 /**
- * Get or create a session for a backend server
+ * Get or create the session a client uses on a backend server. The
+ * initialize handshake runs on first use; concurrent calls share it.
  */
 export async function getBackendSession(
-  server: BackendServer
+  server: BackendServer,
+  clientSessionId = SHARED_SESSION_KEY
 ): Promise<string | null> {
   if (!server.requiresSession) {
     return null;
   }
 
-  const existingSession = backendSessions.get(server.id);
+  let servers = backendSessions.get(clientSessionId);
+  if (!servers) {
+    servers = new Map();
+    backendSessions.set(clientSessionId, servers);
+  }
+
+  const existingSession = servers.get(server.id);
   if (existingSession) {
-    return existingSession;
+    return await existingSession.sessionId;
   }
 
-  // Sessions must be initialized externally
-  return null;
+  const session: BackendSession = { server, sessionId: initializeBackendSession(server) };
+  servers.set(server.id, session);
+  try {
+    return await session.sessionId;
+  } catch (error) {
+    // Let the next call retry the handshake
+    if (servers.get(server.id) === session) servers.delete(server.id);
+    throw error;
+  }
 }
 
 /**
- * Send JSON-RPC request to a backend server
+ * Run the MCP initialize handshake and return the session ID the backend
+ * assigned, or null if it did not assign one
  */
-export async function sendJsonRpcRequest(
+async function initializeBackendSession(server: BackendServer): Promise<string | null> {
+  const extraHeaders = await buildBackendHeaders(server);
+  const { result, sessionId } = await postJsonRpc(
+    server.endpoint,
+    {
+      jsonrpc: '2.0',
+      method: 'initialize',
+      params: {
+        protocolVersion: SERVER_INFO.protocolVersion,
+        capabilities: {},
+        clientInfo: { name: SERVER_INFO.name, version: SERVER_INFO.version },
+      },
+      id: requestIdCounter++,
+    },
+    SESSION_INIT_TIMEOUT_MS,
+    null,
+    extraHeaders,
+    async (response) => ({
+      result: (await readJsonRpcResponse(response)) as
+        | { protocolVersion?: string; capabilities?: Record<string, unknown> }
+        | undefined,
+      sessionId: response.headers.get('Mcp-Session-Id'),
+    })
+  );
+
+  await postJsonRpc(
+    server.endpoint,
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    SESSION_INIT_TIMEOUT_MS,
+    sessionId,
+    extraHeaders,
+    discardBody
+  );
+
+  backendCapabilities.set(server.id, result?.capabilities ?? {});
+  logger.info('Backend session initialized', {
+    serverId: server.id,
+    protocolVersion: result?.protocolVersion,
+    hasSessionId: !!sessionId,
+  });
+  return sessionId;
+}
+
+/**
+ * Get the capabilities a backend announced, running the initialize
+ * handshake first if it has not been run yet. Unreachable backends have none
+ * and are not asked again for CAPABILITY_RETRY_MS.
+ */
+export async function getBackendCapabilities(
+  server: BackendServer
+): Promise<Record<string, unknown>> {
+  if ((capabilityRetries.get(server.id) ?? 0) > Date.now()) {
+    return {};
+  }
+  try {
+    if (server.requiresSession) {
+      await getBackendSession(server);
+    } else if (!backendCapabilities.has(server.id)) {
+      let probe = capabilityProbes.get(server.id);
+      if (!probe) {
+        // A session the backend opened anyway is of no further use
+        probe = initializeBackendSession(server)
+          .then((sessionId) => sessionId ? closeBackendSession(server, sessionId) : undefined)
+          .finally(() => capabilityProbes.delete(server.id));
+        capabilityProbes.set(server.id, probe);
+      }
+      await probe;
+    }
+    capabilityRetries.delete(server.id);
+  } catch (error) {
+    capabilityRetries.set(server.id, Date.now() + CAPABILITY_RETRY_MS);
+    logger.debug('Failed to get backend capabilities', {
+      serverId: server.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return backendCapabilities.get(server.id) ?? {};
+}
+
+/**
+ * Forget the capabilities of a server whose configuration changed
+ */
+export function clearBackendCapabilities(serverId: string): void {
+  backendCapabilities.delete(serverId);
+  capabilityRetries.delete(serverId);
+}
+
+/**
+ * Forget a backend session the backend no longer knows, so the next call
+ * initializes a new one. A session that was replaced in the meantime is kept.
+ */
+export async function dropBackendSession(
+  serverId: string,
+  sessionId: string,
+  clientSessionId = SHARED_SESSION_KEY
+): Promise<void> {
+  const servers = backendSessions.get(clientSessionId);
+  const session = servers?.get(serverId);
+  if (!session) return;
+  const currentId = await session.sessionId.catch(() => null);
+  if (currentId === sessionId && servers!.get(serverId) === session) {
+    servers!.delete(serverId);
+  }
+}
+
+/**
+ * Terminate the backend sessions opened for a client session
+ */
+export async function closeBackendSessions(clientSessionId: string): Promise<void> {
+  const servers = backendSessions.get(clientSessionId);
+  if (!servers) return;
+  backendSessions.delete(clientSessionId);
+
+  await Promise.all(
+    Array.from(servers.values()).map(async ({ server, sessionId: pending }) => {
+      const sessionId = await pending.catch(() => null);
+      if (sessionId) await closeBackendSession(server, sessionId);
+    })
+  );
+}
+
+/**
+ * Send DELETE for a backend session. Failures are only logged.
+ */
+async function closeBackendSession(server: BackendServer, sessionId: string): Promise<void> {
+  try {
+    const response = await egressFetch(server.endpoint, {
+      method: 'DELETE',
+      headers: { ...(await buildBackendHeaders(server)), 'Mcp-Session-Id': sessionId },
+      signal: AbortSignal.timeout(SESSION_CLOSE_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    // 405 means the backend does not let clients end sessions
+    logger.debug('Backend session closed', { serverId: server.id, status: response.status });
+  } catch (error) {
+    logger.warn('Failed to close backend session', {
+      serverId: server.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * POST a JSON-RPC message to a backend. The timeout covers reading the
+ * response with `read`, which may restart it while the backend reports
+ * progress (up to MAX_REQUEST_DURATION_MS in total) and hold it while the
+ * backend waits for the answer to a request of its own.
+ */
+async function postJsonRpc<T>(
   endpoint: string,
-  method: string,
-  params: Record<string, unknown> = {},
-  timeoutMs = 30000,
-  sessionId?: string | null
-): Promise<unknown> {
+  message: Record<string, unknown>,
+  timeoutMs: number,
+  sessionId: string | null | undefined,
+  extraHeaders: Record<string, string>,
+  read: (response: Response, timer: RequestTimer) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const deadline = Date.now() + Math.max(timeoutMs, MAX_REQUEST_DURATION_MS);
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let holds = 0;
+  let finished = false;
+  const startTimeout = () => {
+    clearTimeout(timeout);
+    if (finished || holds > 0) return;
+    const remainingMs = Math.min(timeoutMs, deadline - Date.now());
+    timeout = setTimeout(() => controller.abort(), Math.max(remainingMs, 0));
+  };
+  const timer: RequestTimer = {
+    extend: startTimeout,
+    hold: () => {
+      holds++;
+      clearTimeout(timeout);
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        holds--;
+        startTimeout();
+      };
+    },
+  };
+  startTimeout();
 
   const headers: Record<string, string> = {
+    ...extraHeaders,
     'Content-Type': 'application/json',
     Accept: 'application/json, text/event-stream',
   };
@@ -56,42 +343,212 @@ export async function sendJsonRpcRequest(
   }
 
   try {
-    const response = await fetch(endpoint, {
+    // Re-checked at request time: DNS answers may have changed since registration
+    const response = await egressFetch(endpoint, {
       method: 'POST',
       headers,
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method,
-        params,
-        id: requestIdCounter++,
-      }),
-      signal: controller.signal,
+      body: JSON.stringify(message),
+      signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
     });
 
     if (!response.ok) {
-      throw new Error(`Request failed: ${response.status}`);
+      await response.body?.cancel();
+      throw new BackendHttpError(response.status);
     }
 
-    const text = await response.text();
+    return await read(response, timer);
+  } finally {
+    finished = true;
+    clearTimeout(timeout);
+  }
+}
 
-    // Parse SSE or plain JSON response
-    if (text.startsWith('event:') || text.startsWith('data:')) {
-      const lines = text.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const jsonRpc = JSON.parse(line.substring(6));
-          if (jsonRpc.error) throw new Error(jsonRpc.error.message);
-          return jsonRpc.result;
-        }
+async function discardBody(response: Response): Promise<void> {
+  await response.body?.cancel();
+}
+
+/**
+ * Read the result from a plain JSON or SSE response. SSE responses are read
+ * event by event: messages the backend sends before the response (progress,
+ * logging, requests) are passed to `onMessage`.
+ */
+async function readJsonRpcResponse(
+  response: Response,
+  onMessage?: (message: Record<string, unknown>) => void
+): Promise<unknown> {
+  if ((response.headers.get('Content-Type') ?? '').includes('text/event-stream') && response.body) {
+    return await readSseResponse(response.body.pipeThrough(new TextDecoderStream()), onMessage);
+  }
+
+  const text = await response.text();
+  // Some backends send SSE without the matching content type
+  if (text.startsWith('event:') || text.startsWith('data:')) {
+    return await readSseResponse([text], onMessage);
+  }
+  return unwrapJsonRpcResponse(JSON.parse(text));
+}
+
+async function readSseResponse(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  onMessage?: (message: Record<string, unknown>) => void
+): Promise<unknown> {
+  const parser = new SseParser();
+  // Returns the response among the events, handing everything before it on
+  const findResponse = (events: SseEvent[]) => {
+    for (const event of events) {
+      if (!event.data) continue; // Events that only carry an ID
+      const message = JSON.parse(event.data) as Record<string, unknown>;
+      if (typeof message.method === 'string') {
+        onMessage?.(message);
+      } else {
+        return message;
       }
-      throw new Error('No data in SSE response');
     }
+    return undefined;
+  };
 
-    const jsonRpc = JSON.parse(text);
-    if (jsonRpc.error) throw new Error(jsonRpc.error.message);
-    return jsonRpc.result;
+  for await (const chunk of chunks) {
+    const message = findResponse(parser.push(chunk));
+    if (message) return unwrapJsonRpcResponse(message);
+  }
+  const message = findResponse(parser.end());
+  if (message) return unwrapJsonRpcResponse(message);
+  throw new Error('No data in SSE response');
+}
+
+function unwrapJsonRpcResponse(jsonRpc: Record<string, unknown>): unknown {
+  const error = jsonRpc.error as { code?: number; message?: string } | undefined;
+  if (error) throw new BackendRpcError(error.code, error.message);
+  return jsonRpc.result;
+}
+
+/**
+ * Send JSON-RPC request to a backend server
+ */
+export async function sendJsonRpcRequest(
+  endpoint: string,
+  method: string,
+  params: Record<string, unknown> = {},
+  timeoutMs = 30000,
+  sessionId?: string | null,
+  extraHeaders: Record<string, string> = {},
+  { signal, onMessage }: JsonRpcRequestOptions = {}
+): Promise<unknown> {
+  signal?.throwIfAborted();
+  const requestId = requestIdCounter++;
+
+  // The backend numbers requests itself: cancel with the ID it was sent
+  const onAbort = () => {
+    const reason = signal!.reason instanceof RequestCancelledError
+      ? signal!.reason.reason
+      : undefined;
+    forwardCancellation(endpoint, requestId, reason, sessionId, extraHeaders);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await postJsonRpc(
+      endpoint,
+      { jsonrpc: '2.0', method, params, id: requestId },
+      timeoutMs,
+      sessionId,
+      extraHeaders,
+      (response, timer) =>
+        readJsonRpcResponse(response, (message) => {
+          // A backend reporting progress is still working on the request
+          if (message.method === 'notifications/progress') timer.extend();
+          // One waiting for the answer to its own request cannot respond before it has it
+          const handling = onMessage?.(message);
+          if (handling) {
+            const release = timer.hold();
+            handling.then(release, release);
+          }
+        }),
+      signal
+    );
   } finally {
-    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Send notifications/cancelled for a request to a backend
+ */
+async function forwardCancellation(
+  endpoint: string,
+  requestId: number,
+  reason: string | undefined,
+  sessionId: string | null | undefined,
+  extraHeaders: Record<string, string>
+): Promise<void> {
+  try {
+    await postJsonRpc(
+      endpoint,
+      jsonRpcNotification('notifications/cancelled', {
+        requestId,
+        ...(reason && { reason }),
+      }),
+      CANCEL_TIMEOUT_MS,
+      sessionId,
+      extraHeaders,
+      discardBody
+    );
+    logger.debug('Cancellation forwarded to backend', { endpoint, requestId });
+  } catch (error) {
+    logger.warn('Failed to forward cancellation', {
+      endpoint,
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Hand a message a backend sent on one of its streams to `handler`. Requests
+ * are answered with the handler's response, or an error if it has none, so
+ * the backend does not wait for an answer that never comes. Returns the
+ * pending reply for requests.
+ */
+export function dispatchBackendMessage(
+  server: BackendServer,
+  sessionId: string | null,
+  message: Record<string, unknown>,
+  handler?: BackendMessageHandler
+): Promise<void> | void {
+  const reply = handler?.(message, server);
+  if (message.id === undefined || message.id === null) return;
+  return replyToBackend(server, sessionId, message, reply);
+}
+
+async function replyToBackend(
+  server: BackendServer,
+  sessionId: string | null,
+  request: Record<string, unknown>,
+  reply: Promise<Record<string, unknown>> | void
+): Promise<void> {
+  const id = request.id as string | number;
+  try {
+    const response = reply
+      ? await reply
+      : jsonRpcError(
+        id,
+        JsonRpcErrorCode.METHOD_NOT_FOUND,
+        `Method not supported by the gateway: ${request.method}`
+      );
+    await postJsonRpc(
+      server.endpoint,
+      response,
+      REPLY_TIMEOUT_MS,
+      sessionId,
+      await buildBackendHeaders(server),
+      discardBody
+    );
+  } catch (error) {
+    logger.warn('Failed to answer backend request', {
+      serverId: server.id,
+      method: request.method,
+      error: error instanceof Error ? error.message : String(error),
+    });
   }
 }
 
@@ -102,26 +559,90 @@ export async function sendToBackend(
   server: BackendServer,
   method: string,
   params: Record<string, unknown> = {},
-  timeoutMs = 30000
+  timeoutMs = 30000,
+  options: BackendCallOptions = {}
 ): Promise<unknown> {
   const circuitBreaker = circuitBreakerRegistry.getOrCreate(server.id, {
     failureThreshold: 5,
     successThreshold: 2,
     timeout: 30000,
   });
+  const clientSessionId = options.clientSessionId ?? SHARED_SESSION_KEY;
+  const { signal, onMessage } = options;
+  let unsupported: BackendRpcError | undefined;
 
   const startTime = performance.now();
   try {
+    // Resolve credentials outside the circuit breaker: a missing secret is a
+    // configuration error and must not count as a backend failure
+    const extraHeaders = await buildBackendHeaders(server);
     const result = await circuitBreaker.execute(async () => {
-      const sessionId = await getBackendSession(server);
-      return sendJsonRpcRequest(
-        server.endpoint,
-        method,
-        params,
-        timeoutMs,
-        sessionId
-      );
+      let sessionId = await getBackendSession(server, clientSessionId);
+      // Messages streamed ahead of the response belong to the session in use
+      const requestOptions: JsonRpcRequestOptions = {
+        signal,
+        onMessage: (message) => dispatchBackendMessage(server, sessionId, message, onMessage),
+      };
+      try {
+        return await sendJsonRpcRequest(
+          server.endpoint,
+          method,
+          params,
+          timeoutMs,
+          sessionId,
+          extraHeaders,
+          requestOptions
+        );
+      } catch (error) {
+        // A request the client cancelled says nothing about the backend's health
+        if (signal?.aborted) return CANCELLED;
+        // Neither does a method the backend does not implement
+        if (error instanceof BackendRpcError && error.code === JsonRpcErrorCode.METHOD_NOT_FOUND) {
+          unsupported = error;
+          return UNSUPPORTED;
+        }
+        // Backend session expired or was lost on restart: start a new one and retry once
+        if (error instanceof BackendHttpError && error.status === 404 && sessionId) {
+          logger.warn('Backend session not found, re-initializing', {
+            serverId: server.id,
+          });
+          await dropBackendSession(server.id, sessionId, clientSessionId);
+          sessionId = await getBackendSession(server, clientSessionId);
+          return await sendJsonRpcRequest(
+            server.endpoint,
+            method,
+            params,
+            timeoutMs,
+            sessionId,
+            extraHeaders,
+            requestOptions
+          );
+        }
+        // Token may have been revoked early: fetch a fresh one and retry once
+        if (
+          error instanceof BackendHttpError &&
+          error.status === 401 &&
+          server.auth?.type === 'oauth-client-credentials'
+        ) {
+          logger.warn('Backend rejected access token, refreshing', {
+            serverId: server.id,
+          });
+          invalidateClientCredentialsToken(server.id, server.auth);
+          return await sendJsonRpcRequest(
+            server.endpoint,
+            method,
+            params,
+            timeoutMs,
+            sessionId,
+            await buildBackendHeaders(server),
+            requestOptions
+          );
+        }
+        throw error;
+      }
     });
+    if (result === CANCELLED) throw signal!.reason;
+    if (result === UNSUPPORTED) throw unsupported;
     const durationMs = performance.now() - startTime;
     logger.logBackendCall(method, server.endpoint, server.id, durationMs, 200);
     return result;
@@ -179,13 +700,14 @@ export async function checkBackendHealth(
  * Fetch tools from a backend server
  */
 export async function fetchToolsFromServer(
-  server: BackendServer
+  server: BackendServer,
+  options: BackendCallOptions = {}
 ): Promise<unknown[]> {
   try {
-    const result = (await sendToBackend(server, 'tools/list')) as {
+    const result = (await sendToBackend(server, 'tools/list', {}, undefined, options)) as {
       tools?: unknown[];
     };
-    return (result.tools || []).map((tool: unknown) => {
+    const tools = (result.tools || []).map((tool: unknown) => {
       const t = tool as Record<string, unknown>;
       const toolName = t.name as string;
       
@@ -200,8 +722,10 @@ export async function fetchToolsFromServer(
         name: namespacedName,
       };
     });
+    cacheToolSchemas(server.id, tools);
+    return tools;
   } catch (e) {
-    console.error(`Failed to fetch tools from ${server.name}:`, e);
+    logger.error('Failed to fetch tools', { serverId: server.id, error: e });
     return [];
   }
 }
@@ -210,10 +734,11 @@ export async function fetchToolsFromServer(
  * Fetch resources from a backend server
  */
 export async function fetchResourcesFromServer(
-  server: BackendServer
+  server: BackendServer,
+  options: BackendCallOptions = {}
 ): Promise<unknown[]> {
   try {
-    const result = (await sendToBackend(server, 'resources/list')) as {
+    const result = (await sendToBackend(server, 'resources/list', {}, undefined, options)) as {
       resources?: unknown[];
     };
     return (result.resources || []).map((resource: unknown) => {
@@ -228,7 +753,45 @@ export async function fetchResourcesFromServer(
       };
     });
   } catch (e) {
-    console.error(`Failed to fetch resources from ${server.name}:`, e);
+    logger.error('Failed to fetch resources', { serverId: server.id, error: e });
+    return [];
+  }
+}
+
+/**
+ * Fetch resource templates from a backend server. Backends without
+ * templates may answer with METHOD_NOT_FOUND; they simply contribute none.
+ */
+export async function fetchResourceTemplatesFromServer(
+  server: BackendServer,
+  options: BackendCallOptions = {}
+): Promise<unknown[]> {
+  try {
+    const result = (await sendToBackend(
+      server,
+      'resources/templates/list',
+      {},
+      undefined,
+      options
+    )) as { resourceTemplates?: unknown[] };
+    return (result.resourceTemplates || []).map((template: unknown) => {
+      const t = template as Record<string, unknown>;
+      // Expanded URIs carry the prefix too, so resources/read routes them
+      return {
+        ...t,
+        uriTemplate: `${server.id}://${t.uriTemplate}`,
+        _server: {
+          id: server.id,
+          name: server.name,
+        },
+      };
+    });
+  } catch (e) {
+    if (e instanceof BackendRpcError && e.code === JsonRpcErrorCode.METHOD_NOT_FOUND) {
+      logger.debug('Backend has no resource templates', { serverId: server.id });
+    } else {
+      logger.error('Failed to fetch resource templates', { serverId: server.id, error: e });
+    }
     return [];
   }
 }
@@ -237,10 +800,11 @@ export async function fetchResourcesFromServer(
  * Fetch prompts from a backend server
  */
 export async function fetchPromptsFromServer(
-  server: BackendServer
+  server: BackendServer,
+  options: BackendCallOptions = {}
 ): Promise<unknown[]> {
   try {
-    const result = (await sendToBackend(server, 'prompts/list')) as {
+    const result = (await sendToBackend(server, 'prompts/list', {}, undefined, options)) as {
       prompts?: unknown[];
     };
     return (result.prompts || []).map((prompt: unknown) => {
@@ -259,7 +823,7 @@ export async function fetchPromptsFromServer(
       };
     });
   } catch (e) {
-    console.error(`Failed to fetch prompts from ${server.name}:`, e);
+    logger.error('Failed to fetch prompts', { serverId: server.id, error: e });
     return [];
   }
 }
@@ -270,7 +834,8 @@ export async function fetchPromptsFromServer(
 export async function callToolOnServer(
   toolName: string,
   args: Record<string, unknown>,
-  getServer: (id: string) => BackendServer | undefined
+  getServer: (id: string) => BackendServer | undefined,
+  options: BackendCallOptions = {}
 ): Promise<unknown> {
   // Split on double underscore (namespace separator)
   const separatorIndex = toolName.indexOf('__');
@@ -291,15 +856,23 @@ export async function callToolOnServer(
     toolName: actualToolName,
     serverId,
     hasArguments: Object.keys(args).length > 0,
+    arguments: logger.toolArguments(args),
   });
 
   metrics.toolCalls++;
   const startTime = performance.now();
   try {
-    const result = await sendToBackend(server, 'tools/call', {
-      name: actualToolName,
-      arguments: args,
-    });
+    const result = await sendToBackend(
+      server,
+      'tools/call',
+      {
+        name: actualToolName,
+        arguments: args,
+        ...(options.progressToken && { _meta: { progressToken: options.progressToken } }),
+      },
+      undefined,
+      options
+    );
     logger.info('Tool call completed', {
       toolName: actualToolName,
       serverId,
@@ -319,12 +892,12 @@ export async function callToolOnServer(
 }
 
 /**
- * Read a resource from a backend server
+ * Find the server owning a namespaced resource URI and the URI it knows
  */
-export async function readResourceFromServer(
+export function resolveResourceUri(
   uri: string,
   getServer: (id: string) => BackendServer | undefined
-): Promise<unknown> {
+): { server: BackendServer; originalUri: string } {
   // Parse URI format: serverId://originalUri
   const match = uri.match(/^([^:]+):\/\/(.+)$/);
   if (!match) {
@@ -336,8 +909,85 @@ export async function readResourceFromServer(
   if (!server) {
     throw new Error(`Unknown server: ${serverId}`);
   }
+  return { server, originalUri };
+}
 
-  return await sendToBackend(server, 'resources/read', { uri: originalUri });
+/**
+ * Read a resource from a backend server
+ */
+export async function readResourceFromServer(
+  uri: string,
+  getServer: (id: string) => BackendServer | undefined,
+  options: BackendCallOptions = {}
+): Promise<unknown> {
+  const { server, originalUri } = resolveResourceUri(uri, getServer);
+  return await sendToBackend(server, 'resources/read', { uri: originalUri }, undefined, options);
+}
+
+/**
+ * Complete a prompt or resource template argument on the backend owning the
+ * referenced prompt or URI. Backends without completions offer no values.
+ */
+export async function completeOnServer(
+  params: Record<string, unknown>,
+  getServer: (id: string) => BackendServer | undefined,
+  options: BackendCallOptions = {}
+): Promise<unknown> {
+  const ref = params.ref as { type: string; name?: string; uri?: string };
+  let server: BackendServer | undefined;
+  let backendRef: Record<string, unknown>;
+  if (ref.type === 'ref/prompt') {
+    const promptName = ref.name!;
+    const separatorIndex = promptName.indexOf('__');
+    if (separatorIndex === -1) {
+      throw new Error(`Invalid prompt name format: ${promptName}`);
+    }
+    const serverId = promptName.substring(0, separatorIndex);
+    server = getServer(serverId);
+    if (!server) {
+      throw new Error(`Unknown server: ${serverId}`);
+    }
+    backendRef = { ...ref, name: promptName.substring(separatorIndex + 2) };
+  } else {
+    const resolved = resolveResourceUri(ref.uri!, getServer);
+    server = resolved.server;
+    backendRef = { ...ref, uri: resolved.originalUri };
+  }
+
+  try {
+    return await sendToBackend(
+      server,
+      'completion/complete',
+      { ...params, ref: backendRef },
+      undefined,
+      options
+    );
+  } catch (error) {
+    if (error instanceof BackendRpcError && error.code === JsonRpcErrorCode.METHOD_NOT_FOUND) {
+      return { completion: { values: [], hasMore: false } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Set the level of the log messages a backend sends to a client session.
+ * Backends that did not announce the logging capability are skipped, as are
+ * backends without a session for the client: the level would apply to all.
+ */
+export async function setLogLevelOnServer(
+  server: BackendServer,
+  level: string,
+  options: BackendCallOptions = {}
+): Promise<void> {
+  if (!options.clientSessionId) return;
+  try {
+    if (!(await getBackendSession(server, options.clientSessionId))) return;
+    if (!(await getBackendCapabilities(server)).logging) return;
+    await sendToBackend(server, 'logging/setLevel', { level }, undefined, options);
+  } catch (e) {
+    logger.warn('Failed to set backend log level', { serverId: server.id, error: e });
+  }
 }
 
 /**
@@ -346,7 +996,8 @@ export async function readResourceFromServer(
 export async function getPromptFromServer(
   promptName: string,
   args: Record<string, unknown> | undefined,
-  getServer: (id: string) => BackendServer | undefined
+  getServer: (id: string) => BackendServer | undefined,
+  options: BackendCallOptions = {}
 ): Promise<unknown> {
   // Split on double underscore (namespace separator)
   const separatorIndex = promptName.indexOf('__');
@@ -361,8 +1012,11 @@ export async function getPromptFromServer(
     throw new Error(`Unknown server: ${serverId}`);
   }
 
-  return await sendToBackend(server, 'prompts/get', {
-    name: actualPromptName,
-    arguments: args,
-  });
+  return await sendToBackend(
+    server,
+    'prompts/get',
+    { name: actualPromptName, arguments: args },
+    undefined,
+    options
+  );
 }
@@ -3,7 +3,16 @@
  * Handles environment-based server initialization and constants
  */
 
-import type { BackendServer } from './types.ts';
+import type {
+  BackendServer,
+  CorsConfig,
+  EgressConfig,
+  OAuthConfig,
+  PolicyEffect,
+  RateLimitConfig,
+  RequestLimits,
+  ToolIntegrityPolicy,
+} from './types.ts';
 
 export type { BackendServer };
 
@@ -70,8 +79,233 @@ export function initializeServersFromEnv(): BackendServer[] {
   return servers;
 }
 
+/**
+ * Thrown when the environment holds an invalid or incomplete configuration
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Read OAuth resource server settings from environment variables.
+ * Returns null when OAUTH_ISSUER is not set (the /mcp endpoint stays public).
+ * Throws ConfigError when neither OAUTH_AUDIENCE nor OAUTH_RESOURCE is set,
+ * so the expected audience is never derived from the request.
+ *
+ * - OAUTH_ISSUER: Authorization server issuer (required to enable OAuth)
+ * - OAUTH_JWKS_URL: JWKS endpoint (default: discovered from issuer metadata)
+ * - OAUTH_AUDIENCE: Expected "aud" claim (default: OAUTH_RESOURCE)
+ * - OAUTH_RESOURCE: Canonical resource URL (default: <request origin>/mcp)
+ * - OAUTH_REQUIRED_SCOPES: Space or comma separated scopes every token must carry
+ * - OAUTH_CLOCK_SKEW_SECONDS: Allowed clock skew for exp/nbf (default: 60)
+ */
+export function getOAuthConfig(): OAuthConfig | null {
+  const issuer = Deno.env.get('OAUTH_ISSUER');
+  if (!issuer) {
+    return null;
+  }
+
+  const resource = Deno.env.get('OAUTH_RESOURCE') || undefined;
+  const audience = Deno.env.get('OAUTH_AUDIENCE') || resource;
+  if (!audience) {
+    throw new ConfigError('OAUTH_ISSUER requires OAUTH_RESOURCE or OAUTH_AUDIENCE');
+  }
+
+  return {
+    issuer,
+    jwksUrl: Deno.env.get('OAUTH_JWKS_URL') || undefined,
+    audience,
+    resource,
+    requiredScopes: (Deno.env.get('OAUTH_REQUIRED_SCOPES') || '')
+      .split(/[\s,]+/)
+      .filter(Boolean),
+    clockSkewSeconds: parseInt(Deno.env.get('OAUTH_CLOCK_SKEW_SECONDS') || '60'),
+  };
+}
+
+/**
+ * Effect applied when no access policy rule matches a request
+ * (ACCESS_POLICY_DEFAULT: "allow" or "deny", default: allow)
+ */
+export function getAccessPolicyDefault(): PolicyEffect {
+  return Deno.env.get('ACCESS_POLICY_DEFAULT')?.toLowerCase() === 'deny'
+    ? 'deny'
+    : 'allow';
+}
+
+/**
+ * Policy for changed or suspicious tool definitions
+ * (TOOL_INTEGRITY_POLICY: "quarantine", "warn" or "allow", default: warn)
+ */
+export function getToolIntegrityPolicy(): ToolIntegrityPolicy {
+  const value = Deno.env.get('TOOL_INTEGRITY_POLICY')?.toLowerCase();
+  return value === 'quarantine' || value === 'allow' ? value : 'warn';
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(/[\s,]+/)
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Read egress (SSRF protection) rules from environment variables.
+ * Link-local, multicast and unspecified addresses are always blocked.
+ *
+ * - EGRESS_ALLOWED_SCHEMES: Allowed URL schemes (default: http,https)
+ * - EGRESS_BLOCK_PRIVATE: Block loopback and private ranges (default: true,
+ *   set to false for backends on localhost or a private network)
+ * - EGRESS_ALLOWED_HOSTS: Hostname globs backends must match (default: any)
+ * - EGRESS_DENIED_HOSTS: Hostname globs that are always rejected
+ * - EGRESS_ALLOWED_PORTS: Ports and ranges, e.g. "443,8000-8999" (default: any)
+ */
+export function getEgressConfig(): EgressConfig {
+  const blockPrivate = Deno.env.get('EGRESS_BLOCK_PRIVATE');
+  const schemes = parseList(Deno.env.get('EGRESS_ALLOWED_SCHEMES'));
+
+  return {
+    allowedSchemes: (schemes.length > 0 ? schemes : ['http', 'https']).map((s) =>
+      s.endsWith(':') ? s : `${s}:`
+    ),
+    blockPrivate: blockPrivate?.toLowerCase() !== 'false',
+    allowedHosts: parseList(Deno.env.get('EGRESS_ALLOWED_HOSTS')),
+    deniedHosts: parseList(Deno.env.get('EGRESS_DENIED_HOSTS')),
+    allowedPorts: parseList(Deno.env.get('EGRESS_ALLOWED_PORTS')).map((range) => {
+      const [from, to = from] = range.split('-').map((p) => parseInt(p));
+      return [from, to] as [number, number];
+    }),
+  };
+}
+
+/**
+ * Idle time after which an MCP session expires
+ * (MCP_SESSION_TTL_SECONDS, default: 1800)
+ */
+export function getSessionTtlMs(): number {
+  const seconds = parseInt(Deno.env.get('MCP_SESSION_TTL_SECONDS') || '');
+  return (seconds > 0 ? seconds : 1800) * 1000;
+}
+
+/**
+ * Key of the HMAC that hashed output filter matches are replaced with
+ * (OUTPUT_FILTER_HASH_SECRET)
+ */
+export function getOutputFilterHashSecret(): string | undefined {
+  return Deno.env.get('OUTPUT_FILTER_HASH_SECRET') || undefined;
+}
+
+/**
+ * Read request size limits from environment variables
+ *
+ * - REQUEST_MAX_BODY_BYTES: Maximum JSON-RPC body size (default 1 MiB)
+ * - REQUEST_MAX_BATCH_SIZE: Maximum messages per batch (default 50)
+ * - REQUEST_MAX_JSON_DEPTH: Maximum nesting of objects and arrays (default 32)
+ * - REQUEST_MAX_STRING_LENGTH: Maximum length of argument strings (default 100000)
+ */
+export function getRequestLimits(): RequestLimits {
+  const limit = (name: string, fallback: number) => {
+    const value = parseInt(Deno.env.get(name) || '');
+    return value > 0 ? value : fallback;
+  };
+
+  return {
+    maxBodyBytes: limit('REQUEST_MAX_BODY_BYTES', 1024 * 1024),
+    maxBatchSize: limit('REQUEST_MAX_BATCH_SIZE', 50),
+    maxJsonDepth: limit('REQUEST_MAX_JSON_DEPTH', 32),
+    maxStringLength: limit('REQUEST_MAX_STRING_LENGTH', 100000),
+  };
+}
+
+/**
+ * Read rate limits from environment variables.
+ * Returns null when no limit is configured (rate limiting disabled).
+ *
+ * - RATE_LIMIT_REQUESTS_PER_MINUTE: JSON-RPC calls per client and minute
+ * - RATE_LIMIT_BURST: Calls allowed at once (default: the per-minute limit)
+ * - RATE_LIMIT_TOOLS: Per-tool limits per client, e.g. "journey__*=10,aareguru__*=30"
+ * - RATE_LIMIT_STORE: "memory" (default, per isolate) or "kv" (shared across isolates)
+ */
+export function getRateLimitConfig(): RateLimitConfig | null {
+  const requestsPerMinute = parseInt(Deno.env.get('RATE_LIMIT_REQUESTS_PER_MINUTE') || '');
+  const burst = parseInt(Deno.env.get('RATE_LIMIT_BURST') || '');
+  const toolLimits = (Deno.env.get('RATE_LIMIT_TOOLS') || '')
+    .split(',')
+    .map((entry) => entry.trim().split('='))
+    .filter(([pattern, limit]) => pattern && parseInt(limit) > 0)
+    .map(([pattern, limit]) => ({ pattern, requestsPerMinute: parseInt(limit) }));
+
+  if (!(requestsPerMinute > 0) && toolLimits.length === 0) {
+    return null;
+  }
+
+  return {
+    requestsPerMinute: requestsPerMinute > 0 ? requestsPerMinute : undefined,
+    burst: burst > 0 ? burst : undefined,
+    toolLimits,
+    store: Deno.env.get('RATE_LIMIT_STORE') === 'kv' ? 'kv' : 'memory',
+  };
+}
+
+/**
+ * Origins allowed on the MCP transport when CORS_MCP_ORIGINS is not set
+ */
+const DEFAULT_MCP_ORIGINS = [
+  'http://localhost',
+  'http://localhost:*',
+  'http://127.0.0.1',
+  'http://127.0.0.1:*',
+];
+
+function parseOrigins(value: string | undefined, fallback: string[]): string[] {
+  const origins = (value || '')
+    .split(/[\s,]+/)
+    .map((o) => o.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean);
+  return origins.length > 0 ? origins : fallback;
+}
+
+/**
+ * Canonical origin of the gateway from GATEWAY_ORIGIN, else from
+ * OAUTH_RESOURCE. Never derived from the request's Host header.
+ */
+function getGatewayOrigin(): string | undefined {
+  const url = Deno.env.get('GATEWAY_ORIGIN') || Deno.env.get('OAUTH_RESOURCE');
+  if (!url) return undefined;
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read allowed CORS origins per route policy from environment variables.
+ * The gateway's own origin (GATEWAY_ORIGIN) is always allowed.
+ *
+ * - CORS_ALLOWED_ORIGINS: REST list, health and UI routes (default: *)
+ * - CORS_MCP_ORIGINS: /, /mcp, /sse, /message and the REST routes calling
+ *   tools, resources and prompts (default: localhost origins)
+ * - CORS_ADMIN_ORIGINS: Admin routes (default: none besides the gateway itself)
+ */
+export function getCorsConfig(): CorsConfig {
+  return {
+    public: parseOrigins(Deno.env.get('CORS_ALLOWED_ORIGINS'), ['*']),
+    mcp: parseOrigins(Deno.env.get('CORS_MCP_ORIGINS'), DEFAULT_MCP_ORIGINS),
+    admin: parseOrigins(Deno.env.get('CORS_ADMIN_ORIGINS'), []),
+    gatewayOrigin: getGatewayOrigin(),
+  };
+}
+
+/**
+ * CORS headers shared by all responses. Access-Control-Allow-Origin is set
+ * per request by applyCorsHeaders() in cors.ts, based on the route's policy.
+ */
 export const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Accept, Mcp-Session-Id',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Mcp-Session-Id, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, WWW-Authenticate, Retry-After',
 };
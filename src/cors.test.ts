@@ -0,0 +1,230 @@
+/**
+ * CORS and Origin Validation Tests
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../main.ts';
+import { getCorsConfig } from './config.ts';
+import { getCorsPolicy, isOriginAllowed } from './cors.ts';
+
+// Admin routes are called without credentials
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+
+function mcpRequest(origin?: string): Request {
+  return new Request('http://localhost:8000/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(origin && { Origin: origin }),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+  });
+}
+
+// =============================================================================
+// Policy Selection
+// =============================================================================
+
+Deno.test('CORS - getCorsPolicy classifies routes', () => {
+  const policy = (method: string, path: string, headers: Record<string, string> = {}) =>
+    getCorsPolicy(new Request(`http://localhost:8000${path}`, { method, headers }));
+
+  assertEquals(policy('POST', '/servers/register'), 'admin');
+  assertEquals(policy('DELETE', '/mcp/servers/journey'), 'admin');
+  assertEquals(policy('GET', '/mcp/admin/keys'), 'admin');
+  assertEquals(policy('POST', '/mcp/circuit-breakers/reset'), 'admin');
+  assertEquals(policy('POST', '/mcp'), 'mcp');
+  assertEquals(policy('GET', '/mcp'), 'mcp');
+  assertEquals(policy('POST', '/'), 'mcp');
+  assertEquals(policy('GET', '/'), 'public');
+  assertEquals(policy('GET', '/mcp/servers/register'), 'public');
+  assertEquals(policy('GET', '/mcp/tools/list'), 'public');
+  assertEquals(policy('POST', '/mcp/tools/call'), 'mcp');
+  assertEquals(policy('POST', '/tools/call'), 'mcp');
+  assertEquals(policy('POST', '/mcp/resources/read'), 'mcp');
+  assertEquals(policy('POST', '/mcp/prompts/get'), 'mcp');
+
+  // Preflights are classified by the announced method
+  assertEquals(
+    policy('OPTIONS', '/servers/register', { 'Access-Control-Request-Method': 'POST' }),
+    'admin'
+  );
+  assertEquals(policy('OPTIONS', '/mcp/servers/journey'), 'public');
+});
+
+Deno.test('CORS - isOriginAllowed', () => {
+  const config = {
+    public: ['*'],
+    mcp: ['https://*.example.org'],
+    admin: [],
+    gatewayOrigin: 'https://gateway.example.com',
+  };
+
+  // The gateway's own origin is always allowed
+  assertEquals(isOriginAllowed('https://gateway.example.com', 'admin', config), true);
+  assertEquals(isOriginAllowed('https://app.example.org', 'mcp', config), true);
+  assertEquals(isOriginAllowed('https://evil.example.net', 'mcp', config), false);
+  assertEquals(isOriginAllowed('https://evil.example.net', 'public', config), true);
+  assertEquals(isOriginAllowed('null', 'admin', config), false);
+});
+
+Deno.test('CORS - getCorsConfig defaults and environment overrides', () => {
+  const defaults = getCorsConfig();
+  assertEquals(defaults.public, ['*']);
+  assertEquals(defaults.admin, []);
+  assertEquals(defaults.mcp.includes('http://localhost:*'), true);
+  assertEquals(defaults.gatewayOrigin, undefined);
+
+  Deno.env.set('CORS_MCP_ORIGINS', 'https://App.example.com/, https://*.example.org');
+  try {
+    assertEquals(getCorsConfig().mcp, ['https://app.example.com', 'https://*.example.org']);
+  } finally {
+    Deno.env.delete('CORS_MCP_ORIGINS');
+  }
+
+  Deno.env.set('GATEWAY_ORIGIN', 'https://Gateway.example.com/mcp');
+  try {
+    assertEquals(getCorsConfig().gatewayOrigin, 'https://gateway.example.com');
+  } finally {
+    Deno.env.delete('GATEWAY_ORIGIN');
+  }
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'CORS - /mcp rejects requests from foreign origins',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(mcpRequest('https://evil.example.com'));
+    assertEquals(res.status, 403);
+    assertEquals(res.headers.get('Access-Control-Allow-Origin'), null);
+    const body = await res.json();
+    assertEquals(body.error, 'Forbidden: origin not allowed');
+  },
+});
+
+Deno.test({
+  name: 'CORS - /mcp reflects allowed origins',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const local = await handler(mcpRequest('http://localhost:6274'));
+    assertEquals(local.status, 200);
+    assertEquals(local.headers.get('Access-Control-Allow-Origin'), 'http://localhost:6274');
+    assertEquals(local.headers.get('Vary'), 'Origin');
+    await local.body?.cancel();
+
+    // Clients without an Origin header are not browsers and are not affected
+    const noOrigin = await handler(mcpRequest());
+    assertEquals(noOrigin.status, 200);
+    assertEquals(noOrigin.headers.get('Access-Control-Allow-Origin'), null);
+    await noOrigin.body?.cancel();
+
+    Deno.env.set('CORS_MCP_ORIGINS', 'https://app.example.com');
+    try {
+      const configured = await handler(mcpRequest('https://app.example.com'));
+      assertEquals(configured.status, 200);
+      assertEquals(
+        configured.headers.get('Access-Control-Allow-Origin'),
+        'https://app.example.com'
+      );
+      await configured.body?.cancel();
+
+      const replaced = await handler(mcpRequest('http://localhost:6274'));
+      assertEquals(replaced.status, 403);
+      await replaced.body?.cancel();
+    } finally {
+      Deno.env.delete('CORS_MCP_ORIGINS');
+    }
+  },
+});
+
+Deno.test({
+  name: 'CORS - admin routes reject cross-origin requests and preflights',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const preflight = await handler(
+      new Request('http://localhost:8000/servers/register', {
+        method: 'OPTIONS',
+        headers: {
+          Origin: 'http://localhost:3000',
+          'Access-Control-Request-Method': 'POST',
+        },
+      })
+    );
+    assertEquals(preflight.status, 403);
+    assertEquals(preflight.headers.get('Access-Control-Allow-Origin'), null);
+    await preflight.body?.cancel();
+
+    const res = await handler(
+      new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+        method: 'POST',
+        headers: { Origin: 'https://evil.example.com' },
+      })
+    );
+    assertEquals(res.status, 403);
+    await res.body?.cancel();
+
+    // Requests from the gateway's own UI are allowed once its origin is configured
+    Deno.env.set('GATEWAY_ORIGIN', 'http://localhost:8000');
+    try {
+      const sameOrigin = await handler(
+        new Request('http://localhost:8000/mcp/circuit-breakers/reset', {
+          method: 'POST',
+          headers: { Origin: 'http://localhost:8000' },
+        })
+      );
+      assertEquals(sameOrigin.status, 200);
+      assertEquals(
+        sameOrigin.headers.get('Access-Control-Allow-Origin'),
+        'http://localhost:8000'
+      );
+      await sameOrigin.body?.cancel();
+    } finally {
+      Deno.env.delete('GATEWAY_ORIGIN');
+    }
+  },
+});
+
+Deno.test({
+  name: 'CORS - an Origin matching a rebound Host header is not the gateway origin',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const rebound = (path: string) =>
+      handler(
+        new Request(`http://evil.example:18766${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Origin: 'http://evil.example:18766' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+        })
+      );
+
+    for (const path of ['/mcp', '/mcp/tools/call', '/mcp/circuit-breakers/reset']) {
+      const res = await rebound(path);
+      assertEquals(res.status, 403);
+      await res.body?.cancel();
+    }
+  },
+});
+
+Deno.test({
+  name: 'CORS - public routes allow any origin by default',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(
+      new Request('http://localhost:8000/mcp/servers/register', {
+        headers: { Origin: 'https://dashboard.example.com' },
+      })
+    );
+    assertEquals(res.status, 200);
+    assertEquals(res.headers.get('Access-Control-Allow-Origin'), '*');
+    await res.body?.cancel();
+  },
+});
@@ -0,0 +1,135 @@
+/**
+ * CORS and Origin validation module
+ *
+ * Picks a CORS policy per route, rejects requests from disallowed origins
+ * (DNS-rebinding protection for the Streamable HTTP transport) and sets
+ * Access-Control-Allow-Origin on responses.
+ *
+ * Requests without an Origin header (CLI tools, server-to-server clients)
+ * are not affected by origin checks.
+ */
+
+import { getCorsConfig } from './config.ts';
+import { logger } from './logger.ts';
+import { matchesGlob } from './policy/mod.ts';
+import type { CorsConfig, CorsPolicyName } from './types.ts';
+
+/**
+ * Routes that mutate gateway state or manage credentials
+ */
+const ADMIN_ROUTES: Array<{ method?: string; pattern: RegExp }> = [
+  { method: 'POST', pattern: /^\/servers\/register$/ },
+  { method: 'POST', pattern: /^\/mcp\/servers\/upload$/ },
+  { method: 'DELETE', pattern: /^\/mcp\/servers\/[^/]+$/ },
+  { method: 'POST', pattern: /^\/mcp\/circuit-breakers\/reset$/ },
+  { pattern: /^\/mcp\/admin(\/.*)?$/ },
+  { pattern: /^\/mcp\/audit$/ },
+];
+
+const MCP_ROUTES = [/^\/mcp\/?$/, /^\/sse$/, /^\/message$/];
+
+/**
+ * REST routes that call tools or read from backends on the caller's behalf
+ */
+const MCP_REST_ROUTES = [
+  /^(\/mcp)?\/tools\/call$/,
+  /^(\/mcp)?\/resources\/read$/,
+  /^(\/mcp)?\/prompts\/get$/,
+];
+
+/**
+ * Determine the CORS policy of a request. Preflight requests are classified
+ * by the method they announce in Access-Control-Request-Method.
+ */
+export function getCorsPolicy(req: Request): CorsPolicyName {
+  const path = new URL(req.url).pathname;
+  const method = req.method === 'OPTIONS'
+    ? (req.headers.get('Access-Control-Request-Method') || 'OPTIONS').toUpperCase()
+    : req.method;
+
+  if (ADMIN_ROUTES.some((r) => (!r.method || r.method === method) && r.pattern.test(path))) {
+    return 'admin';
+  }
+  if (
+    (path === '/' && method === 'POST') ||
+    [...MCP_ROUTES, ...MCP_REST_ROUTES].some((p) => p.test(path))
+  ) {
+    return 'mcp';
+  }
+  return 'public';
+}
+
+/**
+ * Check whether an origin may access routes of the given policy. The
+ * gateway's own origin is the configured one: the request URL is built from
+ * the Host header, which a DNS-rebinding page controls.
+ */
+export function isOriginAllowed(
+  origin: string,
+  policy: CorsPolicyName,
+  config: CorsConfig = getCorsConfig()
+): boolean {
+  const normalized = origin.toLowerCase();
+  if (config.gatewayOrigin && normalized === config.gatewayOrigin) {
+    return true;
+  }
+  return config[policy].some(
+    (allowed) => allowed === '*' || matchesGlob(allowed, normalized)
+  );
+}
+
+/**
+ * Reject requests whose Origin is not allowed for the route.
+ * Returns a 403 response if rejected, null otherwise.
+ */
+export function checkOrigin(req: Request, config: CorsConfig = getCorsConfig()): Response | null {
+  const origin = req.headers.get('Origin');
+  if (!origin) {
+    return null;
+  }
+
+  const policy = getCorsPolicy(req);
+  if (isOriginAllowed(origin, policy, config)) {
+    return null;
+  }
+
+  logger.warn('Request from disallowed origin rejected', {
+    origin,
+    policy,
+    method: req.method,
+    path: new URL(req.url).pathname,
+  });
+  return new Response(JSON.stringify({ error: 'Forbidden: origin not allowed' }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json', Vary: 'Origin' },
+  });
+}
+
+/**
+ * Set Access-Control-Allow-Origin on a response: "*" where the policy allows
+ * any origin, otherwise the request's origin if it is allowed.
+ */
+export function applyCorsHeaders(
+  req: Request,
+  res: Response,
+  config: CorsConfig = getCorsConfig()
+): Response {
+  const policy = getCorsPolicy(req);
+  const origin = req.headers.get('Origin');
+  const headers = new Headers(res.headers);
+
+  if (config[policy].includes('*')) {
+    headers.set('Access-Control-Allow-Origin', '*');
+  } else {
+    headers.append('Vary', 'Origin');
+    if (origin && isOriginAllowed(origin, policy, config)) {
+      headers.set('Access-Control-Allow-Origin', origin);
+    }
+  }
+
+  return new Response(res.body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,296 @@
+/**
+ * Egress Policy (SSRF Protection) Tests
+ */
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { BackendHttpError, sendJsonRpcRequest } from '../backend.ts';
+import { getEgressConfig } from '../config.ts';
+import { validateServerConfiguration } from '../endpoints/serverConfigUpload.ts';
+import type { EgressConfig } from '../types.ts';
+import {
+  checkEgress,
+  checkEgressUrl,
+  checkServerEgress,
+  classifyAddress,
+  EgressBlockedError,
+  egressFetch,
+} from './mod.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+function createConfig(overrides: Partial<EgressConfig> = {}): EgressConfig {
+  return {
+    allowedSchemes: ['http:', 'https:'],
+    blockPrivate: true,
+    allowedHosts: [],
+    deniedHosts: [],
+    allowedPorts: [],
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Address Classification
+// =============================================================================
+
+Deno.test('Egress - classifyAddress', () => {
+  assertEquals(classifyAddress('8.8.8.8'), 'public');
+  assertEquals(classifyAddress('127.0.0.1'), 'loopback');
+  assertEquals(classifyAddress('10.1.2.3'), 'private');
+  assertEquals(classifyAddress('172.16.0.1'), 'private');
+  assertEquals(classifyAddress('172.32.0.1'), 'public');
+  assertEquals(classifyAddress('192.168.1.1'), 'private');
+  assertEquals(classifyAddress('100.64.0.1'), 'private');
+  assertEquals(classifyAddress('169.254.169.254'), 'link-local');
+  assertEquals(classifyAddress('0.0.0.0'), 'unspecified');
+  assertEquals(classifyAddress('224.0.0.1'), 'multicast');
+  assertEquals(classifyAddress('255.255.255.255'), 'reserved');
+
+  assertEquals(classifyAddress('::1'), 'loopback');
+  assertEquals(classifyAddress('::'), 'unspecified');
+  assertEquals(classifyAddress('fe80::1'), 'link-local');
+  assertEquals(classifyAddress('fd00:ec2::254'), 'private');
+  assertEquals(classifyAddress('2001:4860:4860::8888'), 'public');
+  assertEquals(classifyAddress('::ffff:169.254.169.254'), 'link-local');
+  assertEquals(classifyAddress('::ffff:7f00:1'), 'loopback');
+  assertEquals(classifyAddress('64:ff9b::a00:1'), 'private');
+
+  assertEquals(classifyAddress('example.com'), null);
+  assertEquals(classifyAddress('1:2:3'), null);
+});
+
+// =============================================================================
+// URL Rules
+// =============================================================================
+
+Deno.test('Egress - checkEgressUrl blocks metadata and private addresses', () => {
+  const config = createConfig();
+
+  assertEquals(checkEgressUrl('https://api.example.com/mcp', config), null);
+  assertEquals(
+    checkEgressUrl('http://169.254.169.254/latest/meta-data', config),
+    'link-local address 169.254.169.254 is not allowed'
+  );
+  assertEquals(
+    checkEgressUrl('http://[::ffff:a9fe:a9fe]/', config),
+    'link-local address ::ffff:a9fe:a9fe is not allowed'
+  );
+  // Alternative IPv4 notations are normalized by the URL parser
+  assertEquals(
+    checkEgressUrl('http://2130706433:8080/', config),
+    'loopback address 127.0.0.1 is not allowed'
+  );
+  assertEquals(
+    checkEgressUrl('http://localhost:9000/mcp', config),
+    'loopback address localhost is not allowed'
+  );
+  assertEquals(checkEgressUrl('http://10.0.0.5/mcp', config), 'private address 10.0.0.5 is not allowed');
+});
+
+Deno.test('Egress - private ranges are allowed when blockPrivate is off', () => {
+  const config = createConfig({ blockPrivate: false });
+
+  assertEquals(checkEgressUrl('http://localhost:9000/mcp', config), null);
+  assertEquals(checkEgressUrl('http://192.168.1.10/mcp', config), null);
+  // Link-local stays blocked
+  assertEquals(
+    checkEgressUrl('http://169.254.169.254/', config),
+    'link-local address 169.254.169.254 is not allowed'
+  );
+});
+
+Deno.test('Egress - scheme, host and port rules', () => {
+  assertEquals(
+    checkEgressUrl('ftp://files.example.com/', createConfig()),
+    'scheme "ftp" is not allowed'
+  );
+  assertEquals(
+    checkEgressUrl('http://api.example.com/', createConfig({ allowedSchemes: ['https:'] })),
+    'scheme "http" is not allowed'
+  );
+
+  const hosts = createConfig({
+    allowedHosts: ['*.example.com'],
+    deniedHosts: ['internal.example.com'],
+  });
+  assertEquals(checkEgressUrl('https://api.example.com/', hosts), null);
+  assertEquals(
+    checkEgressUrl('https://internal.example.com/', hosts),
+    'host "internal.example.com" is denied'
+  );
+  assertEquals(
+    checkEgressUrl('https://example.org/', hosts),
+    'host "example.org" is not in the allowed hosts'
+  );
+
+  const ports = createConfig({ allowedPorts: [[443, 443], [8000, 8999]] });
+  assertEquals(checkEgressUrl('https://api.example.com/', ports), null);
+  assertEquals(checkEgressUrl('https://api.example.com:8443/', ports), null);
+  assertEquals(checkEgressUrl('http://api.example.com/', ports), 'port 80 is not allowed');
+});
+
+Deno.test('Egress - getEgressConfig reads environment variables', () => {
+  Deno.env.set('EGRESS_ALLOWED_SCHEMES', 'https');
+  Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+  Deno.env.set('EGRESS_ALLOWED_PORTS', '443, 8000-8999');
+  Deno.env.set('EGRESS_DENIED_HOSTS', 'Internal.Example.com');
+  try {
+    assertEquals(getEgressConfig(), {
+      allowedSchemes: ['https:'],
+      blockPrivate: false,
+      allowedHosts: [],
+      deniedHosts: ['internal.example.com'],
+      allowedPorts: [[443, 443], [8000, 8999]],
+    });
+  } finally {
+    Deno.env.delete('EGRESS_ALLOWED_SCHEMES');
+    Deno.env.delete('EGRESS_ALLOWED_PORTS');
+    Deno.env.delete('EGRESS_DENIED_HOSTS');
+  }
+});
+
+Deno.test('Egress - private ranges are blocked by default', () => {
+  Deno.env.delete('EGRESS_BLOCK_PRIVATE');
+  try {
+    assertEquals(getEgressConfig().blockPrivate, true);
+    assertEquals(
+      checkEgressUrl('http://localhost:9000/'),
+      'loopback address localhost is not allowed'
+    );
+  } finally {
+    Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+  }
+});
+
+Deno.test({
+  name: 'Egress - checkEgress skips DNS for literals and localhost',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    assertEquals(
+      await checkEgress('http://127.0.0.1:9000/', createConfig()),
+      'loopback address 127.0.0.1 is not allowed'
+    );
+    assertEquals(await checkEgress('http://localhost:9000/', createConfig({ blockPrivate: false })), null);
+  },
+});
+
+Deno.test({
+  name: 'Egress - names that do not resolve are refused before fetching',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const url = 'http://does-not-exist.invalid/mcp';
+    assertEquals(
+      await checkEgress(url, createConfig()),
+      'host "does-not-exist.invalid" does not resolve'
+    );
+    assertEquals(await checkServerEgress({ endpoint: url }, createConfig()), []);
+    await assertRejects(
+      () => egressFetch(url, {}, createConfig()),
+      EgressBlockedError,
+      'does not resolve'
+    );
+  },
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test('Egress - upload validation rejects blocked endpoints', () => {
+  const result = validateServerConfiguration({
+    servers: [{ id: 'metadata', name: 'Metadata', endpoint: 'http://169.254.169.254/mcp' }],
+  });
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors, [
+    'Server 0: endpoint not allowed: link-local address 169.254.169.254 is not allowed',
+  ]);
+});
+
+Deno.test({
+  name: 'Egress - registration rejects blocked endpoints',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(
+      new Request('http://localhost:8000/servers/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: `egress-${Date.now()}`,
+          name: 'Metadata Service',
+          endpoint: 'http://169.254.169.254/latest/meta-data',
+        }),
+      })
+    );
+
+    assertEquals(res.status, 400);
+    const body = await res.json();
+    assertEquals(body.error, 'Endpoint not allowed');
+    assertEquals(body.details, [
+      'endpoint not allowed: link-local address 169.254.169.254 is not allowed',
+    ]);
+  },
+});
+
+Deno.test({
+  name: 'Egress - sendJsonRpcRequest checks the endpoint before fetching',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    let requests = 0;
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      requests++;
+      const { id } = await req.json();
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    Deno.env.set('EGRESS_BLOCK_PRIVATE', 'true');
+    try {
+      await assertRejects(
+        () => sendJsonRpcRequest(`http://localhost:${backend.addr.port}/mcp`, 'ping'),
+        EgressBlockedError,
+        'loopback address localhost is not allowed'
+      );
+      assertEquals(requests, 0);
+    } finally {
+      Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Egress - redirects from a backend are not followed',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    let internalRequests = 0;
+    const internal = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      internalRequests++;
+      const { id } = await req.json();
+      return Response.json({ jsonrpc: '2.0', id, result: { secret: true } });
+    });
+    const redirecting = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      await req.body?.cancel();
+      return Response.redirect(`http://localhost:${internal.addr.port}/mcp`, 307);
+    });
+
+    try {
+      await assertRejects(
+        () => sendJsonRpcRequest(`http://localhost:${redirecting.addr.port}/mcp`, 'ping'),
+        BackendHttpError,
+        'Request failed: 307'
+      );
+      assertEquals(internalRequests, 0);
+    } finally {
+      await redirecting.shutdown();
+      await internal.shutdown();
+    }
+  },
+});
@@ -0,0 +1,291 @@
+/**
+ * Egress Policy (SSRF Protection)
+ *
+ * Checks URLs the gateway is about to fetch (backend endpoints, token
+ * endpoints) against the egress rules from getEgressConfig():
+ * scheme allowlist, host allow/deny lists, port policy and blocked IP ranges.
+ *
+ * Hostnames are resolved via DNS and every returned address is checked, so a
+ * public name pointing at 169.254.169.254 is rejected as well. Checks run at
+ * registration and again before each request, since DNS answers can change.
+ * Names that do not resolve are refused before each request, as fetch() would
+ * otherwise resolve them again on its own.
+ * Redirects are not followed, so a checked URL cannot hand the request on to
+ * an unchecked one.
+ */
+
+import { getEgressConfig } from '../config.ts';
+import { logger } from '../logger.ts';
+import { matchesGlob } from '../policy/mod.ts';
+import type { EgressConfig } from '../types.ts';
+
+export type AddressCategory =
+  | 'public'
+  | 'loopback'
+  | 'private'
+  | 'link-local'
+  | 'unspecified'
+  | 'multicast'
+  | 'reserved';
+
+/**
+ * Categories that are never reachable, regardless of EGRESS_BLOCK_PRIVATE
+ */
+const ALWAYS_BLOCKED: AddressCategory[] = ['link-local', 'unspecified', 'multicast', 'reserved'];
+
+const DNS_CACHE_TTL_MS = 30 * 1000;
+const DEFAULT_PORTS: Record<string, number> = { 'http:': 80, 'https:': 443 };
+
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+/**
+ * Thrown when an outbound request violates the egress rules
+ */
+export class EgressBlockedError extends Error {
+  constructor(public readonly url: string, public readonly reason: string) {
+    super(`Egress blocked for ${url}: ${reason}`);
+    this.name = 'EgressBlockedError';
+  }
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && parseInt(p) <= 255)) {
+    return null;
+  }
+  return parts.map((p) => parseInt(p));
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  // Embedded IPv4 tail, e.g. ::ffff:127.0.0.1
+  const v4Tail = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Tail) {
+    const v4 = parseIPv4(v4Tail[2]);
+    if (!v4) return null;
+    text = `${v4Tail[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function classifyIPv4([a, b]: number[]): AddressCategory {
+  if (a === 0) return 'unspecified';
+  if (a === 127) return 'loopback';
+  if (a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) {
+    return 'private';
+  }
+  if (a === 100 && b >= 64 && b <= 127) return 'private'; // Carrier-grade NAT
+  if (a === 169 && b === 254) return 'link-local';
+  if (a >= 224 && a <= 239) return 'multicast';
+  if (a >= 240) return 'reserved';
+  return 'public';
+}
+
+/**
+ * Classify an IP address literal, or return null if it is not one
+ */
+export function classifyAddress(address: string): AddressCategory | null {
+  const v4 = parseIPv4(address);
+  if (v4) return classifyIPv4(v4);
+
+  const v6 = parseIPv6(address);
+  if (!v6) return null;
+
+  const embeddedV4 = [v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff];
+  if (v6.slice(0, 5).every((g) => g === 0) && v6[5] === 0xffff) {
+    return classifyIPv4(embeddedV4); // IPv4-mapped
+  }
+  if (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((g) => g === 0)) {
+    return classifyIPv4(embeddedV4); // NAT64
+  }
+  if (v6.every((g) => g === 0)) return 'unspecified';
+  if (v6.slice(0, 7).every((g) => g === 0) && v6[7] === 1) return 'loopback';
+  if (v6.slice(0, 6).every((g) => g === 0)) {
+    return classifyIPv4(embeddedV4); // Deprecated IPv4-compatible
+  }
+  if ((v6[0] & 0xffc0) === 0xfe80) return 'link-local';
+  if ((v6[0] & 0xfe00) === 0xfc00) return 'private'; // Unique local
+  if ((v6[0] & 0xff00) === 0xff00) return 'multicast';
+  return 'public';
+}
+
+function isBlockedCategory(category: AddressCategory, config: EgressConfig): boolean {
+  if (ALWAYS_BLOCKED.includes(category)) return true;
+  return config.blockPrivate && (category === 'loopback' || category === 'private');
+}
+
+/**
+ * Check a URL against the rules that need no DNS lookup.
+ * Returns the reason it is blocked, or null if it is allowed so far.
+ */
+export function checkEgressUrl(
+  url: string | URL,
+  config: EgressConfig = getEgressConfig()
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid URL';
+  }
+
+  if (!config.allowedSchemes.includes(parsed.protocol)) {
+    return `scheme "${parsed.protocol.slice(0, -1)}" is not allowed`;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (config.deniedHosts.some((pattern) => matchesGlob(pattern, hostname))) {
+    return `host "${hostname}" is denied`;
+  }
+  if (
+    config.allowedHosts.length > 0 &&
+    !config.allowedHosts.some((pattern) => matchesGlob(pattern, hostname))
+  ) {
+    return `host "${hostname}" is not in the allowed hosts`;
+  }
+
+  const port = parsed.port ? parseInt(parsed.port) : DEFAULT_PORTS[parsed.protocol];
+  if (
+    config.allowedPorts.length > 0 &&
+    !config.allowedPorts.some(([from, to]) => port >= from && port <= to)
+  ) {
+    return `port ${port} is not allowed`;
+  }
+
+  const category = hostname === 'localhost' || hostname.endsWith('.localhost')
+    ? 'loopback'
+    : classifyAddress(hostname);
+  if (category && isBlockedCategory(category, config)) {
+    return `${category} address ${hostname} is not allowed`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a hostname to its IPv4 and IPv6 addresses (cached briefly).
+ * Returns an empty list when the name does not resolve.
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.addresses;
+  }
+
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  const addresses = results.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+  dnsCache.set(hostname, { addresses, expiresAt: Date.now() + DNS_CACHE_TTL_MS });
+  return addresses;
+}
+
+/**
+ * Check a URL against all egress rules, including the addresses its host
+ * resolves to. Returns the reason it is blocked, or null if it is allowed.
+ * Names that do not resolve are blocked unless `allowUnresolved` is set.
+ */
+export async function checkEgress(
+  url: string | URL,
+  config: EgressConfig = getEgressConfig(),
+  allowUnresolved = false
+): Promise<string | null> {
+  const reason = checkEgressUrl(url, config);
+  if (reason) return reason;
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || classifyAddress(hostname)) {
+    return null; // Already checked as a literal
+  }
+
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0 && !allowUnresolved) {
+    return `host "${hostname}" does not resolve`;
+  }
+
+  for (const address of addresses) {
+    const category = classifyAddress(address);
+    if (category && isBlockedCategory(category, config)) {
+      return `host "${hostname}" resolves to ${category} address ${address}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Throw EgressBlockedError if a URL may not be fetched
+ */
+export async function assertEgressAllowed(
+  url: string | URL,
+  config: EgressConfig = getEgressConfig()
+): Promise<void> {
+  const reason = await checkEgress(url, config);
+  if (reason) {
+    logger.warn('Egress blocked', { url: String(url), reason });
+    throw new EgressBlockedError(String(url), reason);
+  }
+}
+
+/**
+ * Fetch a URL after checking it against the egress rules. Redirects are
+ * returned as they are instead of being followed.
+ */
+export async function egressFetch(
+  url: string | URL,
+  init: RequestInit = {},
+  config: EgressConfig = getEgressConfig()
+): Promise<Response> {
+  await assertEgressAllowed(url, config);
+  return await fetch(url, { ...init, redirect: 'manual' });
+}
+
+/**
+ * Clear cached DNS answers (for testing)
+ */
+export function clearEgressDnsCache(): void {
+  dnsCache.clear();
+}
+
+/**
+ * Check the endpoint and token URL of a server definition.
+ * Returns one message per blocked URL. Names that do not resolve yet are
+ * accepted here; egressFetch() refuses them until they do.
+ */
+export async function checkServerEgress(
+  server: { endpoint: string; auth?: unknown },
+  config: EgressConfig = getEgressConfig()
+): Promise<string[]> {
+  const errors: string[] = [];
+
+  const endpointReason = await checkEgress(server.endpoint, config, true);
+  if (endpointReason) {
+    errors.push(`endpoint not allowed: ${endpointReason}`);
+  }
+
+  const tokenUrl = (server.auth as { tokenUrl?: unknown } | undefined)?.tokenUrl;
+  if (typeof tokenUrl === 'string') {
+    const tokenReason = await checkEgress(tokenUrl, config, true);
+    if (tokenReason) {
+      errors.push(`auth.tokenUrl not allowed: ${tokenReason}`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,17 @@
+/**
+ * Egress Module Exports
+ *
+ * Main entry point for outbound request (SSRF) protection
+ */
+
+export {
+  assertEgressAllowed,
+  checkEgress,
+  checkEgressUrl,
+  checkServerEgress,
+  classifyAddress,
+  clearEgressDnsCache,
+  egressFetch,
+  EgressBlockedError,
+  type AddressCategory,
+} from './egressPolicy.ts';
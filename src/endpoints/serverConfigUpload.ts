@@ -4,11 +4,19 @@
  * Provides REST API endpoints for uploading, managing, and querying MCP server configurations.
  */
 
+import type { BackendAuth, OutputFilter, SecretValue } from '../types.ts';
+import { validateBackendCredentials } from '../auth/backendAuth.ts';
+import { checkEgressUrl } from '../egress/mod.ts';
+import { validateOutputFilters } from '../filters/mod.ts';
+
 export interface UploadServerConfigRequest {
   id: string;
   name: string;
   endpoint: string;
   requiresSession?: boolean;
+  auth?: BackendAuth;
+  headers?: Record<string, SecretValue>;
+  outputFilters?: OutputFilter[];
 }
 
 export interface UploadServerConfigResponse {
@@ -84,6 +92,10 @@ export function validateServerConfiguration(
       // Validate URL format
       try {
         new URL(s.endpoint as string);
+        const egressError = checkEgressUrl(s.endpoint as string);
+        if (egressError) {
+          errors.push(`Server ${i}: endpoint not allowed: ${egressError}`);
+        }
       } catch {
         errors.push(`Server ${i}: invalid endpoint URL: "${s.endpoint}"`);
       }
@@ -96,6 +108,16 @@ export function validateServerConfiguration(
     ) {
       errors.push(`Server ${i}: "requiresSession" must be a boolean`);
     }
+
+    // Validate optional backend credentials
+    for (const error of validateBackendCredentials(s)) {
+      errors.push(`Server ${i}: ${error}`);
+    }
+
+    // Validate optional output filters
+    for (const error of validateOutputFilters(s.outputFilters)) {
+      errors.push(`Server ${i}: ${error}`);
+    }
   }
 
   return { valid: errors.length === 0, errors };
@@ -125,6 +147,13 @@ export function extractServersFromConfig(
       endpoint: server.endpoint as string,
       requiresSession: (server.requiresSession as boolean | undefined) ||
         false,
+      ...(server.auth !== undefined && { auth: server.auth as BackendAuth }),
+      ...(server.headers !== undefined && {
+        headers: server.headers as Record<string, SecretValue>,
+      }),
+      ...(server.outputFilters !== undefined && {
+        outputFilters: server.outputFilters as OutputFilter[],
+      }),
     };
   });
 }
@@ -10,6 +10,10 @@ import { handler } from '../../main.ts';
 import { deleteServer, listServers } from '../kv.ts';
 import type { BackendServer } from '../types.ts';
 
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
 // Helper to create unique test server data
 function createTestServerData(suffix: string = '') {
   const uniqueId = `integration-test-${Date.now()}${suffix}`;
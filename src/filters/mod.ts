@@ -0,0 +1,14 @@
+/**
+ * Filters Module Exports
+ *
+ * Main entry point for PII and secret filtering of tool results
+ */
+
+export {
+  applyOutputFilters,
+  OUTPUT_FILTER_ACTIONS,
+  PII_DETECTORS,
+  REDACTION_META_KEY,
+  validateOutputFilters,
+  type RedactionReport,
+} from './outputFilter.ts';
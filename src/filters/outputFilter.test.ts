@@ -0,0 +1,218 @@
+/**
+ * Output Filter Tests
+ */
+
+import { assertEquals, assertMatch } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import {
+  applyOutputFilters,
+  REDACTION_META_KEY,
+  validateOutputFilters,
+  type RedactionReport,
+} from './mod.ts';
+import type { OutputFilter } from '../types.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+const ALL_DETECTORS: OutputFilter = {
+  detectors: ['email', 'phone', 'iban', 'credit-card', 'api-key'],
+  action: 'mask',
+};
+
+function textResult(text: string) {
+  return { content: [{ type: 'text', text }] };
+}
+
+function reportOf(result: unknown): RedactionReport {
+  return (result as { _meta: Record<string, RedactionReport> })._meta[REDACTION_META_KEY];
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+Deno.test('Output filters - mask all detectors in text content', async () => {
+  const result = await applyOutputFilters(
+    textResult(
+      'Contact anna.muster@example.ch or +41 79 123 45 67. ' +
+        'IBAN CH93 0076 2011 6238 5295 7, card 4111 1111 1111 1111, ' +
+        'key sk-abcdefghijklmnopqrstuvwx.'
+    ),
+    [ALL_DETECTORS],
+    'lookup'
+  );
+
+  assertEquals(
+    (result as { content: Array<{ text: string }> }).content[0].text,
+    'Contact [REDACTED:email] or [REDACTED:phone]. ' +
+      'IBAN [REDACTED:iban], card [REDACTED:credit-card], ' +
+      'key [REDACTED:api-key].'
+  );
+  assertEquals(reportOf(result), {
+    total: 5,
+    blocked: false,
+    matches: [
+      { detector: 'api-key', action: 'mask', count: 1 },
+      { detector: 'email', action: 'mask', count: 1 },
+      { detector: 'iban', action: 'mask', count: 1 },
+      { detector: 'credit-card', action: 'mask', count: 1 },
+      { detector: 'phone', action: 'mask', count: 1 },
+    ],
+  });
+});
+
+Deno.test('Output filters - checksums and digit counts avoid false positives', async () => {
+  const text =
+    'Train 2025-01-15 at 08:32, order 4111 1111 1111 1112, ref CH93 0076 2011 6238 5295 8';
+  const result = await applyOutputFilters(textResult(text), [ALL_DETECTORS], 'lookup');
+  assertEquals(result, textResult(text));
+});
+
+Deno.test('Output filters - hash replaces matches with a stable digest', async () => {
+  const filters: OutputFilter[] = [{ detectors: ['email'], action: 'hash' }];
+  const first = await applyOutputFilters(
+    { ...textResult('a@example.com'), structuredContent: { to: 'a@example.com' } },
+    filters,
+    'send'
+  ) as { content: Array<{ text: string }>; structuredContent: { to: string } };
+
+  assertMatch(first.content[0].text, /^\[email:hmac:[0-9a-f]{16}\]$/);
+  assertEquals(first.structuredContent.to, first.content[0].text);
+  assertEquals(reportOf(first).total, 2);
+
+  // Keyed: not the plain SHA-256 anyone could compute for a guessed value
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode('a@example.com'));
+  const plain = Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  assertEquals(first.content[0].text.includes(plain), false);
+});
+
+Deno.test('Output filters - block withholds the result', async () => {
+  const result = await applyOutputFilters(
+    { ...textResult('card 4111-1111-1111-1111'), _meta: { traceId: 't1' } },
+    [
+      { detectors: ['email'], action: 'mask' },
+      { detectors: ['credit-card'], action: 'block' },
+    ],
+    'checkout'
+  );
+  assertEquals(result, {
+    content: [{ type: 'text', text: 'Tool result blocked by output filter (credit-card)' }],
+    isError: true,
+    _meta: {
+      traceId: 't1',
+      [REDACTION_META_KEY]: {
+        total: 1,
+        blocked: true,
+        matches: [{ detector: 'credit-card', action: 'block', count: 1 }],
+      },
+    },
+  });
+});
+
+Deno.test('Output filters - tool globs select filters', async () => {
+  const filters: OutputFilter[] = [
+    { tools: ['get*'], detectors: ['email'], action: 'mask' },
+    { detectors: ['email'], action: 'hash' },
+  ];
+  const masked = await applyOutputFilters(textResult('a@example.com'), filters, 'getUser');
+  assertEquals(reportOf(masked).matches[0].action, 'mask');
+  const hashed = await applyOutputFilters(textResult('a@example.com'), filters, 'listUsers');
+  assertEquals(reportOf(hashed).matches[0].action, 'hash');
+
+  const untouched = textResult('a@example.com');
+  assertEquals(await applyOutputFilters(untouched, undefined, 'getUser'), untouched);
+});
+
+Deno.test('Output filters - validation', () => {
+  assertEquals(validateOutputFilters(undefined), []);
+  assertEquals(validateOutputFilters([ALL_DETECTORS]), []);
+  assertEquals(validateOutputFilters({}), ['outputFilters must be an array']);
+  assertEquals(
+    validateOutputFilters([{ tools: 'get*', detectors: ['ssn'], action: 'drop' }]),
+    [
+      'outputFilters[0].tools must be an array of strings',
+      'outputFilters[0].detectors must be a non-empty array of: ' +
+      'email, phone, iban, credit-card, api-key',
+      'outputFilters[0].action must be one of: mask, hash, block',
+    ]
+  );
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Output filters - applied to tools/call results of the configured server',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `filters-${Date.now()}`;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const { id, method } = await req.json();
+      const result = method === 'tools/list'
+        ? { tools: [{ name: 'getCustomer' }] }
+        : textResult('Customer: jane@example.org');
+      return Response.json({ jsonrpc: '2.0', id, result });
+    });
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Filter Test',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+            outputFilters: [{ tools: ['getCustomer'], detectors: ['email'], action: 'mask' }],
+          }),
+        })
+      );
+      assertEquals(registerRes.status, 200);
+      await registerRes.body?.cancel();
+
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'tools/call',
+            params: { name: `${serverId}__getCustomer`, arguments: {} },
+          }),
+        })
+      );
+      const { result } = await res.json();
+      assertEquals(result.content[0].text, 'Customer: [REDACTED:email]');
+      assertEquals(reportOf(result).total, 1);
+
+      const invalidRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Filter Test',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+            outputFilters: [{ detectors: ['email'], action: 'encrypt' }],
+          }),
+        })
+      );
+      assertEquals(invalidRes.status, 400);
+      assertEquals((await invalidRes.json()).error, 'Invalid output filters');
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
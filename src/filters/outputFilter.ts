@@ -0,0 +1,293 @@
+/**
+ * Output Filters
+ *
+ * Scans the text of tool results for PII and secrets (emails, phone numbers,
+ * IBANs, credit card numbers, API keys) and masks, hashes or blocks matches
+ * according to the filters configured on the backend server. A report of the
+ * applied redactions is added to the result's `_meta`.
+ */
+
+import { getOutputFilterHashSecret } from '../config.ts';
+import { logger } from '../logger.ts';
+import { matchesGlob } from '../policy/mod.ts';
+import type { OutputFilter, OutputFilterAction, PiiDetector } from '../types.ts';
+
+export const PII_DETECTORS: PiiDetector[] = ['email', 'phone', 'iban', 'credit-card', 'api-key'];
+
+export const OUTPUT_FILTER_ACTIONS: OutputFilterAction[] = ['mask', 'hash', 'block'];
+
+/** `_meta` key of the redaction report */
+export const REDACTION_META_KEY = 'mcp-gateway/redactions';
+
+export interface RedactionReport {
+  total: number;
+  blocked: boolean;
+  matches: Array<{ detector: PiiDetector; action: OutputFilterAction; count: number }>;
+}
+
+interface Detector {
+  pattern: RegExp;
+  verify?: (match: string) => boolean;
+}
+
+const API_KEY_PATTERNS = [
+  'sk-[A-Za-z0-9_-]{20,}', // OpenAI, Anthropic
+  'gh[pousr]_[A-Za-z0-9]{36,}', // GitHub
+  'AKIA[0-9A-Z]{16}', // AWS access key ID
+  'AIza[0-9A-Za-z_-]{35}', // Google
+  'xox[abprs]-[A-Za-z0-9-]{10,}', // Slack
+  'mgw_[A-Za-z0-9_-]{16,}', // Gateway API keys
+  'eyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]*', // JWT
+];
+
+/**
+ * Detectors in the order they are applied: specific patterns first, so a
+ * credit card number is not also reported as a phone number
+ */
+const DETECTORS: Array<[PiiDetector, Detector]> = [
+  ['api-key', { pattern: new RegExp(`\\b(?:${API_KEY_PATTERNS.join('|')})`, 'g') }],
+  ['email', { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g }],
+  ['iban', { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, verify: isValidIban }],
+  ['credit-card', { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, verify: passesLuhn }],
+  ['phone', { pattern: /(?<![\w+])(?:\+|0)\d[\d ()/-]{6,}\d(?!\w)/g, verify: isPhoneNumber }],
+];
+
+/**
+ * Check the ISO 13616 mod-97 checksum of an IBAN
+ */
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(
+    /[A-Z]/g,
+    (c) => String(c.charCodeAt(0) - 55)
+  );
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check the Luhn checksum of a card number
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isPhoneNumber(match: string): boolean {
+  const count = match.replace(/\D/g, '').length;
+  return count >= 9 && count <= 15;
+}
+
+/**
+ * Validate the outputFilters setting of a server definition
+ */
+export function validateOutputFilters(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return ['outputFilters must be an array'];
+
+  const errors: string[] = [];
+  value.forEach((filter, i) => {
+    const prefix = `outputFilters[${i}]`;
+    if (!filter || typeof filter !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    const f = filter as Record<string, unknown>;
+    if (
+      f.tools !== undefined &&
+      (!Array.isArray(f.tools) || !f.tools.every((t) => typeof t === 'string'))
+    ) {
+      errors.push(`${prefix}.tools must be an array of strings`);
+    }
+    if (
+      !Array.isArray(f.detectors) ||
+      f.detectors.length === 0 ||
+      !f.detectors.every((d) => PII_DETECTORS.includes(d))
+    ) {
+      errors.push(`${prefix}.detectors must be a non-empty array of: ${PII_DETECTORS.join(', ')}`);
+    }
+    if (!OUTPUT_FILTER_ACTIONS.includes(f.action as OutputFilterAction)) {
+      errors.push(`${prefix}.action must be one of: ${OUTPUT_FILTER_ACTIONS.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Action per detector for a tool. The first filter naming a detector wins.
+ */
+function actionsForTool(
+  filters: OutputFilter[],
+  toolName: string
+): Map<PiiDetector, OutputFilterAction> {
+  const actions = new Map<PiiDetector, OutputFilterAction>();
+  for (const filter of filters) {
+    if (filter.tools && !filter.tools.some((pattern) => matchesGlob(pattern, toolName))) {
+      continue;
+    }
+    for (const detector of filter.detectors) {
+      if (!actions.has(detector)) actions.set(detector, filter.action);
+    }
+  }
+  return actions;
+}
+
+let hashKey: Promise<CryptoKey> | undefined;
+
+/**
+ * Key for hashing matches. A plain digest of a phone number or card number
+ * can be reversed by trying every candidate, a keyed one cannot.
+ */
+function getHashKey(): Promise<CryptoKey> {
+  if (!hashKey) {
+    const secret = getOutputFilterHashSecret();
+    if (!secret) {
+      logger.warn('OUTPUT_FILTER_HASH_SECRET not set: hashed values differ between isolates');
+    }
+    hashKey = crypto.subtle.importKey(
+      'raw',
+      secret ? new TextEncoder().encode(secret) : crypto.getRandomValues(new Uint8Array(32)),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+  return hashKey;
+}
+
+async function shortHash(text: string): Promise<string> {
+  const data = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.sign('HMAC', await getHashKey(), data);
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Scans strings and counts matches per detector
+ */
+class TextFilter {
+  readonly counts = new Map<PiiDetector, number>();
+
+  constructor(private readonly actions: Map<PiiDetector, OutputFilterAction>) {}
+
+  async filter(text: string): Promise<string> {
+    for (const [name, detector] of DETECTORS) {
+      const action = this.actions.get(name);
+      if (!action) continue;
+
+      let result = '';
+      let lastIndex = 0;
+      for (const match of text.matchAll(detector.pattern)) {
+        if (detector.verify && !detector.verify(match[0])) continue;
+        this.counts.set(name, (this.counts.get(name) ?? 0) + 1);
+        const replacement = action === 'hash'
+          ? `[${name}:hmac:${await shortHash(match[0])}]`
+          : `[REDACTED:${name}]`; // Blocked results are discarded anyway
+        result += text.slice(lastIndex, match.index) + replacement;
+        lastIndex = match.index! + match[0].length;
+      }
+      text = result + text.slice(lastIndex);
+    }
+    return text;
+  }
+
+  async filterValue(value: unknown): Promise<unknown> {
+    if (typeof value === 'string') return await this.filter(value);
+    if (Array.isArray(value)) {
+      return await Promise.all(value.map((item) => this.filterValue(item)));
+    }
+    if (value !== null && typeof value === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = await this.filterValue(item);
+      }
+      return copy;
+    }
+    return value;
+  }
+}
+
+/**
+ * Filter the text and resource content and the structured content of a tool
+ * result. Returns the result unchanged if no filter applies or nothing matched.
+ */
+export async function applyOutputFilters(
+  result: unknown,
+  filters: OutputFilter[] | undefined,
+  toolName: string
+): Promise<unknown> {
+  const actions = actionsForTool(filters ?? [], toolName);
+  if (actions.size === 0 || !result || typeof result !== 'object') return result;
+
+  const r = result as Record<string, unknown>;
+  const textFilter = new TextFilter(actions);
+
+  const content = Array.isArray(r.content)
+    ? await Promise.all(
+        r.content.map(async (item) => {
+          const c = item as Record<string, unknown>;
+          if (c.type === 'text' && typeof c.text === 'string') {
+            return { ...c, text: await textFilter.filter(c.text) };
+          }
+          const resource = c.resource as Record<string, unknown> | undefined;
+          if (c.type === 'resource' && typeof resource?.text === 'string') {
+            const text = await textFilter.filter(resource.text);
+            return { ...c, resource: { ...resource, text } };
+          }
+          return item;
+        })
+      )
+    : r.content;
+  const structuredContent = r.structuredContent !== undefined
+    ? await textFilter.filterValue(r.structuredContent)
+    : undefined;
+
+  if (textFilter.counts.size === 0) return result;
+
+  const matches = [...textFilter.counts].map(([detector, count]) => ({
+    detector,
+    action: actions.get(detector)!,
+    count,
+  }));
+  const report: RedactionReport = {
+    total: matches.reduce((sum, m) => sum + m.count, 0),
+    blocked: matches.some((m) => m.action === 'block'),
+    matches,
+  };
+  const meta = {
+    ...(r._meta as Record<string, unknown> | undefined),
+    [REDACTION_META_KEY]: report,
+  };
+
+  if (report.blocked) {
+    const detectors = matches.filter((m) => m.action === 'block').map((m) => m.detector);
+    return {
+      content: [
+        { type: 'text', text: `Tool result blocked by output filter (${detectors.join(', ')})` },
+      ],
+      isError: true,
+      _meta: meta,
+    };
+  }
+
+  return {
+    ...r,
+    ...(content !== undefined && { content }),
+    ...(structuredContent !== undefined && { structuredContent }),
+    _meta: meta,
+  };
+}
@@ -3,11 +3,31 @@
  * Implements individual HTTP endpoints
  */
 
-import { corsHeaders } from './config.ts';
+import {
+  corsHeaders,
+  getRequestLimits,
+  getToolIntegrityPolicy,
+  SERVER_INFO,
+} from './config.ts';
 import { logger } from './logger.ts';
-import { jsonRpcResponse, jsonRpcError, JsonRpcErrorCode } from './jsonrpc.ts';
-import { sessions, metrics, sendSSE } from './session.ts';
-import { checkBackendHealth, circuitBreakerRegistry } from './backend.ts';
+import { isJsonRpcResponse, jsonRpcResponse, jsonRpcError, JsonRpcErrorCode } from './jsonrpc.ts';
+import {
+  sessions,
+  metrics,
+  sendSSE,
+  createMcpSession,
+  getMcpSession,
+  endMcpSession,
+  expireMcpSessions,
+  getSessionOwner,
+  trackRequest,
+} from './session.ts';
+import {
+  checkBackendHealth,
+  circuitBreakerRegistry,
+  clearBackendCapabilities,
+  closeBackendSessions,
+} from './backend.ts';
 import {
   validateServerConfiguration,
   extractServersFromConfig,
@@ -15,8 +35,45 @@ import {
   buildHealthStatusResponse,
   jsonResponse,
 } from './endpoints/serverConfigUpload.ts';
-import type { BackendServer, ServerHealth } from './types.ts';
+import type {
+  AccessPolicy,
+  BackendServer,
+  McpSession,
+  RequestContext,
+  ServerHealth,
+} from './types.ts';
 import * as kv from './kv.ts';
+import {
+  authenticateAdmin,
+  buildBackendHeaders,
+  isAdminRole,
+  issueAdminKey,
+  redactServer,
+  toAdminKeyInfo,
+  validateBackendCredentials,
+  warnOnPlainTextCredentials,
+} from './auth/mod.ts';
+import { createAccessControl, getClientIdentity, validateAccessPolicy } from './policy/mod.ts';
+import { checkServerEgress, egressFetch } from './egress/mod.ts';
+import { createAuditEntry, parseAuditQuery, recordAudit } from './audit.ts';
+import { clearToolSchemas } from './validation/toolSchemas.ts';
+import { readBodyText, readJsonBody, RequestBodyError } from './validation/requestLimits.ts';
+import {
+  broadcastListChanged,
+  clearSessionLogLevel,
+  releaseSubscriptions,
+  resolveClientResponse,
+  restartBackendStream,
+  stopBackendStream,
+  stopClientBackendStreams,
+  watchBackendStreams,
+  watchClientBackendStreams,
+} from './streams/mod.ts';
+import { approveToolPin } from './integrity/mod.ts';
+import { validateOutputFilters } from './filters/mod.ts';
+
+/** Most recent tool integrity alerts returned by GET /mcp/admin/tools */
+const TOOL_ALERT_LIMIT = 100;
 
 /**
  * Handle CORS preflight requests
@@ -151,12 +208,18 @@ export function handleMetrics(): Response {
 
 /**
  * Handle SSE stream endpoint (GET /sse)
+ * `servers` are watched for notifications to relay on the stream; only the
+ * caller in `clientContext` may post messages to the session
  */
-export function handleSseStream(): Response {
+export function handleSseStream(
+  servers: BackendServer[],
+  clientContext: RequestContext = {}
+): Response {
   const sessionId = crypto.randomUUID();
   const encoder = new TextEncoder();
 
   metrics.sessionsCreated++;
+  watchBackendStreams(servers);
 
   const stream = new ReadableStream<Uint8Array>({
     start(controller) {
@@ -164,6 +227,7 @@ export function handleSseStream(): Response {
         controller,
         encoder,
         createdAt: Date.now(),
+        owner: getSessionOwner(clientContext),
       });
 
       // Send endpoint event (for old SSE transport)
@@ -177,6 +241,7 @@ export function handleSseStream(): Response {
         } catch {
           clearInterval(pingInterval);
           sessions.delete(sessionId);
+          void releaseSession(sessionId);
         }
       }, 25000);
 
@@ -184,6 +249,7 @@ export function handleSseStream(): Response {
       const abortHandler = () => {
         clearInterval(pingInterval);
         sessions.delete(sessionId);
+        void releaseSession(sessionId);
         try {
           controller.close();
         } catch {
@@ -200,6 +266,8 @@ export function handleSseStream(): Response {
     },
     cancel() {
       sessions.delete(sessionId);
+      // Legacy sessions live as long as their stream
+      void releaseSession(sessionId);
     },
   });
 
@@ -215,14 +283,17 @@ export function handleSseStream(): Response {
 
 /**
  * Handle message endpoint (POST /message?sessionId=...)
+ * `clientContext` carries the authenticated caller (token, API key)
  */
 export async function handleMessage(
   sessionId: string | null,
   body: unknown,
   rpcHandler: (
     method: string,
-    params?: Record<string, unknown>
-  ) => Promise<unknown>
+    params?: Record<string, unknown>,
+    context?: RequestContext
+  ) => Promise<unknown>,
+  clientContext: RequestContext = {}
 ): Promise<Response> {
   if (!sessionId) {
     logger.warn('Message received without sessionId', {});
@@ -238,7 +309,7 @@ export async function handleMessage(
   }
 
   const session = sessions.get(sessionId);
-  if (!session) {
+  if (!session || session.owner !== getSessionOwner(clientContext)) {
     logger.warn('Message received with invalid session', { sessionId });
     return new Response(
       JSON.stringify(
@@ -259,10 +330,21 @@ export async function handleMessage(
     hasParams: !!params,
   });
 
+  // Requests can be cancelled with notifications/cancelled until they complete
+  const tracked = id !== undefined && id !== null
+    ? trackRequest(sessionId, id as string | number)
+    : undefined;
+
   try {
     const result = await rpcHandler(
       method as string,
-      params as Record<string, unknown>
+      params as Record<string, unknown>,
+      {
+        ...clientContext,
+        sessionId,
+        signal: tracked?.signal,
+        sendMessage: (message) => sendSSE(sessionId, 'message', message),
+      }
     );
 
     // For notifications (no id), just acknowledge
@@ -271,12 +353,20 @@ export async function handleMessage(
       return new Response(null, { status: 202, headers: corsHeaders });
     }
 
+    // Cancelled requests get no response
+    if (tracked?.signal.aborted) {
+      return new Response(null, { status: 202, headers: corsHeaders });
+    }
+
     // Send response via SSE stream
     const response = jsonRpcResponse(id as string | number, result);
     sendSSE(sessionId, 'message', response);
 
     return new Response(null, { status: 202, headers: corsHeaders });
   } catch (error) {
+    if (tracked?.signal.aborted) {
+      return new Response(null, { status: 202, headers: corsHeaders });
+    }
     metrics.totalErrors++;
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error';
@@ -285,9 +375,16 @@ export async function handleMessage(
     let errorCode: number = JsonRpcErrorCode.INTERNAL_ERROR;
     if (errorMessage.startsWith('Method not found:')) {
       errorCode = JsonRpcErrorCode.METHOD_NOT_FOUND;
+    } else if (errorMessage.startsWith('Access denied:')) {
+      errorCode = JsonRpcErrorCode.ACCESS_DENIED;
+    } else if (errorMessage.startsWith('Rate limit exceeded')) {
+      errorCode = JsonRpcErrorCode.RATE_LIMITED;
     } else if (
       errorMessage.includes('Invalid tool call') ||
       errorMessage.includes('Invalid resource read') ||
+      errorMessage.includes('Invalid resource subscription') ||
+      errorMessage.includes('Invalid completion request') ||
+      errorMessage.includes('Invalid logging request') ||
       errorMessage.includes('Invalid prompt request')
     ) {
       errorCode = JsonRpcErrorCode.INVALID_PARAMS;
@@ -297,20 +394,27 @@ export async function handleMessage(
       sendSSE(sessionId, 'message', jsonRpcError(id as string | number, errorCode, errorMessage));
     }
 
-    return new Response(null, { status: 202, headers: corsHeaders });
+    // The error also goes out on the stream, the status is for the caller
+    const status = errorCode === JsonRpcErrorCode.ACCESS_DENIED ? 403 : 202;
+    return new Response(null, { status, headers: corsHeaders });
+  } finally {
+    tracked?.done();
   }
 }
 
 /**
  * Handle streamable HTTP transport (POST /mcp)
+ * `clientContext` carries the authenticated caller (token, API key)
  */
 export async function handleStreamableHttp(
   req: Request,
   body: unknown,
   rpcHandler: (
     method: string,
-    params?: Record<string, unknown>
-  ) => Promise<unknown>
+    params?: Record<string, unknown>,
+    context?: RequestContext
+  ) => Promise<unknown>,
+  clientContext: RequestContext = {}
 ): Promise<Response> {
   const acceptHeader = req.headers.get('Accept') || '';
   const wantsSSE = acceptHeader.includes('text/event-stream');
@@ -333,64 +437,152 @@ export async function handleStreamableHttp(
     );
   }
 
-  // Get or create session from header
-  let sessionId = req.headers.get('Mcp-Session-Id');
-  const isNewSession = !sessionId;
+  const { maxBatchSize } = getRequestLimits();
+  if (Array.isArray(body) && body.length > maxBatchSize) {
+    logger.warn('Batch too large', { size: body.length, maxBatchSize });
+    return new Response(
+      JSON.stringify(
+        jsonRpcError(
+          null,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          `Batch too large: ${body.length} messages (maximum ${maxBatchSize})`
+        )
+      ),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
 
-  if (isNewSession) {
-    sessionId = crypto.randomUUID();
-    metrics.sessionsCreated++;
-    logger.info('New session created', { sessionId, wantsSSE });
+  // Sessions are only created by `initialize`; other IDs must be known
+  const headerSessionId = req.headers.get('Mcp-Session-Id');
+  const session = headerSessionId ? await findSession(headerSessionId, clientContext) : null;
+  if (headerSessionId && !session) {
+    return sessionNotFoundResponse(headerSessionId);
   }
+  let newSessionId: string | undefined;
 
   logger.debug('StreamableHTTP request', {
-    sessionId,
-    isNewSession,
+    sessionId: headerSessionId,
     wantsSSE,
+    subject: clientContext.auth?.subject,
     requestCount: Array.isArray(body) ? (body as unknown[]).length : 1,
   });
 
-  // Handle batch requests (array of JSON-RPC messages)
-  const requests = Array.isArray(body) ? body : [body];
-  const responses: unknown[] = [];
+  const context: RequestContext = {
+    ...clientContext,
+    sessionId: session?.id,
+    clientInfo: session?.clientInfo,
+    clientCapabilities: session?.capabilities,
+  };
 
-  for (const request of requests) {
-    const { id, method, params } = request as Record<string, unknown>;
+  // Handle batch requests (array of JSON-RPC messages). Responses answer
+  // requests the gateway sent the client on behalf of a backend (sampling).
+  const messages = (Array.isArray(body) ? body : [body]) as Record<string, unknown>[];
+  const requests = messages.filter((message) => {
+    if (!isJsonRpcResponse(message)) return true;
+    if (session) resolveClientResponse(session.id, message);
+    return false;
+  });
+  if (requests.length === 0) {
+    return new Response(null, { status: 202, headers: corsHeaders });
+  }
 
-    logger.debug('Processing RPC method', { sessionId, method });
+  // Create the session up front: an SSE response needs its ID in the headers
+  // before the first request completes
+  const initialize = requests.find(
+    (request) => request.method === 'initialize' && request.id !== undefined && request.id !== null
+  );
+  if (initialize) {
+    const owner = getSessionOwner(clientContext);
+    const created = await createMcpSession({
+      ...parseInitializeParams(initialize.params as Record<string, unknown> | undefined),
+      ...(owner && { owner }),
+    });
+    newSessionId = created.id;
+    context.sessionId = created.id;
+    context.clientInfo = created.clientInfo;
+    context.clientCapabilities = created.capabilities;
+    logger.info('New session created', {
+      sessionId: created.id,
+      protocolVersion: created.protocolVersion,
+      client: created.clientInfo?.name,
+      wantsSSE,
+    });
+  }
 
-    try {
-      const result = await rpcHandler(
-        method as string,
-        params as Record<string, unknown>
-      );
+  /**
+   * Run the requests in order. Responses go to `respond`, notifications sent
+   * ahead of them (progress) to `sendMessage`. Returns the number of
+   * requests the client cancelled.
+   */
+  const processRequests = async (
+    respond: (response: unknown) => void,
+    sendMessage: (message: Record<string, unknown>) => boolean
+  ): Promise<number> => {
+    let cancelledCount = 0;
+    for (const request of requests) {
+      const { id, method, params } = request;
+
+      logger.debug('Processing RPC method', { sessionId: context.sessionId, method });
+
+      // Requests in a session can be cancelled with notifications/cancelled
+      const tracked =
+        context.sessionId && id !== undefined && id !== null && method !== 'initialize'
+          ? trackRequest(context.sessionId, id as string | number)
+          : undefined;
 
-      // Only add response if it's not a notification (has id)
-      if (id !== undefined && id !== null) {
-        responses.push(jsonRpcResponse(id as string | number, result));
-      }
-    } catch (error) {
-      metrics.totalErrors++;
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-
-      // Determine appropriate JSON-RPC error code
-      let errorCode: number = JsonRpcErrorCode.INTERNAL_ERROR;
-      if (errorMessage.startsWith('Method not found:')) {
-        errorCode = JsonRpcErrorCode.METHOD_NOT_FOUND;
-      } else if (
-        errorMessage.includes('Invalid tool call') ||
-        errorMessage.includes('Invalid resource read') ||
-        errorMessage.includes('Invalid prompt request')
-      ) {
-        errorCode = JsonRpcErrorCode.INVALID_PARAMS;
-      }
+      try {
+        const result = await rpcHandler(
+          method as string,
+          params as Record<string, unknown>,
+          { ...context, signal: tracked?.signal, sendMessage }
+        );
+
+        // Only add response if it's not a notification (has id) or cancelled
+        if (tracked?.signal.aborted) {
+          cancelledCount++;
+        } else if (id !== undefined && id !== null) {
+          respond(jsonRpcResponse(id as string | number, result));
+        }
+      } catch (error) {
+        if (tracked?.signal.aborted) {
+          cancelledCount++;
+          continue;
+        }
+        metrics.totalErrors++;
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+
+        // Determine appropriate JSON-RPC error code
+        let errorCode: number = JsonRpcErrorCode.INTERNAL_ERROR;
+        if (errorMessage.startsWith('Method not found:')) {
+          errorCode = JsonRpcErrorCode.METHOD_NOT_FOUND;
+        } else if (errorMessage.startsWith('Access denied:')) {
+          errorCode = JsonRpcErrorCode.ACCESS_DENIED;
+        } else if (errorMessage.startsWith('Rate limit exceeded')) {
+          errorCode = JsonRpcErrorCode.RATE_LIMITED;
+        } else if (
+          errorMessage.includes('Invalid tool call') ||
+          errorMessage.includes('Invalid resource read') ||
+          errorMessage.includes('Invalid resource subscription') ||
+          errorMessage.includes('Invalid completion request') ||
+          errorMessage.includes('Invalid logging request') ||
+          errorMessage.includes('Invalid prompt request')
+        ) {
+          errorCode = JsonRpcErrorCode.INVALID_PARAMS;
+        }
 
-      if (id !== undefined && id !== null) {
-        responses.push(jsonRpcError(id as string | number, errorCode, errorMessage));
+        if (id !== undefined && id !== null) {
+          respond(jsonRpcError(id as string | number, errorCode, errorMessage));
+        }
+      } finally {
+        tracked?.done();
       }
     }
-  }
+    return cancelledCount;
+  };
 
   // Build response headers
   const responseHeaders: Record<string, string> = {
@@ -400,27 +592,52 @@ export async function handleStreamableHttp(
   };
 
   // Include session ID in response header for new sessions
-  if (isNewSession && sessionId) {
-    responseHeaders['Mcp-Session-Id'] = sessionId;
+  if (newSessionId) {
+    responseHeaders['Mcp-Session-Id'] = newSessionId;
   }
 
-  // If client wants SSE, stream the responses
+  // If client wants SSE, stream notifications and responses as they come
   if (wantsSSE) {
     const encoder = new TextEncoder();
     const stream = new ReadableStream<Uint8Array>({
-      start(controller) {
-        // Send each response as an SSE event
-        for (const response of responses) {
-          const event = `event: message\ndata: ${JSON.stringify(response)}\n\n`;
-          controller.enqueue(encoder.encode(event));
+      async start(controller) {
+        const write = (message: unknown) => {
+          try {
+            const event = `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+            controller.enqueue(encoder.encode(event));
+            return true;
+          } catch {
+            // Client went away
+            return false;
+          }
+        };
+        try {
+          await processRequests(write, write);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
         }
-        controller.close();
       },
     });
 
     return new Response(stream, { headers: responseHeaders });
   }
 
+  // Without an SSE response, notifications go to the session's GET stream
+  const responses: unknown[] = [];
+  const cancelledCount = await processRequests(
+    (response) => responses.push(response),
+    (message) => !!context.sessionId && sendSSE(context.sessionId, 'message', message)
+  );
+
+  // Nothing left to answer once the client cancelled its requests
+  if (responses.length === 0 && cancelledCount > 0) {
+    return new Response(null, { status: 202, headers: corsHeaders });
+  }
+
   // Return JSON response (single or batch)
   const responseBody = Array.isArray(body)
     ? responses
@@ -432,9 +649,104 @@ export async function handleStreamableHttp(
 }
 
 /**
- * Handle GET /mcp for SSE stream
+ * Session state from the params of an `initialize` request
+ */
+function parseInitializeParams(
+  params: Record<string, unknown> | undefined
+): Pick<McpSession, 'protocolVersion' | 'clientInfo' | 'capabilities'> {
+  const clientInfo = params?.clientInfo as Record<string, unknown> | undefined;
+  const capabilities = params?.capabilities;
+  return {
+    protocolVersion: typeof params?.protocolVersion === 'string'
+      ? params.protocolVersion
+      : SERVER_INFO.protocolVersion,
+    // Remember who the client says it is, for access policies
+    ...(typeof clientInfo?.name === 'string' && {
+      clientInfo: {
+        name: clientInfo.name,
+        version: typeof clientInfo.version === 'string' ? clientInfo.version : undefined,
+      },
+    }),
+    capabilities: capabilities && typeof capabilities === 'object' && !Array.isArray(capabilities)
+      ? capabilities as Record<string, unknown>
+      : {},
+  };
+}
+
+/**
+ * Look up the session a request names. Sessions are only found by the
+ * caller that created them. What an expired session held is released.
+ */
+async function findSession(
+  sessionId: string,
+  clientContext: RequestContext
+): Promise<McpSession | null> {
+  const session = await getMcpSession(sessionId);
+  if (!session) {
+    await releaseSession(sessionId);
+    return null;
+  }
+  if (session.owner !== getSessionOwner(clientContext)) {
+    logger.warn('Session used by another caller', { subject: clientContext.auth?.subject });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Release what a session that ended holds: its backend sessions and their
+ * streams, resource subscriptions and log level
+ */
+async function releaseSession(sessionId: string): Promise<void> {
+  stopClientBackendStreams(sessionId);
+  await closeBackendSessions(sessionId);
+  await releaseSubscriptions(sessionId);
+  clearSessionLogLevel(sessionId);
+}
+
+/**
+ * Release what MCP sessions that expired while idle held. Run periodically,
+ * as such sessions may never be looked up again.
+ */
+export async function sweepExpiredSessions(): Promise<number> {
+  const expired = await expireMcpSessions();
+  for (const sessionId of expired) {
+    await releaseSession(sessionId);
+    logger.info('Session expired', { sessionId });
+  }
+  return expired.length;
+}
+
+/**
+ * 404 for unknown or expired session IDs, telling the client to re-initialize
+ */
+function sessionNotFoundResponse(sessionId: string): Response {
+  logger.info('Unknown or expired session', { sessionId });
+  return new Response(
+    JSON.stringify(
+      jsonRpcError(
+        null,
+        JsonRpcErrorCode.INVALID_REQUEST,
+        'Session not found: send a new initialize request'
+      )
+    ),
+    {
+      status: 404,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    }
+  );
+}
+
+/**
+ * Handle GET /mcp for SSE stream of an existing session
+ * `servers` are watched for notifications to relay on the stream, and for
+ * requests on the backend sessions of the authenticated client (`clientContext`)
  */
-export function handleMcpGetStream(sessionId: string | null): Response {
+export async function handleMcpGetStream(
+  sessionId: string | null,
+  servers: BackendServer[],
+  clientContext: RequestContext = {}
+): Promise<Response> {
   if (!sessionId) {
     return new Response(
       JSON.stringify({
@@ -446,6 +758,21 @@ export function handleMcpGetStream(sessionId: string | null): Response {
       }
     );
   }
+  const mcpSession = await findSession(sessionId, clientContext);
+  if (!mcpSession) {
+    return sessionNotFoundResponse(sessionId);
+  }
+  watchBackendStreams(servers);
+
+  // Backend sessions of the client carry requests meant for it, e.g. sampling
+  const access = createAccessControl(
+    await kv.listAccessPolicies(),
+    getClientIdentity({ ...clientContext, clientInfo: mcpSession.clientInfo })
+  );
+  watchClientBackendStreams(
+    servers.filter((server) => access.isAllowed({ kind: 'server', serverId: server.id })),
+    mcpSession
+  );
 
   const encoder = new TextEncoder();
 
@@ -456,6 +783,7 @@ export function handleMcpGetStream(sessionId: string | null): Response {
         controller,
         encoder,
         createdAt: Date.now(),
+        owner: getSessionOwner(clientContext),
       });
 
       // Keep-alive ping every 25 seconds
@@ -472,6 +800,7 @@ export function handleMcpGetStream(sessionId: string | null): Response {
       const abortHandler = () => {
         clearInterval(pingInterval);
         sessions.delete(sessionId);
+        stopClientBackendStreams(sessionId);
         try {
           controller.close();
         } catch {
@@ -487,6 +816,7 @@ export function handleMcpGetStream(sessionId: string | null): Response {
     },
     cancel() {
       sessions.delete(sessionId);
+      stopClientBackendStreams(sessionId);
     },
   });
 
@@ -504,33 +834,63 @@ export function handleMcpGetStream(sessionId: string | null): Response {
 /**
  * Handle DELETE /mcp to close session
  */
-export function handleMcpDeleteSession(sessionId: string | null): Response {
-  if (sessionId && sessions.has(sessionId)) {
-    const session = sessions.get(sessionId);
-    if (session) {
-      try {
-        session.controller.close();
-      } catch {
-        // Already closed
-      }
+export async function handleMcpDeleteSession(
+  sessionId: string | null,
+  clientContext: RequestContext = {}
+): Promise<Response> {
+  if (sessionId) {
+    if (!(await findSession(sessionId, clientContext))) {
+      return sessionNotFoundResponse(sessionId);
+    }
+    await releaseSession(sessionId);
+    if (!(await endMcpSession(sessionId))) {
+      return sessionNotFoundResponse(sessionId);
     }
-    sessions.delete(sessionId);
+    logger.info('Session ended', { sessionId });
   }
 
   return new Response(null, { status: 204, headers: corsHeaders });
 }
 
+/**
+ * Read an admin request body with `read` (within the configured request
+ * limits). Returns error response if rejected, the body otherwise.
+ */
+async function readAdminBody<T>(
+  req: Request,
+  read: (req: Request) => Promise<T>
+): Promise<{ body: T | null; error: Response | null }> {
+  try {
+    return { body: await read(req), error: null };
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      logger.warn('Admin request body rejected', {
+        path: new URL(req.url).pathname,
+        error: error.message,
+      });
+      return {
+        body: null,
+        error: jsonResponse({ error: error.message }, error.status, corsHeaders),
+      };
+    }
+    throw error;
+  }
+}
+
 /**
  * Handle registering a new server
  */
 export async function handleRegisterServer(
-  body: unknown,
+  req: Request,
   dynamicServers: Map<string, BackendServer>
 ): Promise<Response> {
-  const { id, name, endpoint, requiresSession } = body as Record<
-    string,
-    unknown
-  >;
+  const adminAuth = await authenticateAdmin(req);
+  if (adminAuth.error) return adminAuth.error;
+
+  const { body, error } = await readAdminBody(req, readJsonBody);
+  if (error) return error;
+  const { id, name, endpoint, requiresSession, auth, headers, outputFilters } =
+    (body ?? {}) as Record<string, unknown>;
 
   if (!id || !name || !endpoint) {
     return new Response(
@@ -551,26 +911,85 @@ export async function handleRegisterServer(
     );
   }
 
+  // Validate backend credentials
+  const credentialErrors = validateBackendCredentials({ auth, headers });
+  if (credentialErrors.length > 0) {
+    return new Response(
+      JSON.stringify({
+        error: 'Invalid backend credentials',
+        details: credentialErrors,
+      }),
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const filterErrors = validateOutputFilters(outputFilters);
+  if (filterErrors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid output filters', details: filterErrors }),
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  // Reject endpoints the gateway may not reach (SSRF protection)
+  const egressErrors = await checkServerEgress({
+    endpoint: endpoint as string,
+    auth,
+  });
+  if (egressErrors.length > 0) {
+    logger.warn('Server registration blocked by egress rules', {
+      serverId: id,
+      errors: egressErrors,
+    });
+    return new Response(
+      JSON.stringify({ error: 'Endpoint not allowed', details: egressErrors }),
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
   // Create server object
   const newServer: BackendServer = {
     id: id as string,
     name: name as string,
     endpoint: endpoint as string,
     requiresSession: (requiresSession as boolean) || false,
+    ...(auth !== undefined && { auth: auth as BackendServer['auth'] }),
+    ...(headers !== undefined && {
+      headers: headers as BackendServer['headers'],
+    }),
+    ...(outputFilters !== undefined && {
+      outputFilters: outputFilters as BackendServer['outputFilters'],
+    }),
   };
+  warnOnPlainTextCredentials(newServer);
+
+  const previous =
+    (await kv.getServer(newServer.id)) ?? dynamicServers.get(newServer.id) ?? null;
+
+  // Persist to KV storage, together with the audit entry
+  await kv.saveServer(
+    newServer,
+    createAuditEntry('server.register', adminAuth.identity, {
+      serverId: newServer.id,
+      before: previous,
+      after: newServer,
+    })
+  );
 
   // Add to dynamic registry (in-memory)
   dynamicServers.set(id as string, newServer);
-
-  // Persist to KV storage
-  await kv.saveServer(newServer);
+  clearToolSchemas(newServer.id);
+  clearBackendCapabilities(newServer.id);
+  restartBackendStream(newServer);
 
   logger.info('Server registered', {
+    actor: adminAuth.identity.keyId,
     serverId: newServer.id,
     name: newServer.name,
     endpoint: newServer.endpoint,
     requiresSession: newServer.requiresSession,
   });
+  broadcastListChanged();
 
   return new Response(
     JSON.stringify({
@@ -589,6 +1008,9 @@ export async function handleUploadConfig(
   req: Request,
   dynamicServers: Map<string, BackendServer>
 ): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req);
+  if (adminAuth.error) return adminAuth.error;
+
   const contentType = req.headers.get('content-type');
   if (!contentType || !contentType.includes('multipart/form-data')) {
     return jsonResponse(
@@ -598,9 +1020,12 @@ export async function handleUploadConfig(
     );
   }
 
-  const body = await req.arrayBuffer();
-  const uint8Array = new Uint8Array(body);
-  const text = new TextDecoder().decode(uint8Array);
+  const { body, error } = await readAdminBody(
+    req,
+    (r) => readBodyText(r, getRequestLimits().maxBodyBytes)
+  );
+  if (error) return error;
+  const text = body ?? '';
 
   // Simple multipart parser
   const boundaryMatch = contentType.match(/boundary=([^;]+)/);
@@ -648,6 +1073,21 @@ export async function handleUploadConfig(
 
   // Extract servers from config
   const servers = extractServersFromConfig(config);
+
+  // Resolve hostnames and reject endpoints the gateway may not reach
+  const egressErrors: string[] = [];
+  for (let i = 0; i < servers.length; i++) {
+    for (const error of await checkServerEgress(servers[i])) {
+      egressErrors.push(`Server ${i}: ${error}`);
+    }
+  }
+  if (egressErrors.length > 0) {
+    return jsonResponse(
+      { error: 'Invalid configuration', details: egressErrors },
+      400,
+      corsHeaders
+    );
+  }
   const failedIndices: number[] = [];
   const errors: string[] = [];
 
@@ -660,18 +1100,42 @@ export async function handleUploadConfig(
         name: server.name,
         endpoint: server.endpoint,
         requiresSession: server.requiresSession ?? false,
+        ...(server.auth && { auth: server.auth }),
+        ...(server.headers && { headers: server.headers }),
+        ...(server.outputFilters && { outputFilters: server.outputFilters }),
       };
+      warnOnPlainTextCredentials(backendServer);
+      const previous =
+        (await kv.getServer(server.id)) ?? dynamicServers.get(server.id) ?? null;
+      // Persist to KV storage, together with the audit entry
+      await kv.saveServer(
+        backendServer,
+        createAuditEntry('server.upload', adminAuth.identity, {
+          serverId: server.id,
+          before: previous,
+          after: backendServer,
+        })
+      );
       // Add to in-memory map
       dynamicServers.set(server.id, backendServer);
-      // Persist to KV storage
-      await kv.saveServer(backendServer);
+      clearToolSchemas(server.id);
+      clearBackendCapabilities(server.id);
+      restartBackendStream(backendServer);
     } catch (error) {
       failedIndices.push(i);
       errors.push(String(error));
     }
   }
 
-  const response = buildBulkUploadResponse(servers, failedIndices, errors);
+  if (failedIndices.length < servers.length) {
+    broadcastListChanged();
+  }
+
+  const response = buildBulkUploadResponse(
+    servers.map(redactServer),
+    failedIndices,
+    errors
+  );
   return jsonResponse(response, 200, corsHeaders);
 }
 
@@ -679,11 +1143,21 @@ export async function handleUploadConfig(
  * Handle deleting a registered server
  */
 export async function handleDeleteServer(
+  req: Request,
   serverId: string,
   dynamicServers: Map<string, BackendServer>
 ): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req);
+  if (adminAuth.error) return adminAuth.error;
+
+  const previous = (await kv.getServer(serverId)) ?? dynamicServers.get(serverId) ?? null;
+
   // Try to delete from KV first
-  const deleted = await kv.deleteServer(serverId);
+  const audit = createAuditEntry('server.delete', adminAuth.identity, {
+    serverId,
+    before: previous,
+  });
+  const deleted = await kv.deleteServer(serverId, audit);
 
   if (!deleted && !dynamicServers.has(serverId)) {
     logger.warn('Server deletion failed - not found', { serverId });
@@ -694,9 +1168,16 @@ export async function handleDeleteServer(
     );
   }
 
+  // Servers only known in memory have no KV mutation to go with
+  if (!deleted) await kv.appendAuditEntry(audit);
+
   // Also remove from in-memory map
   dynamicServers.delete(serverId);
-  logger.info('Server deleted', { serverId });
+  clearToolSchemas(serverId);
+  clearBackendCapabilities(serverId);
+  stopBackendStream(serverId);
+  logger.info('Server deleted', { actor: adminAuth.identity.keyId, serverId });
+  broadcastListChanged();
   return jsonResponse(
     { success: true, message: `Server ${serverId} deleted` },
     200,
@@ -704,6 +1185,298 @@ export async function handleDeleteServer(
   );
 }
 
+/**
+ * Handle resetting all circuit breakers
+ */
+export async function handleResetCircuitBreakers(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req);
+  if (adminAuth.error) return adminAuth.error;
+
+  await recordAudit('circuit-breakers.reset', adminAuth.identity);
+  circuitBreakerRegistry.resetAll();
+  logger.info('All circuit breakers reset', { actor: adminAuth.identity.keyId });
+  return jsonResponse(
+    {
+      status: 'success',
+      message: 'All circuit breakers have been reset',
+      circuitBreakers: circuitBreakerRegistry.getAllStatuses(),
+    },
+    200,
+    corsHeaders
+  );
+}
+
+/**
+ * Handle issuing a new admin API key (POST /mcp/admin/keys)
+ */
+export async function handleIssueAdminKey(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  // In open mode anyone could mint the first key and lock everybody else out
+  if (adminAuth.identity.source === 'open') {
+    return jsonResponse(
+      { error: 'Set ADMIN_API_KEY to issue admin keys' },
+      403,
+      corsHeaders
+    );
+  }
+
+  const { body, error } = await readAdminBody(req, readJsonBody);
+  if (error) return error;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return jsonResponse(
+      { error: 'Request body must be a JSON object' },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { name, role = 'operator' } = body as Record<string, unknown>;
+
+  if (!name || typeof name !== 'string') {
+    return jsonResponse(
+      { error: 'Missing required field: name' },
+      400,
+      corsHeaders
+    );
+  }
+
+  if (!isAdminRole(role)) {
+    return jsonResponse(
+      { error: 'Invalid role. Expected "client", "operator" or "admin"' },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { key, record } = await issueAdminKey(
+    name,
+    role,
+    createAuditEntry('admin-key.issue', adminAuth.identity)
+  );
+  logger.info('Admin key issued via API', {
+    actor: adminAuth.identity.keyId,
+    keyId: record.id,
+  });
+
+  // The plain key is only ever returned in this response
+  return jsonResponse({ ...toAdminKeyInfo(record), key }, 201, corsHeaders);
+}
+
+/**
+ * Handle listing admin API keys (GET /mcp/admin/keys)
+ */
+export async function handleListAdminKeys(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const keys = await kv.listAdminKeys();
+  return jsonResponse({ keys: keys.map(toAdminKeyInfo) }, 200, corsHeaders);
+}
+
+/**
+ * Handle revoking an admin API key (DELETE /mcp/admin/keys/{keyId})
+ */
+export async function handleRevokeAdminKey(
+  req: Request,
+  keyId: string
+): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const revoked = await kv.revokeAdminKey(
+    keyId,
+    createAuditEntry('admin-key.revoke', adminAuth.identity, { targetId: keyId })
+  );
+  if (!revoked) {
+    return jsonResponse(
+      { error: `Admin key not found: ${keyId}` },
+      404,
+      corsHeaders
+    );
+  }
+
+  logger.info('Admin key revoked', { actor: adminAuth.identity.keyId, keyId });
+  return jsonResponse(
+    { success: true, key: toAdminKeyInfo(revoked) },
+    200,
+    corsHeaders
+  );
+}
+
+/**
+ * Handle creating or replacing an access policy (POST /mcp/admin/policies)
+ */
+export async function handleSaveAccessPolicy(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const { body: parsed, error } = await readAdminBody(req, readJsonBody);
+  if (error) return error;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return jsonResponse(
+      { error: 'Invalid access policy', details: ['Request body must be a JSON object'] },
+      400,
+      corsHeaders
+    );
+  }
+
+  const body = parsed as Record<string, unknown>;
+  const errors = validateAccessPolicy(body);
+  if (errors.length > 0) {
+    return jsonResponse(
+      { error: 'Invalid access policy', details: errors },
+      400,
+      corsHeaders
+    );
+  }
+
+  const existing = await kv.getAccessPolicy(body.id as string);
+  const now = new Date().toISOString();
+  const policy: AccessPolicy = {
+    id: body.id as string,
+    ...(body.description !== undefined && {
+      description: body.description as string,
+    }),
+    subjects: body.subjects as string[],
+    rules: body.rules as AccessPolicy['rules'],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await kv.saveAccessPolicy(
+    policy,
+    createAuditEntry('access-policy.save', adminAuth.identity, { targetId: policy.id })
+  );
+
+  logger.info('Access policy saved', {
+    actor: adminAuth.identity.keyId,
+    policyId: policy.id,
+    created: !existing,
+  });
+  return jsonResponse({ policy }, existing ? 200 : 201, corsHeaders);
+}
+
+/**
+ * Handle listing access policies (GET /mcp/admin/policies)
+ */
+export async function handleListAccessPolicies(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const policies = await kv.listAccessPolicies();
+  return jsonResponse({ policies }, 200, corsHeaders);
+}
+
+/**
+ * Handle deleting an access policy (DELETE /mcp/admin/policies/{policyId})
+ */
+export async function handleDeleteAccessPolicy(
+  req: Request,
+  policyId: string
+): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const deleted = await kv.deleteAccessPolicy(
+    policyId,
+    createAuditEntry('access-policy.delete', adminAuth.identity, { targetId: policyId })
+  );
+  if (!deleted) {
+    return jsonResponse(
+      { error: `Access policy not found: ${policyId}` },
+      404,
+      corsHeaders
+    );
+  }
+
+  logger.info('Access policy deleted', { actor: adminAuth.identity.keyId, policyId });
+  return jsonResponse(
+    { success: true, message: `Access policy ${policyId} deleted` },
+    200,
+    corsHeaders
+  );
+}
+
+/**
+ * Handle querying the audit log (GET /mcp/audit)
+ */
+export async function handleListAuditLog(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const { query, errors } = parseAuditQuery(new URL(req.url).searchParams);
+  if (errors.length > 0) {
+    return jsonResponse(
+      { error: 'Invalid audit query', details: errors },
+      400,
+      corsHeaders
+    );
+  }
+
+  try {
+    const page = await kv.listAuditEntries(query);
+    return jsonResponse(page, 200, corsHeaders);
+  } catch (error) {
+    // Deno KV throws on cursors it cannot decode
+    if (query.cursor) {
+      return jsonResponse({ error: 'Invalid cursor' }, 400, corsHeaders);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle listing tool pins and integrity alerts (GET /mcp/admin/tools)
+ * Optional `serverId` query parameter limits the listing to one server.
+ */
+export async function handleListToolPins(req: Request): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const serverId = new URL(req.url).searchParams.get('serverId') ?? undefined;
+  const pins = await kv.listToolPins(serverId);
+  const alerts = (await kv.listToolAlerts(TOOL_ALERT_LIMIT)).filter(
+    (alert) => serverId === undefined || alert.serverId === serverId
+  );
+  return jsonResponse(
+    { policy: getToolIntegrityPolicy(), pins, alerts },
+    200,
+    corsHeaders
+  );
+}
+
+/**
+ * Handle approving a tool's current definition
+ * (POST /mcp/admin/tools/{toolName}/approve)
+ */
+export async function handleApproveToolPin(
+  req: Request,
+  toolName: string
+): Promise<Response> {
+  const adminAuth = await authenticateAdmin(req, 'admin');
+  if (adminAuth.error) return adminAuth.error;
+
+  const approval = await approveToolPin(
+    toolName,
+    createAuditEntry('tool-pin.approve', adminAuth.identity, { targetId: toolName })
+  );
+  if (!approval) {
+    return jsonResponse(
+      { error: `Tool pin not found: ${toolName}` },
+      404,
+      corsHeaders
+    );
+  }
+
+  logger.info('Tool pin approved', {
+    actor: adminAuth.identity.keyId,
+    toolName,
+    hash: approval.after.hash,
+  });
+  return jsonResponse({ success: true, pin: approval.after }, 200, corsHeaders);
+}
+
 /**
  * Handle server health check
  */
@@ -726,8 +1499,9 @@ export async function handleServerHealth(
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 5000);
 
-    const response = await fetch(server.endpoint, {
+    const response = await egressFetch(server.endpoint, {
       method: 'GET',
+      headers: await buildBackendHeaders(server),
       signal: controller.signal,
     });
 
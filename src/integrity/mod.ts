@@ -0,0 +1,15 @@
+/**
+ * Integrity Module Exports
+ *
+ * Main entry point for tool poisoning and rug-pull detection
+ */
+
+export {
+  approveToolPin,
+  assertToolNotQuarantined,
+  checkToolIntegrity,
+  hashToolDefinition,
+  scanToolDefinition,
+  toSkeleton,
+  ToolQuarantinedError,
+} from './toolIntegrity.ts';
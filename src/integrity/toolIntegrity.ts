@@ -0,0 +1,325 @@
+/**
+ * Tool Integrity
+ *
+ * Protects clients against tool poisoning and rug pulls: every backend tool
+ * definition is pinned by hash the first time it is seen, later changes and
+ * suspicious content (hidden Unicode, homoglyph names, instruction-like
+ * phrases) raise alerts, and the configured policy decides whether affected
+ * tools are quarantined, warned about or allowed.
+ */
+
+import * as kv from '../kv.ts';
+import { logger } from '../logger.ts';
+import { getToolIntegrityPolicy } from '../config.ts';
+import type {
+  AuditEntry,
+  ToolAlert,
+  ToolFinding,
+  ToolIntegrityPolicy,
+  ToolPin,
+} from '../types.ts';
+
+/**
+ * Thrown when calling a tool that is quarantined pending review
+ */
+export class ToolQuarantinedError extends Error {
+  constructor(public readonly toolName: string) {
+    super(`Access denied: tool ${toolName} is quarantined pending review`);
+    this.name = 'ToolQuarantinedError';
+  }
+}
+
+/** Fields of a tool definition covered by the pinned hash */
+const HASHED_FIELDS = [
+  'name',
+  'title',
+  'description',
+  'inputSchema',
+  'outputSchema',
+  'annotations',
+];
+
+/** Zero-width, bidi control, soft hyphen and tag characters */
+const HIDDEN_UNICODE =
+  /[\u00AD\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]|[\u{E0000}-\u{E007F}]/gu;
+
+/**
+ * Cyrillic and Greek letters that render like Latin ones, mapped
+ * position by position to the Latin letters in HOMOGLYPH_TARGETS
+ */
+const HOMOGLYPHS =
+  '\u0430\u0432\u0435\u043A\u043C\u043D\u043E\u0440\u0441\u0442\u0443\u0445' +
+  '\u0456\u0458\u0455\u0501\u051B\u051D\u0410\u0412\u0415\u041A\u041C\u041D' +
+  '\u041E\u0420\u0421\u0422\u0425\u03B1\u03B5\u03B9\u03BA\u03BD\u03BF\u03C1' +
+  '\u03C4\u03C5\u03C7\u0391\u0392\u0395\u0396\u0397\u0399\u039A\u039C\u039D' +
+  '\u039F\u03A1\u03A4\u03A5\u03A7';
+const HOMOGLYPH_TARGETS = 'abekmhopctyxijsdqwABEKMHOPCTXaeikvoptuxABEZHIKMNOPTYX';
+
+/** Phrases that address the model rather than describe the tool */
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget)\b.{0,40}\b(?:instructions|prompts?|rules)\b/i,
+  /<\/?(?:important|system|instructions?|secret)>/i,
+  /\b(?:do not|don't|never)\s+(?:tell|inform|mention|reveal|show)\b.{0,40}\buser\b/i,
+  /\bsystem prompt\b/i,
+  /\byou are now\b/i,
+  /~\/\.ssh|\bid_rsa\b|\bmcp\.json\b|\bprivate key\b/i,
+];
+
+const MAX_SCAN_DEPTH = 20;
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 (hex) of the canonical tool definition
+ */
+export async function hashToolDefinition(tool: Record<string, unknown>): Promise<string> {
+  const definition: Record<string, unknown> = {};
+  for (const field of HASHED_FIELDS) {
+    definition[field] = tool[field];
+  }
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(canonicalJson(definition))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Collect all strings of a definition together with their dotted path
+ */
+function collectStrings(
+  value: unknown,
+  path: string,
+  out: Array<[string, string]>,
+  depth = 0
+): void {
+  if (depth > MAX_SCAN_DEPTH) return;
+  if (typeof value === 'string') {
+    out.push([path, value]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, `${path}[${i}]`, out, depth + 1));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      collectStrings(key, `${path}.${key}(key)`, out, depth + 1);
+      collectStrings(item, `${path}.${key}`, out, depth + 1);
+    }
+  }
+}
+
+/**
+ * Replace homoglyphs with the Latin letters they imitate
+ */
+export function toSkeleton(text: string): string {
+  return [...text.normalize('NFKC')]
+    .map((c) => {
+      const index = HOMOGLYPHS.indexOf(c);
+      return index === -1 ? c : HOMOGLYPH_TARGETS[index];
+    })
+    .join('');
+}
+
+/**
+ * Scan a tool definition for hidden Unicode, homoglyph names and
+ * instruction-like phrases
+ */
+export function scanToolDefinition(tool: Record<string, unknown>): ToolFinding[] {
+  const findings: ToolFinding[] = [];
+
+  const name = typeof tool.name === 'string' ? tool.name : '';
+  const skeleton = toSkeleton(name.replace(HIDDEN_UNICODE, ''));
+  if (skeleton !== name.replace(HIDDEN_UNICODE, '')) {
+    findings.push({ kind: 'homoglyph', detail: `name imitates "${skeleton}"` });
+  }
+
+  const strings: Array<[string, string]> = [];
+  for (const field of HASHED_FIELDS) {
+    collectStrings(tool[field], field, strings);
+  }
+  for (const [path, text] of strings) {
+    const hidden = new Set(text.match(HIDDEN_UNICODE) ?? []);
+    if (hidden.size > 0) {
+      const codes = [...hidden].map((c) =>
+        `U+${c.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`
+      );
+      findings.push({ kind: 'hidden-unicode', detail: `${codes.join(', ')} in ${path}` });
+    }
+    for (const pattern of INSTRUCTION_PATTERNS) {
+      const match = text.replace(HIDDEN_UNICODE, '').match(pattern);
+      if (match) {
+        findings.push({ kind: 'instruction', detail: `"${match[0]}" in ${path}` });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Record an alert for findings on a tool and log it according to the policy
+ */
+async function raiseAlert(
+  pin: ToolPin,
+  hash: string,
+  findings: ToolFinding[],
+  policy: ToolIntegrityPolicy
+): Promise<void> {
+  const now = Date.now();
+  const alert: ToolAlert = {
+    id: `${now}-${crypto.randomUUID().slice(0, 8)}`,
+    timestamp: new Date(now).toISOString(),
+    serverId: pin.serverId,
+    name: pin.name,
+    hash,
+    findings,
+    action: policy === 'quarantine' ? 'quarantined' : policy === 'warn' ? 'warned' : 'allowed',
+  };
+  await kv.appendToolAlert(alert);
+
+  const data = {
+    serverId: pin.serverId,
+    toolName: pin.name,
+    action: alert.action,
+    findings: findings.map((f) => f.kind),
+  };
+  if (policy === 'allow') {
+    logger.info('Tool integrity alert', data);
+  } else {
+    logger.warn('Tool integrity alert', data);
+  }
+}
+
+/**
+ * Pin a tool seen for the first time, or compare it against its pin
+ */
+async function checkTool(
+  serverId: string,
+  tool: Record<string, unknown>,
+  pin: ToolPin | undefined,
+  policy: ToolIntegrityPolicy
+): Promise<ToolPin> {
+  const hash = await hashToolDefinition(tool);
+
+  if (!pin) {
+    const findings = scanToolDefinition(tool);
+    const created: ToolPin = {
+      serverId,
+      name: tool.name as string,
+      hash,
+      pinnedAt: new Date().toISOString(),
+      quarantined: policy === 'quarantine' && findings.length > 0,
+      findings,
+    };
+    if (!(await kv.saveToolPin(created, true))) {
+      // Pinned concurrently by another request
+      return (await kv.getToolPin(serverId, created.name)) ?? created;
+    }
+    if (findings.length > 0) {
+      await raiseAlert(created, hash, findings, policy);
+    }
+    return created;
+  }
+
+  if (hash === pin.hash || hash === pin.pendingHash) {
+    return pin;
+  }
+
+  const findings: ToolFinding[] = [
+    {
+      kind: 'definition-changed',
+      detail: `hash changed from ${pin.hash.slice(0, 12)} to ${hash.slice(0, 12)}`,
+    },
+    ...scanToolDefinition(tool),
+  ];
+  const updated: ToolPin = {
+    ...pin,
+    pendingHash: hash,
+    quarantined: pin.quarantined || policy === 'quarantine',
+    findings,
+  };
+  await kv.saveToolPin(updated);
+  await raiseAlert(updated, hash, findings, policy);
+  return updated;
+}
+
+/**
+ * Check a server's tools (names already namespaced) against their pins.
+ * Returns the tools that may be served to clients.
+ */
+export async function checkToolIntegrity(
+  serverId: string,
+  tools: unknown[],
+  policy: ToolIntegrityPolicy = getToolIntegrityPolicy()
+): Promise<unknown[]> {
+  if (tools.length === 0) return tools;
+
+  const pins = new Map((await kv.listToolPins(serverId)).map((pin) => [pin.name, pin]));
+  const served: unknown[] = [];
+  for (const tool of tools) {
+    const t = tool as Record<string, unknown>;
+    const pin = await checkTool(serverId, t, pins.get(t.name as string), policy);
+    if (!(policy === 'quarantine' && pin.quarantined)) {
+      served.push(tool);
+    }
+  }
+  return served;
+}
+
+/**
+ * Reject calls to quarantined tools (only enforced under the quarantine policy)
+ */
+export async function assertToolNotQuarantined(
+  serverId: string,
+  name: string,
+  policy: ToolIntegrityPolicy = getToolIntegrityPolicy()
+): Promise<void> {
+  if (policy !== 'quarantine') return;
+  const pin = await kv.getToolPin(serverId, name);
+  if (pin?.quarantined) {
+    logger.warn('Call to quarantined tool rejected', { serverId, toolName: name });
+    throw new ToolQuarantinedError(name);
+  }
+}
+
+/**
+ * Accept a tool's current definition: re-pin it and lift any quarantine.
+ * Returns the pin before and after, or null if the tool was never pinned.
+ * `audit` is stored with the pin, its server set to the tool's.
+ */
+export async function approveToolPin(
+  name: string,
+  audit?: AuditEntry
+): Promise<{ before: ToolPin; after: ToolPin } | null> {
+  const separatorIndex = name.indexOf('__');
+  if (separatorIndex === -1) return null;
+  const before = await kv.getToolPin(name.substring(0, separatorIndex), name);
+  if (!before) return null;
+
+  const { pendingHash: _pending, ...rest } = before;
+  const after: ToolPin = {
+    ...rest,
+    hash: before.pendingHash ?? before.hash,
+    pinnedAt: new Date().toISOString(),
+    quarantined: false,
+    findings: [],
+  };
+  await kv.saveToolPin(after, false, audit && { ...audit, serverId: after.serverId });
+  return { before, after };
+}
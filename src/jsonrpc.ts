@@ -12,6 +12,8 @@ export const JsonRpcErrorCode = {
   METHOD_NOT_FOUND: -32601, // Method does not exist
   INVALID_PARAMS: -32602,   // Invalid method parameters
   INTERNAL_ERROR: -32603,   // Internal JSON-RPC error
+  ACCESS_DENIED: -32001,    // Server-defined: denied by an access policy
+  RATE_LIMITED: -32002,     // Server-defined: rate limit exceeded
 } as const;
 
 export const jsonRpcResponse = (
@@ -32,3 +34,33 @@ export const jsonRpcError = (
   id,
   error: { code, message },
 });
+
+export const jsonRpcNotification = (
+  method: string,
+  params?: Record<string, unknown>
+) => ({
+  jsonrpc: '2.0' as const,
+  method,
+  ...(params && { params }),
+});
+
+export const jsonRpcRequest = (
+  id: string | number,
+  method: string,
+  params?: Record<string, unknown>
+) => ({
+  jsonrpc: '2.0' as const,
+  id,
+  method,
+  ...(params && { params }),
+});
+
+/**
+ * Whether a message is a response (result or error) rather than a request
+ * or notification
+ */
+export const isJsonRpcResponse = (message: Record<string, unknown>) =>
+  message.method === undefined &&
+  message.id !== undefined &&
+  message.id !== null &&
+  ('result' in message || 'error' in message);
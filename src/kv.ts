@@ -5,10 +5,27 @@
  * Uses Deno KV for cross-isolate persistence on Deno Deploy.
  */
 
-import type { BackendServer } from './types.ts';
+import type {
+  AccessPolicy,
+  AdminKeyRecord,
+  AuditEntry,
+  AuditQuery,
+  BackendServer,
+  McpSession,
+  ToolAlert,
+  ToolPin,
+} from './types.ts';
 import { logger } from './logger.ts';
 
 const SERVERS_PREFIX = ['dynamic_servers'];
+const ADMIN_KEYS_PREFIX = ['admin_keys'];
+const ADMIN_KEY_HASHES_PREFIX = ['admin_key_hashes'];
+const ACCESS_POLICIES_PREFIX = ['access_policies'];
+const RATE_LIMIT_PREFIX = ['rate_limits'];
+const AUDIT_LOG_PREFIX = ['audit_log'];
+const TOOL_PINS_PREFIX = ['tool_pins'];
+const TOOL_ALERTS_PREFIX = ['tool_alerts'];
+const MCP_SESSIONS_PREFIX = ['mcp_sessions'];
 
 let kv: Deno.Kv | null = null;
 
@@ -23,11 +40,31 @@ async function getKv(): Promise<Deno.Kv> {
 }
 
 /**
- * Save a server to KV storage
+ * Add an audit entry to an atomic operation, so it is written if and only
+ * if the mutation is
  */
-export async function saveServer(server: BackendServer): Promise<void> {
+function withAudit(op: Deno.AtomicOperation, audit?: AuditEntry): Deno.AtomicOperation {
+  if (!audit) return op;
+  const key = [...AUDIT_LOG_PREFIX, Date.parse(audit.timestamp), audit.id];
+  return op.check({ key, versionstamp: null }).set(key, audit);
+}
+
+/**
+ * Commit a mutation together with its audit entry
+ */
+async function commitWithAudit(op: Deno.AtomicOperation, audit?: AuditEntry): Promise<void> {
+  const result = await withAudit(op, audit).commit();
+  if (!result.ok) {
+    throw new Error(`Audit entry already exists: ${audit?.id}`);
+  }
+}
+
+/**
+ * Save a server to KV storage, with the audit entry of the change if given
+ */
+export async function saveServer(server: BackendServer, audit?: AuditEntry): Promise<void> {
   const store = await getKv();
-  await store.set([...SERVERS_PREFIX, server.id], server);
+  await commitWithAudit(store.atomic().set([...SERVERS_PREFIX, server.id], server), audit);
   logger.info('Server saved to KV', { serverId: server.id });
 }
 
@@ -41,15 +78,15 @@ export async function getServer(id: string): Promise<BackendServer | null> {
 }
 
 /**
- * Delete a server from KV storage
+ * Delete a server from KV storage, with the audit entry of the change if given
  */
-export async function deleteServer(id: string): Promise<boolean> {
+export async function deleteServer(id: string, audit?: AuditEntry): Promise<boolean> {
   const store = await getKv();
   const existing = await store.get([...SERVERS_PREFIX, id]);
   if (!existing.value) {
     return false;
   }
-  await store.delete([...SERVERS_PREFIX, id]);
+  await commitWithAudit(store.atomic().delete([...SERVERS_PREFIX, id]), audit);
   logger.info('Server deleted from KV', { serverId: id });
   return true;
 }
@@ -96,6 +133,312 @@ export async function syncToMap(map: Map<string, BackendServer>): Promise<void>
   logger.info('Synced KV to in-memory map', { count: servers.length });
 }
 
+/**
+ * Save an admin API key record together with its hash lookup entry and the
+ * audit entry of the change if given
+ */
+export async function saveAdminKey(record: AdminKeyRecord, audit?: AuditEntry): Promise<void> {
+  const store = await getKv();
+  await commitWithAudit(
+    store
+      .atomic()
+      .set([...ADMIN_KEYS_PREFIX, record.id], record)
+      .set([...ADMIN_KEY_HASHES_PREFIX, record.hash], record.id),
+    audit
+  );
+  logger.info('Admin key saved to KV', { keyId: record.id, role: record.role });
+}
+
+/**
+ * Look up an active (non-revoked) admin key by the hash of its value
+ */
+export async function getAdminKeyByHash(
+  hash: string
+): Promise<AdminKeyRecord | null> {
+  const store = await getKv();
+  const index = await store.get<string>([...ADMIN_KEY_HASHES_PREFIX, hash]);
+  if (!index.value) {
+    return null;
+  }
+  const result = await store.get<AdminKeyRecord>([
+    ...ADMIN_KEYS_PREFIX,
+    index.value,
+  ]);
+  if (!result.value || result.value.revokedAt) {
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * List all admin key records, including revoked ones
+ */
+export async function listAdminKeys(): Promise<AdminKeyRecord[]> {
+  const store = await getKv();
+  const keys: AdminKeyRecord[] = [];
+
+  const iter = store.list<AdminKeyRecord>({ prefix: ADMIN_KEYS_PREFIX });
+  for await (const entry of iter) {
+    if (entry.value) {
+      keys.push(entry.value);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Revoke an admin key. The record is kept for auditing, but its hash lookup
+ * entry is removed so the key no longer authenticates.
+ */
+export async function revokeAdminKey(
+  id: string,
+  audit?: AuditEntry
+): Promise<AdminKeyRecord | null> {
+  const store = await getKv();
+  const existing = await store.get<AdminKeyRecord>([...ADMIN_KEYS_PREFIX, id]);
+  if (!existing.value) {
+    return null;
+  }
+
+  const revoked: AdminKeyRecord = {
+    ...existing.value,
+    revokedAt: existing.value.revokedAt ?? new Date().toISOString(),
+  };
+  await commitWithAudit(
+    store
+      .atomic()
+      .set([...ADMIN_KEYS_PREFIX, id], revoked)
+      .delete([...ADMIN_KEY_HASHES_PREFIX, revoked.hash]),
+    audit
+  );
+  logger.info('Admin key revoked in KV', { keyId: id });
+  return revoked;
+}
+
+/**
+ * Check whether at least one active admin key has been issued
+ */
+export async function hasActiveAdminKeys(): Promise<boolean> {
+  const store = await getKv();
+  const iter = store.list({ prefix: ADMIN_KEY_HASHES_PREFIX }, { limit: 1 });
+  for await (const _entry of iter) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Save (create or replace) an access policy, with the audit entry of the
+ * change if given
+ */
+export async function saveAccessPolicy(policy: AccessPolicy, audit?: AuditEntry): Promise<void> {
+  const store = await getKv();
+  await commitWithAudit(store.atomic().set([...ACCESS_POLICIES_PREFIX, policy.id], policy), audit);
+  logger.info('Access policy saved to KV', { policyId: policy.id });
+}
+
+/**
+ * Get an access policy by ID
+ */
+export async function getAccessPolicy(id: string): Promise<AccessPolicy | null> {
+  const store = await getKv();
+  const result = await store.get<AccessPolicy>([...ACCESS_POLICIES_PREFIX, id]);
+  return result.value;
+}
+
+/**
+ * List all access policies
+ */
+export async function listAccessPolicies(): Promise<AccessPolicy[]> {
+  const store = await getKv();
+  const policies: AccessPolicy[] = [];
+
+  const iter = store.list<AccessPolicy>({ prefix: ACCESS_POLICIES_PREFIX });
+  for await (const entry of iter) {
+    if (entry.value) {
+      policies.push(entry.value);
+    }
+  }
+
+  return policies;
+}
+
+/**
+ * Delete an access policy, with the audit entry of the change if given
+ */
+export async function deleteAccessPolicy(id: string, audit?: AuditEntry): Promise<boolean> {
+  const store = await getKv();
+  const existing = await store.get([...ACCESS_POLICIES_PREFIX, id]);
+  if (!existing.value) {
+    return false;
+  }
+  await commitWithAudit(store.atomic().delete([...ACCESS_POLICIES_PREFIX, id]), audit);
+  logger.info('Access policy deleted from KV', { policyId: id });
+  return true;
+}
+
+/**
+ * Append an entry to the audit log. Entries are keyed by time and never
+ * overwritten or deleted.
+ */
+export async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const store = await getKv();
+  await commitWithAudit(store.atomic(), entry);
+}
+
+/**
+ * List audit log entries between `from` and `to` (both inclusive), newest first.
+ * Returns a cursor for the next page while the page is full.
+ */
+export async function listAuditEntries(
+  query: AuditQuery
+): Promise<{ entries: AuditEntry[]; cursor: string | null }> {
+  const store = await getKv();
+  const iter = store.list<AuditEntry>(
+    {
+      start: [...AUDIT_LOG_PREFIX, query.from ?? 0],
+      end: [...AUDIT_LOG_PREFIX, query.to !== undefined ? query.to + 1 : Number.MAX_SAFE_INTEGER],
+    },
+    { reverse: true, cursor: query.cursor }
+  );
+
+  const entries: AuditEntry[] = [];
+  for await (const entry of iter) {
+    if (!query.actions || query.actions.includes(entry.value.action)) {
+      entries.push(entry.value);
+      if (entries.length >= query.limit) {
+        return { entries, cursor: iter.cursor };
+      }
+    }
+  }
+  return { entries, cursor: null };
+}
+
+/**
+ * Save a tool pin, with the audit entry of the change if given. Creating a
+ * pin only succeeds if none exists yet, so concurrent tools/list calls
+ * cannot overwrite each other's first pin.
+ */
+export async function saveToolPin(
+  pin: ToolPin,
+  create = false,
+  audit?: AuditEntry
+): Promise<boolean> {
+  const store = await getKv();
+  const key = [...TOOL_PINS_PREFIX, pin.serverId, pin.name];
+  if (!create) {
+    await commitWithAudit(store.atomic().set(key, pin), audit);
+    return true;
+  }
+  const op = store.atomic().check({ key, versionstamp: null }).set(key, pin);
+  return (await withAudit(op, audit).commit()).ok;
+}
+
+/**
+ * Get the pin of a namespaced tool
+ */
+export async function getToolPin(serverId: string, name: string): Promise<ToolPin | null> {
+  const store = await getKv();
+  const result = await store.get<ToolPin>([...TOOL_PINS_PREFIX, serverId, name]);
+  return result.value;
+}
+
+/**
+ * List tool pins, optionally for a single server
+ */
+export async function listToolPins(serverId?: string): Promise<ToolPin[]> {
+  const store = await getKv();
+  const pins: ToolPin[] = [];
+
+  const prefix = serverId === undefined ? TOOL_PINS_PREFIX : [...TOOL_PINS_PREFIX, serverId];
+  for await (const entry of store.list<ToolPin>({ prefix })) {
+    if (entry.value) {
+      pins.push(entry.value);
+    }
+  }
+
+  return pins;
+}
+
+/**
+ * Append a tool integrity alert
+ */
+export async function appendToolAlert(alert: ToolAlert): Promise<void> {
+  const store = await getKv();
+  await store.set([...TOOL_ALERTS_PREFIX, Date.parse(alert.timestamp), alert.id], alert);
+}
+
+/**
+ * List tool integrity alerts, newest first
+ */
+export async function listToolAlerts(limit: number): Promise<ToolAlert[]> {
+  const store = await getKv();
+  const alerts: ToolAlert[] = [];
+
+  const iter = store.list<ToolAlert>({ prefix: TOOL_ALERTS_PREFIX }, { reverse: true, limit });
+  for await (const entry of iter) {
+    alerts.push(entry.value);
+  }
+
+  return alerts;
+}
+
+/**
+ * Save an MCP session. It expires unless saved again within `expireInMs`.
+ */
+export async function saveMcpSession(session: McpSession, expireInMs: number): Promise<void> {
+  const store = await getKv();
+  await store.set([...MCP_SESSIONS_PREFIX, session.id], session, { expireIn: expireInMs });
+}
+
+/**
+ * Get an MCP session by ID
+ */
+export async function getMcpSession(id: string): Promise<McpSession | null> {
+  const store = await getKv();
+  const result = await store.get<McpSession>([...MCP_SESSIONS_PREFIX, id]);
+  return result.value;
+}
+
+/**
+ * Delete an MCP session
+ */
+export async function deleteMcpSession(id: string): Promise<void> {
+  const store = await getKv();
+  await store.delete([...MCP_SESSIONS_PREFIX, id]);
+}
+
+/**
+ * Read a rate limit bucket together with its versionstamp
+ */
+export async function getRateLimitBucket<T>(
+  key: string
+): Promise<{ value: T | null; versionstamp: string | null }> {
+  const store = await getKv();
+  const result = await store.get<T>([...RATE_LIMIT_PREFIX, key]);
+  return { value: result.value, versionstamp: result.versionstamp };
+}
+
+/**
+ * Write a rate limit bucket if it has not changed since it was read.
+ * Returns false when another isolate updated it first.
+ */
+export async function setRateLimitBucket<T>(
+  key: string,
+  value: T,
+  versionstamp: string | null,
+  expireInMs: number
+): Promise<boolean> {
+  const store = await getKv();
+  const result = await store
+    .atomic()
+    .check({ key: [...RATE_LIMIT_PREFIX, key], versionstamp })
+    .set([...RATE_LIMIT_PREFIX, key], value, { expireIn: expireInMs })
+    .commit();
+  return result.ok;
+}
+
 /**
  * Close the KV store (for testing cleanup)
  */
@@ -10,7 +10,7 @@ export enum LogLevel {
   ERROR = 'ERROR',
 }
 
-interface LogEntry {
+export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   message: string;
@@ -30,8 +30,112 @@ function getLogLevelFromEnv(): LogLevel {
   return LogLevel.INFO;
 }
 
+/**
+ * How tool call arguments appear in logs:
+ * none (only whether there are any), keys (argument names) or redacted (values
+ * with secrets redacted)
+ */
+export type ToolArgumentLogPolicy = 'none' | 'keys' | 'redacted';
+
+export interface RedactionConfig {
+  keys: string[]; // Redact values of keys ending in one of these (case-insensitive)
+  toolArguments: ToolArgumentLogPolicy;
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Session IDs are bearer credentials too: whoever has one can act in the session
+export const DEFAULT_REDACT_KEYS = [
+  'authorization',
+  'token',
+  'apiKey',
+  'password',
+  'secret',
+  'sessionId',
+  'mcp-session-id',
+];
+
+/**
+ * Secret-looking values scrubbed from every logged string
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi, `$1 ${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED], // JWT
+  [/\bmgw_[A-Za-z0-9_-]+/g, REDACTED], // Gateway API keys
+];
+
+/** Nesting beyond this depth is not logged */
+const MAX_REDACT_DEPTH = 10;
+
+/**
+ * Get redaction settings from environment variables
+ * - LOG_REDACT_KEYS: Additional key patterns, comma-separated (e.g. "cookie,email")
+ * - LOG_TOOL_ARGUMENTS: none (default), keys or redacted
+ */
+function getRedactionFromEnv(): RedactionConfig {
+  const extraKeys = (Deno.env.get('LOG_REDACT_KEYS') || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+  const toolArguments = Deno.env.get('LOG_TOOL_ARGUMENTS')?.toLowerCase();
+
+  return {
+    keys: [...DEFAULT_REDACT_KEYS, ...extraKeys],
+    toolArguments: toolArguments === 'keys' || toolArguments === 'redacted'
+      ? toolArguments
+      : 'none',
+  };
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Replace secret-looking values (bearer tokens, JWTs, gateway keys) in a string
+ */
+export function scrubSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+}
+
+/**
+ * Copy of a value with sensitive keys redacted and secrets scrubbed from strings
+ */
+export function redact(value: unknown, keys: string[] = DEFAULT_REDACT_KEYS): unknown {
+  const patterns = keys.map(normalizeKey);
+
+  const walk = (item: unknown, depth: number): unknown => {
+    if (typeof item === 'string') return scrubSecrets(item);
+    if (item instanceof Error) return scrubSecrets(item.message);
+    if (item === null || typeof item !== 'object') return item;
+    if (depth >= MAX_REDACT_DEPTH) return '[Truncated]';
+    if (Array.isArray(item)) return item.map((entry) => walk(entry, depth + 1));
+
+    return Object.fromEntries(
+      Object.entries(item).map(([key, entry]) => {
+        const normalized = normalizeKey(key);
+        return patterns.some((pattern) => normalized.endsWith(pattern))
+          ? [key, REDACTED]
+          : [key, walk(entry, depth + 1)];
+      })
+    );
+  };
+
+  return walk(value, 0);
+}
+
+/**
+ * Receives every log entry after redaction, whatever the minimum level
+ */
+export type LogListener = (entry: LogEntry) => void;
+
 class Logger {
   private minLevel: LogLevel = getLogLevelFromEnv();
+  private redaction: RedactionConfig = getRedactionFromEnv();
+  private listeners = new Set<LogListener>();
 
   setMinLevel(level: LogLevel): void {
     this.minLevel = level;
@@ -41,6 +145,22 @@ class Logger {
     return this.minLevel;
   }
 
+  setRedaction(config: Partial<RedactionConfig>): void {
+    this.redaction = { ...this.redaction, ...config };
+  }
+
+  getRedaction(): RedactionConfig {
+    return this.redaction;
+  }
+
+  /**
+   * Register a listener for log entries. Returns a function removing it.
+   */
+  addListener(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   private shouldLog(level: LogLevel): boolean {
     const levels = [
       LogLevel.DEBUG,
@@ -63,15 +183,22 @@ class Logger {
     message: string,
     data?: Record<string, unknown>
   ): void {
-    if (!this.shouldLog(level)) return;
+    const logged = this.shouldLog(level);
+    if (!logged && this.listeners.size === 0) return;
 
+    // Redact before formatting so secrets never reach any sink
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
-      message,
-      data,
+      message: scrubSecrets(message),
+      data: data && (redact(data, this.redaction.keys) as Record<string, unknown>),
     };
 
+    for (const listener of this.listeners) {
+      listener(entry);
+    }
+    if (!logged) return;
+
     const formatted = this.formatEntry(entry);
 
     switch (level) {
@@ -106,6 +233,21 @@ class Logger {
     this.log(LogLevel.ERROR, message, data);
   }
 
+  /**
+   * Tool call arguments as they may appear in logs, per the tool argument
+   * policy (undefined: leave them out)
+   */
+  toolArguments(args: Record<string, unknown>): unknown {
+    switch (this.redaction.toolArguments) {
+      case 'keys':
+        return Object.keys(args);
+      case 'redacted':
+        return args; // Redacted when the entry is logged
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Log an incoming HTTP request
    */
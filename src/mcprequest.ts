@@ -3,24 +3,52 @@
  * Implements the core MCP protocol methods
  */
 
-import { SERVER_INFO } from './config.ts';
+import { getRequestLimits, SERVER_INFO } from './config.ts';
 import {
   fetchToolsFromServer,
   fetchResourcesFromServer,
+  fetchResourceTemplatesFromServer,
   fetchPromptsFromServer,
   callToolOnServer,
+  completeOnServer,
+  getBackendCapabilities,
+  setLogLevelOnServer,
   readResourceFromServer,
   getPromptFromServer,
+  type BackendCallOptions,
 } from './backend.ts';
 import {
   validateToolCall,
   validateResourceRead,
   validatePromptGet,
+  validateCompletionRequest,
   sanitizeInput,
+  type ArgumentLimits,
 } from './validation/mcpValidation.ts';
-import type { BackendServer } from './types.ts';
+import { formatSchemaErrors, validateJsonSchema } from './validation/jsonSchema.ts';
+import { getToolSchemas } from './validation/toolSchemas.ts';
+import type { BackendServer, RequestContext } from './types.ts';
 import { logger } from './logger.ts';
 import * as kv from './kv.ts';
+import {
+  createAccessControl,
+  getClientIdentity,
+  type AccessControl,
+} from './policy/mod.ts';
+import { getRateLimiter } from './ratelimit/mod.ts';
+import { assertToolNotQuarantined, checkToolIntegrity } from './integrity/mod.ts';
+import { applyOutputFilters } from './filters/mod.ts';
+import { cancelRequest } from './session.ts';
+import {
+  registerProgressToken,
+  relayBackendMessage,
+  isLoggingLevel,
+  LOGGING_LEVELS,
+  releaseProgressToken,
+  setSessionLogLevel,
+  subscribeResource,
+  unsubscribeResource,
+} from './streams/mod.ts';
 
 /**
  * Get a server by ID from static, dynamic, or KV registry
@@ -66,24 +94,44 @@ export async function handleJsonRpcRequest(
   method: string,
   params: Record<string, unknown> | undefined,
   staticServers: BackendServer[],
-  dynamicServers: Map<string, BackendServer>
+  dynamicServers: Map<string, BackendServer>,
+  context: RequestContext = {}
 ): Promise<unknown> {
+  // Notifications are not counted: they get no response to carry an error
+  const rateLimiter = getRateLimiter();
+  if (rateLimiter && !method.startsWith('notifications/')) {
+    const toolName = method === 'tools/call' ? params?.name : undefined;
+    await rateLimiter.check(context, method, typeof toolName === 'string' ? toolName : undefined);
+  }
+
   // Fetch servers from KV for cross-isolate persistence
   const kvServers = await kv.listServers();
   const getServer = createGetServer(staticServers, dynamicServers, kvServers);
   const allServers = await getAllServers(staticServers, dynamicServers);
+  const access = createAccessControl(
+    await kv.listAccessPolicies(),
+    getClientIdentity(context)
+  );
 
   // Log MCP method call
   logger.info('MCP request', {
     method,
     serverCount: allServers.length,
     hasParams: !!params,
+    subject: context.auth?.subject,
   });
 
   const startTime = performance.now();
 
   try {
-    const result = await handleMcpMethod(method, params, getServer, allServers);
+    const result = await handleMcpMethod(
+      method,
+      params,
+      getServer,
+      allServers,
+      access,
+      context
+    );
     const durationMs = performance.now() - startTime;
     logger.info('MCP response', { method, durationMs: Math.round(durationMs) });
     return result;
@@ -98,40 +146,125 @@ export async function handleJsonRpcRequest(
   }
 }
 
+/**
+ * Argument limits from the configured request limits
+ */
+function getArgumentLimits(): ArgumentLimits {
+  const limits = getRequestLimits();
+  return { maxDepth: limits.maxJsonDepth, maxStringLength: limits.maxStringLength };
+}
+
+/**
+ * Validate tool arguments against the backend's inputSchema. Schemas come
+ * from the tools/list cache, which is filled on a miss; tools without a
+ * known schema are passed through unchecked.
+ */
+async function validateToolArguments(
+  name: string,
+  serverId: string,
+  args: Record<string, unknown>,
+  getServer: (id: string) => BackendServer | undefined,
+  backendOptions: BackendCallOptions
+): Promise<void> {
+  let schemas = getToolSchemas(serverId);
+  if (!schemas) {
+    const server = getServer(serverId);
+    if (!server) return;
+    await fetchToolsFromServer(server, backendOptions);
+    schemas = getToolSchemas(serverId);
+  }
+  const schema = schemas?.get(name);
+  if (schema === undefined) return;
+
+  const errors = validateJsonSchema(schema, args);
+  if (errors.length > 0) {
+    logger.warn('Tool arguments rejected by inputSchema', { toolName: name, errors });
+    throw new Error(`Invalid tool call: ${formatSchemaErrors(errors)}`);
+  }
+}
+
+/**
+ * Split a namespaced name ("serverId__name") into its server ID, if any
+ */
+function namespaceOf(name: string): string | null {
+  const separatorIndex = name.indexOf('__');
+  return separatorIndex === -1 ? null : name.substring(0, separatorIndex);
+}
+
 async function handleMcpMethod(
   method: string,
   params: Record<string, unknown> | undefined,
   getServer: (id: string) => BackendServer | undefined,
-  allServers: BackendServer[]
+  allServers: BackendServer[],
+  access: AccessControl,
+  context: RequestContext
 ): Promise<unknown> {
+  const backendOptions: BackendCallOptions = {
+    clientSessionId: context.sessionId,
+    signal: context.signal,
+    onMessage: (message, server) => relayBackendMessage(message, server, context),
+  };
+
   switch (method) {
-    case 'initialize':
+    case 'initialize': {
+      // Completions are only offered if some backend can answer them
+      const backendCapabilities = await Promise.all(allServers.map(getBackendCapabilities));
+      const completions = backendCapabilities.some((capabilities) => capabilities.completions);
       return {
         protocolVersion: SERVER_INFO.protocolVersion,
         capabilities: {
-          tools: { listChanged: false },
-          resources: { listChanged: false },
-          prompts: { listChanged: false },
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
+          prompts: { listChanged: true },
+          logging: {},
+          ...(completions && { completions: {} }),
         },
         serverInfo: {
           name: SERVER_INFO.name,
           version: SERVER_INFO.version,
         },
       };
+    }
 
     case 'notifications/initialized':
       return undefined;
 
+    case 'notifications/cancelled': {
+      const requestId = params?.requestId;
+      const reason = typeof params?.reason === 'string' ? params.reason : undefined;
+      const sessionId = context.sessionId;
+      if (sessionId && (typeof requestId === 'string' || typeof requestId === 'number')) {
+        if (cancelRequest(sessionId, requestId, reason)) {
+          logger.info('Request cancelled by client', { sessionId, requestId, reason });
+        }
+      }
+      return undefined;
+    }
+
     case 'tools/list': {
       const toolsArrays = await Promise.all(
-        allServers.map((server) => fetchToolsFromServer(server))
+        allServers.map(async (server) => {
+          // Quarantined tools are withheld before access policies apply
+          const tools = await checkToolIntegrity(
+            server.id,
+            await fetchToolsFromServer(server, backendOptions)
+          );
+          return tools.filter((tool) =>
+            access.isAllowed({
+              kind: 'tool',
+              serverId: server.id,
+              name: (tool as { name: string }).name,
+            })
+          );
+        })
       );
       return { tools: toolsArrays.flat() };
     }
 
     case 'tools/call': {
       // Validate request
-      const validation = validateToolCall(params);
+      const limits = getArgumentLimits();
+      const validation = validateToolCall(params, limits);
       if (!validation.valid) {
         throw new Error(
           `Invalid tool call: ${validation.errors.join(', ')}`
@@ -139,19 +272,65 @@ async function handleMcpMethod(
       }
 
       const name = params?.name as string;
+      const serverId = namespaceOf(name);
+      if (serverId) {
+        access.assertAllowed({ kind: 'tool', serverId, name });
+        await assertToolNotQuarantined(serverId, name);
+      }
       const args = sanitizeInput(
-        params?.arguments || {}
+        params?.arguments || {},
+        limits.maxDepth
       ) as Record<string, unknown>;
-      return await callToolOnServer(name, args, getServer);
+      if (serverId) {
+        await validateToolArguments(name, serverId, args, getServer, backendOptions);
+      }
+
+      // Progress is relayed to the client under the token it chose
+      const progressToken = (params?._meta as Record<string, unknown> | undefined)?.progressToken;
+      const relayToken =
+        serverId && context.sendMessage &&
+          (typeof progressToken === 'string' || typeof progressToken === 'number')
+          ? registerProgressToken(serverId, progressToken, context.sendMessage)
+          : undefined;
+      let result: unknown;
+      try {
+        result = await callToolOnServer(name, args, getServer, {
+          ...backendOptions,
+          progressToken: relayToken,
+        });
+      } finally {
+        if (relayToken) releaseProgressToken(relayToken);
+      }
+
+      // Filter PII and secrets according to the server's output filters
+      const filters = serverId ? getServer(serverId)?.outputFilters : undefined;
+      return filters
+        ? await applyOutputFilters(result, filters, name.substring(serverId!.length + 2))
+        : result;
     }
 
     case 'resources/list': {
       const resourcesArrays = await Promise.all(
-        allServers.map((server) => fetchResourcesFromServer(server))
+        allServers
+          .filter((server) =>
+            access.isAllowed({ kind: 'resource', serverId: server.id })
+          )
+          .map((server) => fetchResourcesFromServer(server, backendOptions))
       );
       return { resources: resourcesArrays.flat() };
     }
 
+    case 'resources/templates/list': {
+      const templatesArrays = await Promise.all(
+        allServers
+          .filter((server) =>
+            access.isAllowed({ kind: 'resource', serverId: server.id })
+          )
+          .map((server) => fetchResourceTemplatesFromServer(server, backendOptions))
+      );
+      return { resourceTemplates: templatesArrays.flat() };
+    }
+
     case 'resources/read': {
       // Validate request
       const validation = validateResourceRead(params);
@@ -162,19 +341,56 @@ async function handleMcpMethod(
       }
 
       const uri = params?.uri as string;
-      return await readResourceFromServer(uri, getServer);
+      const serverId = uri.match(/^([^:]+):\/\//)?.[1];
+      if (serverId) {
+        access.assertAllowed({ kind: 'resource', serverId });
+      }
+      return await readResourceFromServer(uri, getServer, backendOptions);
+    }
+
+    case 'resources/subscribe':
+    case 'resources/unsubscribe': {
+      // Validate request
+      const validation = validateResourceRead(params);
+      if (!validation.valid) {
+        throw new Error(
+          `Invalid resource subscription: ${validation.errors.join(', ')}`
+        );
+      }
+      // Updates are delivered on the session's stream
+      const sessionId = context.sessionId;
+      if (!sessionId) {
+        throw new Error('Invalid resource subscription: an MCP session is required');
+      }
+
+      const uri = params?.uri as string;
+      if (method === 'resources/unsubscribe') {
+        await unsubscribeResource(sessionId, uri);
+        return {};
+      }
+      const serverId = uri.match(/^([^:]+):\/\//)?.[1];
+      if (serverId) {
+        access.assertAllowed({ kind: 'resource', serverId });
+      }
+      await subscribeResource(sessionId, uri, getServer);
+      return {};
     }
 
     case 'prompts/list': {
       const promptsArrays = await Promise.all(
-        allServers.map((server) => fetchPromptsFromServer(server))
+        allServers
+          .filter((server) =>
+            access.isAllowed({ kind: 'prompt', serverId: server.id })
+          )
+          .map((server) => fetchPromptsFromServer(server, backendOptions))
       );
       return { prompts: promptsArrays.flat() };
     }
 
     case 'prompts/get': {
       // Validate request
-      const validation = validatePromptGet(params);
+      const limits = getArgumentLimits();
+      const validation = validatePromptGet(params, limits);
       if (!validation.valid) {
         throw new Error(
           `Invalid prompt request: ${validation.errors.join(', ')}`
@@ -182,10 +398,55 @@ async function handleMcpMethod(
       }
 
       const name = params?.name as string;
+      const serverId = namespaceOf(name);
+      if (serverId) {
+        access.assertAllowed({ kind: 'prompt', serverId });
+      }
       const args = sanitizeInput(
-        params?.arguments
+        params?.arguments,
+        limits.maxDepth
       ) as Record<string, unknown> | undefined;
-      return await getPromptFromServer(name, args, getServer);
+      return await getPromptFromServer(name, args, getServer, backendOptions);
+    }
+
+    case 'logging/setLevel': {
+      const level = params?.level;
+      if (!isLoggingLevel(level)) {
+        throw new Error(
+          `Invalid logging request: level must be one of ${LOGGING_LEVELS.join(', ')}`
+        );
+      }
+      // Log messages are delivered on the session's stream
+      const sessionId = context.sessionId;
+      if (!sessionId) {
+        throw new Error('Invalid logging request: an MCP session is required');
+      }
+
+      setSessionLogLevel(sessionId, level, access);
+      await Promise.all(
+        allServers
+          .filter((server) => access.isAllowed({ kind: 'server', serverId: server.id }))
+          .map((server) => setLogLevelOnServer(server, level, backendOptions))
+      );
+      return {};
+    }
+
+    case 'completion/complete': {
+      // Validate request
+      const validation = validateCompletionRequest(params);
+      if (!validation.valid) {
+        throw new Error(
+          `Invalid completion request: ${validation.errors.join(', ')}`
+        );
+      }
+
+      const ref = params?.ref as { type: string; name?: string; uri?: string };
+      if (ref.type === 'ref/prompt') {
+        access.assertAllowed({ kind: 'prompt', serverId: namespaceOf(ref.name!)! });
+      } else {
+        access.assertAllowed({ kind: 'resource', serverId: ref.uri!.split('://')[0] });
+      }
+      return await completeOnServer(params!, getServer, backendOptions);
     }
 
     case 'ping':
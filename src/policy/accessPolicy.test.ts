@@ -0,0 +1,368 @@
+/**
+ * Access Policy Tests
+ */
+
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { issueAdminKey } from '../auth/mod.ts';
+import { JsonRpcErrorCode } from '../jsonrpc.ts';
+import * as kv from '../kv.ts';
+import type { AccessPolicy } from '../types.ts';
+import {
+  AccessDeniedError,
+  createAccessControl,
+  evaluateAccess,
+  matchesGlob,
+  validateAccessPolicy,
+} from './mod.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+function createPolicy(overrides: Partial<AccessPolicy> = {}): AccessPolicy {
+  return {
+    id: 'test-policy',
+    subjects: ['*'],
+    rules: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+Deno.test('Access policy - matchesGlob', () => {
+  assertEquals(matchesGlob('journey__*', 'journey__findTrips'), true);
+  assertEquals(matchesGlob('journey__*', 'aareguru__getTemp'), false);
+  assertEquals(matchesGlob('swiss-?', 'swiss-1'), true);
+  assertEquals(matchesGlob('a.b', 'axb'), false);
+  assertEquals(matchesGlob('*', 'anything'), true);
+});
+
+Deno.test('Access policy - deny rules win over allow rules', () => {
+  const policies = [
+    createPolicy({ rules: [{ effect: 'allow', servers: ['journey'] }] }),
+    createPolicy({
+      id: 'no-delete',
+      rules: [{ effect: 'deny', tools: ['journey__delete*'] }],
+    }),
+  ];
+  const tool = (name: string) => ({ kind: 'tool' as const, serverId: 'journey', name });
+
+  assertEquals(evaluateAccess(policies, {}, tool('journey__findTrips'), 'deny'), 'allow');
+  assertEquals(evaluateAccess(policies, {}, tool('journey__deleteTrip'), 'allow'), 'deny');
+});
+
+Deno.test('Access policy - unmatched targets fall back to the default effect', () => {
+  const policies = [createPolicy({ rules: [{ effect: 'allow', tools: ['journey__*'] }] })];
+
+  assertEquals(
+    evaluateAccess(policies, {}, { kind: 'tool', serverId: 'meteo', name: 'meteo__now' }, 'deny'),
+    'deny'
+  );
+  assertEquals(
+    evaluateAccess(policies, {}, { kind: 'tool', serverId: 'meteo', name: 'meteo__now' }, 'allow'),
+    'allow'
+  );
+  // Tool rules do not match prompts or resources
+  assertEquals(evaluateAccess(policies, {}, { kind: 'prompt', serverId: 'journey' }, 'deny'), 'deny');
+});
+
+Deno.test('Access policy - policies only apply to matching subjects', () => {
+  const policies = [
+    createPolicy({
+      subjects: ['apiKey:ci-*', 'subject:alice', 'client:claude-*'],
+      rules: [{ effect: 'deny', servers: ['*'] }],
+    }),
+  ];
+  const target = { kind: 'resource' as const, serverId: 'journey' };
+
+  assertEquals(evaluateAccess(policies, { apiKeyId: 'ci-1' }, target, 'allow'), 'deny');
+  assertEquals(evaluateAccess(policies, { subject: 'alice' }, target, 'allow'), 'deny');
+  assertEquals(evaluateAccess(policies, { clientName: 'claude-ai' }, target, 'allow'), 'deny');
+  assertEquals(evaluateAccess(policies, { subject: 'bob' }, target, 'allow'), 'allow');
+  assertEquals(evaluateAccess(policies, {}, target, 'allow'), 'allow');
+});
+
+Deno.test('Access policy - assertAllowed throws AccessDeniedError', () => {
+  const access = createAccessControl(
+    [createPolicy({ rules: [{ effect: 'deny', tools: ['journey__*'] }] })],
+    {},
+    'allow'
+  );
+
+  assertThrows(
+    () => access.assertAllowed({ kind: 'tool', serverId: 'journey', name: 'journey__findTrips' }),
+    AccessDeniedError,
+    'Access denied: tool journey__findTrips'
+  );
+});
+
+Deno.test('Access policy - validateAccessPolicy', () => {
+  assertEquals(
+    validateAccessPolicy({
+      id: 'ci',
+      subjects: ['apiKey:*'],
+      rules: [{ effect: 'allow', servers: ['journey'], tools: ['journey__find*'] }],
+    }),
+    []
+  );
+
+  assertEquals(validateAccessPolicy({ id: 'bad id', subjects: ['*'], rules: [] }).length, 2);
+  assertEquals(
+    validateAccessPolicy({ id: 'x', subjects: ['user:bob'], rules: [{ effect: 'allow' }] }).length,
+    2
+  );
+  assertEquals(
+    validateAccessPolicy({
+      id: 'x',
+      subjects: ['*'],
+      rules: [{ effect: 'maybe', tools: 'journey__*' }],
+    }).length,
+    2
+  );
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Access policy - enforced on tools/list and tools/call',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `policy-${Date.now()}`;
+    const policyId = `${serverId}-policy`;
+    const clientName = `${serverId}-client`;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const { id, method } = await req.json();
+      const result = method === 'tools/list'
+        ? { tools: [{ name: 'findTrips' }, { name: 'deleteTrip' }] }
+        : { content: [{ type: 'text', text: 'ok' }] };
+      return Response.json({ jsonrpc: '2.0', id, result });
+    });
+
+    const rpc = (body: unknown, sessionId?: string) =>
+      handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+          },
+          body: JSON.stringify(body),
+        })
+      );
+
+    try {
+      await kv.saveServer({
+        id: serverId,
+        name: 'Policy Test',
+        endpoint: `http://localhost:${backend.addr.port}/mcp`,
+        requiresSession: false,
+      });
+
+      const saveRes = await handler(
+        new Request('http://localhost:8000/mcp/admin/policies', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: policyId,
+            subjects: [`client:${clientName}`],
+            rules: [{ effect: 'deny', tools: [`${serverId}__delete*`] }],
+          }),
+        })
+      );
+      assertEquals(saveRes.status, 201);
+      await saveRes.body?.cancel();
+
+      // The policy applies once the client has identified itself
+      const initRes = await rpc({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { clientInfo: { name: clientName, version: '1.0.0' } },
+      });
+      const sessionId = initRes.headers.get('Mcp-Session-Id') ?? undefined;
+      await initRes.body?.cancel();
+
+      const listRes = await rpc({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+      const { result } = await listRes.json();
+      const names = result.tools
+        .map((t: { name: string }) => t.name)
+        .filter((n: string) => n.startsWith(serverId));
+      assertEquals(names, [`${serverId}__findTrips`]);
+
+      const callRes = await rpc(
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: `${serverId}__deleteTrip`, arguments: {} },
+        },
+        sessionId
+      );
+      const { error } = await callRes.json();
+      assertEquals(error.code, JsonRpcErrorCode.ACCESS_DENIED);
+
+      // Other clients are not affected
+      const otherRes = await rpc({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'tools/call',
+        params: { name: `${serverId}__deleteTrip`, arguments: {} },
+      });
+      const other = await otherRes.json();
+      assertEquals(other.error, undefined);
+
+      // Policies are removed through the admin API
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/admin/policies/${policyId}`, { method: 'DELETE' })
+      );
+      assertEquals(deleteRes.status, 200);
+      await deleteRes.body?.cancel();
+    } finally {
+      await kv.deleteAccessPolicy(policyId);
+      await kv.deleteServer(serverId);
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Access policy - REST tool calls denied by policy return 403',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const policyId = `rest-policy-${Date.now()}`;
+    await kv.saveAccessPolicy(
+      createPolicy({
+        id: policyId,
+        rules: [{ effect: 'deny', tools: ['rest-policy-denied__*'] }],
+      })
+    );
+
+    try {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp/tools/call', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'rest-policy-denied__anything', arguments: {} }),
+        })
+      );
+      assertEquals(res.status, 403);
+      const body = await res.json();
+      assertEquals(body.error, 'Access denied: tool rest-policy-denied__anything');
+    } finally {
+      await kv.deleteAccessPolicy(policyId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Access policy - /message applies policies to the authenticated caller',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const policyId = `message-policy-${Date.now()}`;
+    const { key, record } = await issueAdminKey(policyId, 'operator');
+    await kv.saveAccessPolicy(
+      createPolicy({
+        id: policyId,
+        subjects: [`apiKey:${record.id}`],
+        rules: [{ effect: 'deny', tools: ['message-policy-denied__*'] }],
+      })
+    );
+
+    const streamRes = await handler(
+      new Request('http://localhost:8000/sse', { headers: { 'X-API-Key': key } })
+    );
+    const reader = streamRes.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+    try {
+      const { value } = await reader.read();
+      const endpoint = JSON.parse(value!.match(/data: (.+)\n/)![1]);
+
+      const res = await handler(
+        new Request(`http://localhost:8000${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-API-Key': key },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'tools/call',
+            params: { name: 'message-policy-denied__anything', arguments: {} },
+          }),
+        })
+      );
+      assertEquals(res.status, 403);
+      await res.body?.cancel();
+
+      const { value: event } = await reader.read();
+      const { error } = JSON.parse(event!.match(/data: (.+)\n/)![1]);
+      assertEquals(error.code, JsonRpcErrorCode.ACCESS_DENIED);
+    } finally {
+      await reader.cancel();
+      await kv.deleteAccessPolicy(policyId);
+      await kv.revokeAdminKey(record.id);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Access policy - unknown client API key is rejected',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(
+      new Request('http://localhost:8000/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': 'mgw_unknown' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+      })
+    );
+    assertEquals(res.status, 401);
+    await res.body?.cancel();
+  },
+});
+
+Deno.test({
+  name: 'Access policy - invalid policy returns 400',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const res = await handler(
+      new Request('http://localhost:8000/mcp/admin/policies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: 'invalid', subjects: [], rules: [] }),
+      })
+    );
+    assertEquals(res.status, 400);
+    const body = await res.json();
+    assertEquals(body.error, 'Invalid access policy');
+
+    for (const invalid of ['null', '[]', 'not json']) {
+      const invalidRes = await handler(
+        new Request('http://localhost:8000/mcp/admin/policies', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: invalid,
+        })
+      );
+      assertEquals(invalidRes.status, 400, invalid);
+      const { error, details } = await invalidRes.json();
+      if (invalid === 'not json') {
+        assertEquals(error, 'Parse error: invalid JSON');
+      } else {
+        assertEquals(details, ['Request body must be a JSON object']);
+      }
+    }
+  },
+});
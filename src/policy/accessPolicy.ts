@@ -0,0 +1,224 @@
+/**
+ * Access Policy Engine
+ *
+ * Decides which servers, tools, prompts and resources an MCP client may use.
+ *
+ * Policies apply to the clients matched by their subjects:
+ * - "apiKey:<glob>"  ID of a gateway API key (X-API-Key or Bearer mgw_...)
+ * - "subject:<glob>" `sub` claim of a validated OAuth access token
+ * - "client:<glob>"  clientInfo.name declared in `initialize` (not authenticated)
+ * - "*"              every client, including anonymous ones
+ *
+ * Evaluation: an explicit deny from any matching rule wins, otherwise an
+ * explicit allow grants access, otherwise ACCESS_POLICY_DEFAULT applies.
+ */
+
+import { getAccessPolicyDefault } from '../config.ts';
+import { logger } from '../logger.ts';
+import type {
+  AccessPolicy,
+  ClientIdentity,
+  PolicyEffect,
+  PolicyRule,
+  RequestContext,
+} from '../types.ts';
+
+const SUBJECT_PATTERN = /^(apiKey|subject|client):.+$/;
+const POLICY_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * What a client is trying to use. Tools carry their namespaced name;
+ * `server` stands for server-wide features such as log messages.
+ */
+export type AccessTarget =
+  | { kind: 'tool'; serverId: string; name: string }
+  | { kind: 'prompt' | 'resource' | 'server'; serverId: string };
+
+/**
+ * Thrown when a policy denies a request
+ */
+export class AccessDeniedError extends Error {
+  constructor(target: AccessTarget) {
+    super(
+      target.kind === 'tool'
+        ? `Access denied: tool ${target.name}`
+        : target.kind === 'server'
+        ? `Access denied: server ${target.serverId}`
+        : `Access denied: ${target.kind}s of server ${target.serverId}`
+    );
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * Access decisions for a single client
+ */
+export interface AccessControl {
+  identity: ClientIdentity;
+  isAllowed(target: AccessTarget): boolean;
+  assertAllowed(target: AccessTarget): void;
+}
+
+/**
+ * Match a value against a glob where `*` is any run of characters and `?` one character
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Build the policy identity of the client behind a request
+ */
+export function getClientIdentity(context: RequestContext): ClientIdentity {
+  return {
+    apiKeyId: context.apiKeyId,
+    subject: context.auth?.subject,
+    clientName: context.clientInfo?.name,
+  };
+}
+
+function subjectMatches(subject: string, identity: ClientIdentity): boolean {
+  if (subject === '*') {
+    return true;
+  }
+  const separator = subject.indexOf(':');
+  const type = subject.substring(0, separator);
+  const pattern = subject.substring(separator + 1);
+  const value =
+    type === 'apiKey'
+      ? identity.apiKeyId
+      : type === 'subject'
+        ? identity.subject
+        : type === 'client'
+          ? identity.clientName
+          : undefined;
+  return value !== undefined && matchesGlob(pattern, value);
+}
+
+function ruleMatches(rule: PolicyRule, target: AccessTarget): boolean {
+  if (rule.servers && !rule.servers.some((p) => matchesGlob(p, target.serverId))) {
+    return false;
+  }
+  if (rule.tools) {
+    return target.kind === 'tool' && rule.tools.some((p) => matchesGlob(p, target.name));
+  }
+  return true;
+}
+
+/**
+ * Evaluate all policies for an identity and target
+ */
+export function evaluateAccess(
+  policies: AccessPolicy[],
+  identity: ClientIdentity,
+  target: AccessTarget,
+  defaultEffect: PolicyEffect = getAccessPolicyDefault()
+): PolicyEffect {
+  let allowed = false;
+
+  for (const policy of policies) {
+    if (!policy.subjects.some((s) => subjectMatches(s, identity))) {
+      continue;
+    }
+    for (const rule of policy.rules) {
+      if (!ruleMatches(rule, target)) {
+        continue;
+      }
+      if (rule.effect === 'deny') {
+        return 'deny';
+      }
+      allowed = true;
+    }
+  }
+
+  return allowed ? 'allow' : defaultEffect;
+}
+
+/**
+ * Create the access decisions for one client from the current policies
+ */
+export function createAccessControl(
+  policies: AccessPolicy[],
+  identity: ClientIdentity,
+  defaultEffect: PolicyEffect = getAccessPolicyDefault()
+): AccessControl {
+  const isAllowed = (target: AccessTarget) =>
+    evaluateAccess(policies, identity, target, defaultEffect) === 'allow';
+
+  return {
+    identity,
+    isAllowed,
+    assertAllowed(target: AccessTarget) {
+      if (!isAllowed(target)) {
+        logger.warn('Access denied by policy', { ...identity, ...target });
+        throw new AccessDeniedError(target);
+      }
+    },
+  };
+}
+
+function validateGlobList(value: unknown, field: string, errors: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((v) => typeof v === 'string' && v.length > 0)
+  ) {
+    errors.push(`${field} must be a non-empty array of strings`);
+  }
+}
+
+/**
+ * Validate an access policy definition
+ */
+export function validateAccessPolicy(policy: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (typeof policy.id !== 'string' || !POLICY_ID_PATTERN.test(policy.id)) {
+    errors.push('id is required and may only contain letters, digits, ".", "_" and "-"');
+  }
+
+  if (policy.description !== undefined && typeof policy.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (!Array.isArray(policy.subjects) || policy.subjects.length === 0) {
+    errors.push('subjects must be a non-empty array');
+  } else {
+    policy.subjects.forEach((subject, i) => {
+      if (subject !== '*' && (typeof subject !== 'string' || !SUBJECT_PATTERN.test(subject))) {
+        errors.push(
+          `subjects[${i}] must be "*", "apiKey:<glob>", "subject:<glob>" or "client:<glob>"`
+        );
+      }
+    });
+  }
+
+  if (!Array.isArray(policy.rules) || policy.rules.length === 0) {
+    errors.push('rules must be a non-empty array');
+  } else {
+    policy.rules.forEach((rule, i) => {
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`rules[${i}] must be an object`);
+        return;
+      }
+      const { effect, servers, tools } = rule as Record<string, unknown>;
+      if (effect !== 'allow' && effect !== 'deny') {
+        errors.push(`rules[${i}].effect must be "allow" or "deny"`);
+      }
+      if (servers === undefined && tools === undefined) {
+        errors.push(`rules[${i}] must specify servers or tools`);
+      }
+      validateGlobList(servers, `rules[${i}].servers`, errors);
+      validateGlobList(tools, `rules[${i}].tools`, errors);
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,16 @@
+/**
+ * Policy Module Exports
+ *
+ * Main entry point for client access control
+ */
+
+export {
+  AccessDeniedError,
+  createAccessControl,
+  evaluateAccess,
+  getClientIdentity,
+  matchesGlob,
+  validateAccessPolicy,
+  type AccessControl,
+  type AccessTarget,
+} from './accessPolicy.ts';
@@ -0,0 +1,216 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { getRateLimitConfig } from '../config.ts';
+import { JsonRpcErrorCode } from '../jsonrpc.ts';
+import {
+  getRateLimitKey,
+  KvRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  RateLimitError,
+  resetRateLimiter,
+  takeToken,
+} from './mod.ts';
+
+function clientInfo(hostname: string): Deno.ServeHandlerInfo {
+  return {
+    remoteAddr: { transport: 'tcp', hostname, port: 40000 },
+    completed: Promise.resolve(),
+  } as Deno.ServeHandlerInfo;
+}
+
+// =============================================================================
+// Token Bucket
+// =============================================================================
+
+Deno.test('Rate limit - takeToken drains and refills the bucket', () => {
+  const perMs = 1 / 1000; // one token per second
+
+  let step = takeToken(null, 2, perMs, 0);
+  assertEquals(step.result.allowed, true);
+  step = takeToken(step.bucket, 2, perMs, 0);
+  assertEquals(step.result.allowed, true);
+
+  step = takeToken(step.bucket, 2, perMs, 250);
+  assertEquals(step.result, { allowed: false, retryAfterMs: 750 });
+
+  step = takeToken(step.bucket, 2, perMs, 1000);
+  assertEquals(step.result.allowed, true);
+
+  // Refill is capped at the bucket size
+  step = takeToken(step.bucket, 2, perMs, 60000);
+  assertEquals(step.bucket.tokens, 1);
+});
+
+Deno.test('Rate limit - getRateLimitKey prefers API key, subject, IP, session', () => {
+  assertEquals(
+    getRateLimitKey({ apiKeyId: 'k1', clientIp: '203.0.113.7', sessionId: 's1' }),
+    'key:k1'
+  );
+  assertEquals(
+    getRateLimitKey({
+      auth: { subject: 'alice', issuer: 'https://idp.example.com', scopes: [], claims: {} },
+      clientIp: '203.0.113.7',
+    }),
+    'sub:alice'
+  );
+  assertEquals(getRateLimitKey({ clientIp: '203.0.113.7', sessionId: 's1' }), 'ip:203.0.113.7');
+  assertEquals(getRateLimitKey({ sessionId: 's1' }), 'session:s1');
+  assertEquals(getRateLimitKey({}), 'anonymous');
+});
+
+Deno.test({
+  name: 'Rate limit - RateLimiter applies client and tool limits',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const limiter = new RateLimiter(
+      {
+        requestsPerMinute: 60,
+        burst: 4,
+        toolLimits: [{ pattern: 'journey__*', requestsPerMinute: 1 }],
+        store: 'memory',
+      },
+      new MemoryRateLimitStore()
+    );
+
+    await limiter.check({ apiKeyId: 'a' }, 'tools/call', 'journey__findTrips');
+    const error = await assertRejects(
+      () => limiter.check({ apiKeyId: 'a' }, 'tools/call', 'journey__findTrips'),
+      RateLimitError,
+      'Rate limit exceeded for tool journey__findTrips'
+    );
+    assertEquals(error.retryAfterSeconds, 60);
+
+    // Tools matching the same pattern share its bucket
+    await assertRejects(
+      () => limiter.check({ apiKeyId: 'a' }, 'tools/call', 'journey__stationboard'),
+      RateLimitError,
+      'Rate limit exceeded for tool journey__stationboard'
+    );
+
+    // Tools without a limit and other clients are not affected
+    await limiter.check({ apiKeyId: 'b' }, 'tools/call', 'journey__findTrips');
+    await limiter.check({ apiKeyId: 'a' }, 'tools/call', 'aareguru__getTemp');
+
+    // Client bucket (burst 4) is now empty for client a
+    await assertRejects(
+      () => limiter.check({ apiKeyId: 'a' }, 'tools/list'),
+      RateLimitError,
+      'Rate limit exceeded for client'
+    );
+  },
+});
+
+Deno.test({
+  name: 'Rate limit - KvRateLimitStore shares buckets through KV',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const key = `test-${Date.now()}`;
+    const now = Date.now();
+    const perMs = 1 / 60000;
+
+    // Two store instances stand in for two isolates
+    assertEquals((await new KvRateLimitStore().take(key, 2, perMs, now)).allowed, true);
+    assertEquals((await new KvRateLimitStore().take(key, 2, perMs, now)).allowed, true);
+    const result = await new KvRateLimitStore().take(key, 2, perMs, now);
+    assertEquals(result, { allowed: false, retryAfterMs: 60000 });
+  },
+});
+
+Deno.test('Rate limit - getRateLimitConfig reads environment variables', () => {
+  assertEquals(getRateLimitConfig(), null);
+
+  Deno.env.set('RATE_LIMIT_REQUESTS_PER_MINUTE', '120');
+  Deno.env.set('RATE_LIMIT_TOOLS', 'journey__*=10, invalid, aareguru__*=0');
+  Deno.env.set('RATE_LIMIT_STORE', 'kv');
+  try {
+    assertEquals(getRateLimitConfig(), {
+      requestsPerMinute: 120,
+      burst: undefined,
+      toolLimits: [{ pattern: 'journey__*', requestsPerMinute: 10 }],
+      store: 'kv',
+    });
+  } finally {
+    Deno.env.delete('RATE_LIMIT_REQUESTS_PER_MINUTE');
+    Deno.env.delete('RATE_LIMIT_TOOLS');
+    Deno.env.delete('RATE_LIMIT_STORE');
+  }
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Rate limit - over-limit JSON-RPC calls return RATE_LIMITED',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    Deno.env.set('RATE_LIMIT_REQUESTS_PER_MINUTE', '2');
+    resetRateLimiter();
+
+    const ping = (id: number, ip: string) =>
+      handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id, method: 'ping' }),
+        }),
+        clientInfo(ip)
+      );
+
+    try {
+      for (const id of [1, 2]) {
+        const res = await ping(id, '203.0.113.7');
+        assertEquals((await res.json()).result, {});
+      }
+
+      const limited = await ping(3, '203.0.113.7');
+      assertEquals(limited.status, 200);
+      const body = await limited.json();
+      assertEquals(body.error.code, JsonRpcErrorCode.RATE_LIMITED);
+      assertEquals(body.error.message, 'Rate limit exceeded for client, retry after 30s');
+
+      // Another client IP is not affected
+      const other = await ping(4, '203.0.113.8');
+      assertEquals((await other.json()).result, {});
+    } finally {
+      Deno.env.delete('RATE_LIMIT_REQUESTS_PER_MINUTE');
+      resetRateLimiter();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Rate limit - over-limit REST calls return 429 with Retry-After',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    Deno.env.set('RATE_LIMIT_REQUESTS_PER_MINUTE', '1');
+    resetRateLimiter();
+
+    const listTools = () =>
+      handler(new Request('http://localhost:8000/mcp/tools/list'), clientInfo('198.51.100.4'));
+
+    try {
+      const first = await listTools();
+      assertEquals(first.status, 200);
+      await first.body?.cancel();
+
+      const limited = await listTools();
+      assertEquals(limited.status, 429);
+      assertEquals(limited.headers.get('Retry-After'), '60');
+      const body = await limited.json();
+      assertEquals(body.error, 'Rate limit exceeded for client, retry after 60s');
+    } finally {
+      Deno.env.delete('RATE_LIMIT_REQUESTS_PER_MINUTE');
+      resetRateLimiter();
+    }
+  },
+});
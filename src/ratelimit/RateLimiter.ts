@@ -0,0 +1,217 @@
+/**
+ * Rate Limiter
+ *
+ * Token-bucket rate limiting of JSON-RPC calls per client, and optionally per
+ * client and namespaced tool. Buckets live in memory (per isolate) or in
+ * Deno KV so that limits hold across isolates.
+ */
+
+import * as kv from '../kv.ts';
+import { getRateLimitConfig } from '../config.ts';
+import { logger } from '../logger.ts';
+import { matchesGlob } from '../policy/mod.ts';
+import type { RateLimitConfig, RequestContext } from '../types.ts';
+
+/**
+ * Thrown when a client exceeds a rate limit
+ */
+export class RateLimitError extends Error {
+  constructor(
+    public readonly scope: string,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`Rate limit exceeded for ${scope}, retry after ${retryAfterSeconds}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+/**
+ * Storage for token buckets
+ */
+export interface RateLimitStore {
+  take(key: string, capacity: number, refillPerMs: number, now: number): Promise<TakeResult>;
+}
+
+/**
+ * Refill a bucket and take one token from it
+ */
+export function takeToken(
+  bucket: TokenBucket | null,
+  capacity: number,
+  refillPerMs: number,
+  now: number
+): { bucket: TokenBucket; result: TakeResult } {
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(capacity, bucket.tokens + elapsed * refillPerMs) : capacity;
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      result: { allowed: true, retryAfterMs: 0 },
+    };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) },
+  };
+}
+
+/** Buckets kept before idle, full ones are pruned */
+const MAX_MEMORY_BUCKETS = 10000;
+
+/**
+ * Per-isolate bucket storage
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>();
+
+  async take(
+    key: string,
+    capacity: number,
+    refillPerMs: number,
+    now: number
+  ): Promise<TakeResult> {
+    const { bucket, result } = takeToken(this.buckets.get(key) ?? null, capacity, refillPerMs, now);
+    this.buckets.set(key, bucket);
+
+    if (this.buckets.size > MAX_MEMORY_BUCKETS) {
+      const fullAfterMs = capacity / refillPerMs;
+      for (const [k, b] of this.buckets) {
+        if (now - b.updatedAt > fullAfterMs) {
+          this.buckets.delete(k);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Deno KV bucket storage, shared by all isolates of a deployment
+ */
+export class KvRateLimitStore implements RateLimitStore {
+  async take(
+    key: string,
+    capacity: number,
+    refillPerMs: number,
+    now: number
+  ): Promise<TakeResult> {
+    // A bucket left alone this long is full again and may expire
+    const expireInMs = Math.ceil(capacity / refillPerMs) + 1000;
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const current = await kv.getRateLimitBucket<TokenBucket>(key);
+      const { bucket, result } = takeToken(current.value, capacity, refillPerMs, now);
+      if (await kv.setRateLimitBucket(key, bucket, current.versionstamp, expireInMs)) {
+        return result;
+      }
+    }
+
+    // Heavy contention on one bucket: fail open rather than reject the call
+    logger.warn('Rate limit bucket update failed after retries', { key });
+    return { allowed: true, retryAfterMs: 0 };
+  }
+}
+
+/**
+ * Identify the client a request is counted against: the gateway API key, the
+ * OAuth subject, the client IP or the session, in that order.
+ */
+export function getRateLimitKey(context: RequestContext): string {
+  if (context.apiKeyId) return `key:${context.apiKeyId}`;
+  if (context.auth?.subject) return `sub:${context.auth.subject}`;
+  if (context.clientIp) return `ip:${context.clientIp}`;
+  if (context.sessionId) return `session:${context.sessionId}`;
+  return 'anonymous';
+}
+
+/**
+ * Rate limiter applying the configured client and tool limits
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private store: RateLimitStore;
+
+  constructor(config: RateLimitConfig, store?: RateLimitStore) {
+    this.config = config;
+    this.store = store ?? (config.store === 'kv' ? new KvRateLimitStore() : new MemoryRateLimitStore());
+  }
+
+  /**
+   * Count one JSON-RPC call. Throws RateLimitError when over a limit.
+   */
+  async check(context: RequestContext, method: string, toolName?: string): Promise<void> {
+    const clientKey = getRateLimitKey(context);
+    const now = Date.now();
+
+    if (this.config.requestsPerMinute) {
+      await this.take(
+        clientKey,
+        'client',
+        this.config.requestsPerMinute,
+        this.config.burst ?? this.config.requestsPerMinute,
+        now
+      );
+    }
+
+    if (method === 'tools/call' && toolName) {
+      // Tools matching the same pattern share its budget
+      const limit = this.config.toolLimits.find((l) => matchesGlob(l.pattern, toolName));
+      if (limit) {
+        await this.take(
+          `${clientKey}|tool:${limit.pattern}`,
+          `tool ${toolName}`,
+          limit.requestsPerMinute,
+          limit.requestsPerMinute,
+          now
+        );
+      }
+    }
+  }
+
+  private async take(
+    key: string,
+    scope: string,
+    requestsPerMinute: number,
+    capacity: number,
+    now: number
+  ): Promise<void> {
+    const result = await this.store.take(key, capacity, requestsPerMinute / 60000, now);
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+      logger.warn('Rate limit exceeded', { key, scope, retryAfterSeconds });
+      throw new RateLimitError(scope, retryAfterSeconds);
+    }
+  }
+}
+
+let rateLimiter: RateLimiter | null | undefined;
+
+/**
+ * Get the rate limiter configured from the environment, or null when
+ * rate limiting is disabled
+ */
+export function getRateLimiter(): RateLimiter | null {
+  if (rateLimiter === undefined) {
+    const config = getRateLimitConfig();
+    rateLimiter = config ? new RateLimiter(config) : null;
+  }
+  return rateLimiter;
+}
+
+/**
+ * Drop the configured rate limiter and its buckets (re-read on next use)
+ */
+export function resetRateLimiter(): void {
+  rateLimiter = undefined;
+}
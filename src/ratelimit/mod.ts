@@ -0,0 +1,19 @@
+/**
+ * Rate Limit Module Exports
+ *
+ * Main entry point for per-client and per-tool rate limiting
+ */
+
+export {
+  getRateLimiter,
+  getRateLimitKey,
+  KvRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  RateLimitError,
+  resetRateLimiter,
+  takeToken,
+  type RateLimitStore,
+  type TakeResult,
+  type TokenBucket,
+} from './RateLimiter.ts';
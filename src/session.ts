@@ -1,12 +1,17 @@
 /**
  * Session management module
- * Handles SSE session lifecycle and metrics
+ * Handles MCP and SSE session lifecycle and metrics
  */
 
+import type { McpSession, RequestContext } from './types.ts';
+import * as kv from './kv.ts';
+import { getSessionTtlMs } from './config.ts';
+
 export interface Session {
   controller: ReadableStreamDefaultController<Uint8Array>;
   encoder: TextEncoder;
   createdAt: number;
+  owner?: string; // Caller that opened a legacy /sse stream, see getSessionOwner
 }
 
 export interface Metrics {
@@ -17,8 +22,31 @@ export interface Metrics {
   sessionsCreated: number;
 }
 
+/** Open SSE streams, by session ID */
 export const sessions = new Map<string, Session>();
 
+/**
+ * MCP sessions known to this isolate. Deno KV is the source of truth, so
+ * sessions survive across isolates; this cache saves a read per request.
+ */
+const mcpSessions = new Map<string, McpSession>();
+
+/** Cached sessions are re-read and their expiry extended at most this often */
+const SESSION_REFRESH_MS = 60 * 1000;
+
+/** Requests in progress, by session ID and JSON-RPC request ID */
+const inFlightRequests = new Map<string, AbortController>();
+
+/**
+ * Abort reason of a request the client cancelled
+ */
+export class RequestCancelledError extends Error {
+  constructor(public readonly reason?: string) {
+    super(reason ? `Request cancelled: ${reason}` : 'Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
 export const metrics: Metrics = {
   startTime: Date.now(),
   totalRequests: 0,
@@ -27,6 +55,109 @@ export const metrics: Metrics = {
   sessionsCreated: 0,
 };
 
+/**
+ * Identify the caller a session belongs to: its gateway API key, else its
+ * OAuth subject. Anonymous callers have no owner.
+ */
+export function getSessionOwner(context: RequestContext): string | undefined {
+  if (context.apiKeyId) return `key:${context.apiKeyId}`;
+  if (context.auth?.subject) return `sub:${context.auth.subject}`;
+  return undefined;
+}
+
+/**
+ * Create an MCP session for an `initialize` request
+ */
+export async function createMcpSession(
+  init: Pick<McpSession, 'protocolVersion' | 'clientInfo' | 'capabilities' | 'owner'>
+): Promise<McpSession> {
+  const now = Date.now();
+  const session: McpSession = {
+    id: crypto.randomUUID(),
+    ...init,
+    createdAt: now,
+    lastActivity: now,
+  };
+  await kv.saveMcpSession(session, getSessionTtlMs());
+  mcpSessions.set(session.id, session);
+  metrics.sessionsCreated++;
+  return session;
+}
+
+/**
+ * Look up an MCP session and extend its expiry.
+ * Returns null for unknown, ended or expired session IDs.
+ */
+export async function getMcpSession(id: string): Promise<McpSession | null> {
+  const now = Date.now();
+  const cached = mcpSessions.get(id);
+  if (cached && now - cached.lastActivity < SESSION_REFRESH_MS) {
+    return cached;
+  }
+
+  // Re-read so sessions ended in other isolates are noticed
+  const ttl = getSessionTtlMs();
+  const stored = await kv.getMcpSession(id);
+  if (!stored || now - stored.lastActivity > ttl) {
+    mcpSessions.delete(id);
+    return null;
+  }
+  const session = { ...stored, lastActivity: now };
+  await kv.saveMcpSession(session, ttl);
+  mcpSessions.set(id, session);
+  return session;
+}
+
+/**
+ * End an MCP session and close its SSE stream.
+ * Returns false if the session does not exist.
+ */
+export async function endMcpSession(id: string): Promise<boolean> {
+  if (!(await getMcpSession(id))) {
+    return false;
+  }
+  mcpSessions.delete(id);
+  await kv.deleteMcpSession(id);
+  closeStream(id);
+  return true;
+}
+
+/**
+ * Forget the sessions of this isolate that expired while idle and close
+ * their SSE streams. Returns their IDs, so what they held can be released.
+ */
+export async function expireMcpSessions(): Promise<string[]> {
+  const now = Date.now();
+  const ttl = getSessionTtlMs();
+  const expired: string[] = [];
+  for (const [id, cached] of Array.from(mcpSessions)) {
+    if (now - cached.lastActivity <= ttl) continue;
+    // Another isolate may have seen the session more recently
+    const stored = await kv.getMcpSession(id);
+    if (stored && now - stored.lastActivity <= ttl) {
+      mcpSessions.set(id, stored);
+      continue;
+    }
+    mcpSessions.delete(id);
+    if (stored) await kv.deleteMcpSession(id);
+    closeStream(id);
+    expired.push(id);
+  }
+  return expired;
+}
+
+function closeStream(sessionId: string): void {
+  const stream = sessions.get(sessionId);
+  if (stream) {
+    try {
+      stream.controller.close();
+    } catch {
+      // Already closed
+    }
+    sessions.delete(sessionId);
+  }
+}
+
 /**
  * Send SSE message to a session
  */
@@ -48,3 +179,54 @@ export function sendSSE(
   }
   return false;
 }
+
+/**
+ * Send SSE message to every open stream
+ */
+export function broadcastSSE(event: string, data: unknown): number {
+  let sent = 0;
+  for (const sessionId of Array.from(sessions.keys())) {
+    if (sendSSE(sessionId, event, data)) sent++;
+  }
+  return sent;
+}
+
+function inFlightKey(sessionId: string, requestId: string | number): string {
+  // Keep the type in the key: requests 1 and "1" are different
+  return `${sessionId}\n${JSON.stringify(requestId)}`;
+}
+
+/**
+ * Track a request so `notifications/cancelled` can abort it. `done` must be
+ * called once the request completes.
+ */
+export function trackRequest(
+  sessionId: string,
+  requestId: string | number
+): { signal: AbortSignal; done: () => void } {
+  const key = inFlightKey(sessionId, requestId);
+  const controller = new AbortController();
+  inFlightRequests.set(key, controller);
+  return {
+    signal: controller.signal,
+    done: () => {
+      if (inFlightRequests.get(key) === controller) inFlightRequests.delete(key);
+    },
+  };
+}
+
+/**
+ * Abort a request of a session. Returns false if it is not in progress.
+ */
+export function cancelRequest(
+  sessionId: string,
+  requestId: string | number,
+  reason?: string
+): boolean {
+  const key = inFlightKey(sessionId, requestId);
+  const controller = inFlightRequests.get(key);
+  if (!controller) return false;
+  inFlightRequests.delete(key);
+  controller.abort(new RequestCancelledError(reason));
+  return true;
+}
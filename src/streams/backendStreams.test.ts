@@ -0,0 +1,232 @@
+/**
+ * Backend Notification Stream Tests
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+/**
+ * Read a client SSE stream until it contains all expected strings
+ */
+async function readUntil(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  expected: string[],
+  timeoutMs = 5000
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out, received: ${text}`)), timeoutMs);
+  });
+  try {
+    while (!expected.every((s) => text.includes(s))) {
+      const { value, done } = await Promise.race([reader.read(), timeout]);
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    return text;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+Deno.test({
+  name: 'Backend streams - list_changed is relayed and emitted on register and delete',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `notify-${Date.now()}`;
+    const encoder = new TextEncoder();
+    let backendStream: ReadableStreamDefaultController<Uint8Array> | undefined;
+    const streamOpened = Promise.withResolvers<void>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            backendStream = controller;
+            streamOpened.resolve();
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      const { id } = await req.json();
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    const initRes = await handler(
+      new Request('http://localhost:8000/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: {} },
+        }),
+      })
+    );
+    const { result } = await initRes.json();
+    assertEquals(result.capabilities.tools, { listChanged: true });
+    const sessionId = initRes.headers.get('Mcp-Session-Id')!;
+
+    const streamRes = await handler(
+      new Request('http://localhost:8000/mcp', {
+        method: 'GET',
+        headers: { 'Mcp-Session-Id': sessionId },
+      })
+    );
+    const reader = streamRes.body!.getReader();
+
+    try {
+      // Registering emits list_changed and opens a stream to the new backend
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Notifying Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      assertEquals(registerRes.status, 200);
+      await registerRes.body?.cancel();
+      const onRegister = await readUntil(reader, [
+        'notifications/tools/list_changed',
+        'notifications/resources/list_changed',
+        'notifications/prompts/list_changed',
+      ]);
+      assert(onRegister.startsWith('event: message\ndata: '));
+
+      // Backend notifications are relayed
+      await streamOpened.promise;
+      backendStream!.enqueue(
+        encoder.encode(
+          ': ping\n\n' +
+            'data: {"jsonrpc":"2.0",\ndata: "method":"notifications/prompts/list_changed"}\n\n'
+        )
+      );
+      const relayed = await readUntil(reader, ['notifications/prompts/list_changed']);
+      assertEquals(
+        relayed,
+        'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/prompts/list_changed"}\n\n'
+      );
+
+      // Deleting emits list_changed again
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      assertEquals(deleteRes.status, 200);
+      await deleteRes.body?.cancel();
+      await readUntil(reader, ['notifications/tools/list_changed']);
+    } finally {
+      await reader.cancel();
+      const endRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': sessionId },
+        })
+      );
+      await endRes.body?.cancel();
+      try {
+        backendStream?.close();
+      } catch {
+        // Already cancelled when the server was deleted
+      }
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Backend streams - intermediate messages of a streamed response reach the client',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `relay-${Date.now()}`;
+    const encoder = new TextEncoder();
+    const backendReply = Promise.withResolvers<Record<string, unknown>>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const message = await req.json();
+      if (!message.method) {
+        backendReply.resolve(message);
+        return new Response(null, { status: 202 });
+      }
+      if (message.method !== 'tools/call') {
+        return Response.json({ jsonrpc: '2.0', id: message.id, result: { tools: [] } });
+      }
+
+      // Log lines, comments and a server-to-client request ahead of the result
+      const body =
+        ': keep-alive\n\n' +
+        'id: 1\nevent: message\ndata: {"jsonrpc":"2.0","method":"notifications/message",\n' +
+        'data: "params":{"level":"info","data":"working"}}\n\n' +
+        `data: ${JSON.stringify({ jsonrpc: '2.0', id: 'srv-1', method: 'roots/list' })}\n\n` +
+        `data: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { content: [] } })}\n\n`;
+      return new Response(encoder.encode(body), {
+        headers: { 'Content-Type': 'text/event-stream' },
+      });
+    });
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Relay Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 7,
+            method: 'tools/call',
+            params: { name: `${serverId}__work`, arguments: {} },
+          }),
+        })
+      );
+      assertEquals(res.headers.get('Content-Type'), 'text/event-stream');
+
+      const text = await readUntil(res.body!.getReader(), ['"id":7']);
+      const log = {
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'info', data: 'working', logger: serverId },
+      };
+      assert(text.startsWith(`event: message\ndata: ${JSON.stringify(log)}\n\n`));
+      assert(!text.includes('roots/list'));
+      assert(text.includes('"result":{"content":[]}'));
+
+      const reply = await backendReply.promise;
+      assertEquals(reply.id, 'srv-1');
+      assertEquals((reply.error as { code: number }).code, -32601);
+    } finally {
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
@@ -0,0 +1,287 @@
+/**
+ * Backend Notification Streams
+ *
+ * Keeps a GET stream open to every backend that offers one and relays the
+ * notifications it carries to connected clients. Backends answering the GET
+ * with 405 (or anything but an event stream) are left alone; broken streams
+ * are reopened with backoff, resuming from the last event ID.
+ *
+ * While a client has its GET stream open, the backend sessions it uses on
+ * session-based backends get a GET stream of their own. What arrives there
+ * belongs to that client, so requests such as sampling can be forwarded.
+ */
+
+import {
+  BackendHttpError,
+  dispatchBackendMessage,
+  dropBackendSession,
+  getBackendSession,
+} from '../backend.ts';
+import { buildBackendHeaders } from '../auth/mod.ts';
+import { egressFetch } from '../egress/mod.ts';
+import { jsonRpcNotification } from '../jsonrpc.ts';
+import { logger } from '../logger.ts';
+import { broadcastSSE, sendSSE } from '../session.ts';
+import { clearToolSchemas } from '../validation/toolSchemas.ts';
+import type { BackendServer, McpSession, RequestContext } from '../types.ts';
+import { SseParser } from './sseParser.ts';
+import { relayProgress } from './progress.ts';
+import { relayResourceUpdated } from './subscriptions.ts';
+import { relayBackendLog } from './logging.ts';
+import { relaySamplingRequest } from './clientRequests.ts';
+
+export const LIST_CHANGED_NOTIFICATIONS = [
+  'notifications/tools/list_changed',
+  'notifications/resources/list_changed',
+  'notifications/prompts/list_changed',
+];
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+interface BackendStream {
+  server: BackendServer;
+  controller: AbortController;
+  context: RequestContext; // Client the stream belongs to, empty for shared streams
+}
+
+/**
+ * Streams by server ID. Backends without a stream keep their entry, so they
+ * are not asked again until the server is re-registered.
+ */
+const streams = new Map<string, BackendStream>();
+
+/** Streams of per-client backend sessions, by client session ID and server ID */
+const clientStreams = new Map<string, Map<string, BackendStream>>();
+
+/** Set once a client opened a stream: until then notifications have no recipient */
+let watching = false;
+
+/**
+ * Open streams to the given backends, unless already open
+ */
+export function watchBackendStreams(servers: BackendServer[]): void {
+  watching = true;
+  for (const server of servers) {
+    if (!streams.has(server.id)) streams.set(server.id, openBackendStream(server));
+  }
+}
+
+/**
+ * Open streams on the backend sessions a client uses, for the session-based
+ * backends among `servers`, unless already open
+ */
+export function watchClientBackendStreams(
+  servers: BackendServer[],
+  client: McpSession
+): void {
+  let byServer = clientStreams.get(client.id);
+  if (!byServer) {
+    byServer = new Map();
+    clientStreams.set(client.id, byServer);
+  }
+  for (const server of servers) {
+    if (server.requiresSession && !byServer.has(server.id)) {
+      byServer.set(server.id, openBackendStream(server, clientContext(client)));
+    }
+  }
+}
+
+/**
+ * Close the streams opened for a client that went away
+ */
+export function stopClientBackendStreams(clientSessionId: string): void {
+  for (const stream of clientStreams.get(clientSessionId)?.values() ?? []) {
+    stream.controller.abort();
+  }
+  clientStreams.delete(clientSessionId);
+}
+
+/**
+ * Reopen the streams of a server whose configuration changed
+ */
+export function restartBackendStream(server: BackendServer): void {
+  stopBackendStream(server.id);
+  if (watching) streams.set(server.id, openBackendStream(server));
+}
+
+/**
+ * Close the streams of a server, including those of client sessions
+ */
+export function stopBackendStream(serverId: string): void {
+  streams.get(serverId)?.controller.abort();
+  streams.delete(serverId);
+  for (const byServer of clientStreams.values()) {
+    byServer.get(serverId)?.controller.abort();
+    byServer.delete(serverId);
+  }
+}
+
+/**
+ * Tell every connected client that the tool, resource and prompt lists changed
+ */
+export function broadcastListChanged(methods: string[] = LIST_CHANGED_NOTIFICATIONS): void {
+  for (const method of methods) {
+    broadcastSSE('message', jsonRpcNotification(method));
+  }
+}
+
+function openBackendStream(server: BackendServer, context: RequestContext = {}): BackendStream {
+  const stream: BackendStream = { server, controller: new AbortController(), context };
+  runBackendStream(stream);
+  return stream;
+}
+
+/**
+ * Context for messages on a client's backend session: they go to its stream
+ */
+function clientContext(client: McpSession): RequestContext {
+  return {
+    sessionId: client.id,
+    clientInfo: client.clientInfo,
+    clientCapabilities: client.capabilities,
+    sendMessage: (message) => sendSSE(client.id, 'message', message),
+  };
+}
+
+async function runBackendStream({ server, controller, context }: BackendStream): Promise<void> {
+  const { signal } = controller;
+  const parser = new SseParser();
+  let delayMs = RECONNECT_DELAY_MS;
+
+  while (!signal.aborted) {
+    try {
+      const sessionId = await getBackendSession(server, context.sessionId);
+      const headers: Record<string, string> = {
+        ...(await buildBackendHeaders(server)),
+        Accept: 'text/event-stream',
+      };
+      if (sessionId) headers['Mcp-Session-Id'] = sessionId;
+      if (parser.lastEventId) headers['Last-Event-ID'] = parser.lastEventId;
+
+      const response = await egressFetch(server.endpoint, { headers, signal });
+      const isEventStream = (response.headers.get('Content-Type') ?? '').includes(
+        'text/event-stream'
+      );
+
+      if (response.status === 404 && sessionId) {
+        // Backend session expired: the next attempt initializes a new one
+        await response.body?.cancel();
+        await dropBackendSession(server.id, sessionId, context.sessionId);
+      } else if (
+        response.status === 404 ||
+        response.status === 405 ||
+        (response.ok && !isEventStream)
+      ) {
+        await response.body?.cancel();
+        logger.info('Backend offers no notification stream', {
+          serverId: server.id,
+          status: response.status,
+        });
+        return;
+      } else if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        throw new BackendHttpError(response.status);
+      } else {
+        logger.info('Backend notification stream opened', { serverId: server.id });
+        delayMs = RECONNECT_DELAY_MS;
+        for await (const chunk of response.body.pipeThrough(new TextDecoderStream())) {
+          for (const event of parser.push(chunk)) {
+            if (event.data) handleStreamEvent(server, sessionId, event.data, context);
+          }
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      logger.warn('Backend notification stream failed', {
+        serverId: server.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delayMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+    delayMs = Math.min(delayMs * 2, MAX_RECONNECT_DELAY_MS);
+  }
+}
+
+function handleStreamEvent(
+  server: BackendServer,
+  sessionId: string | null,
+  data: string,
+  context: RequestContext
+): void {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    logger.warn('Invalid JSON on backend stream', { serverId: server.id });
+    return;
+  }
+  // Shared streams belong to no client: there is no caller to forward to
+  dispatchBackendMessage(
+    server,
+    sessionId,
+    message,
+    (m) => relayBackendMessage(m, server, context)
+  );
+}
+
+/**
+ * Relay a message a backend sent on its GET stream or ahead of a response.
+ * `context` is the client request the response belongs to, or the client
+ * whose backend session the stream belongs to, if any: notifications without
+ * special handling go to that client, as do sampling requests. Other
+ * requests get no response here.
+ */
+export function relayBackendMessage(
+  message: Record<string, unknown>,
+  server: BackendServer,
+  context: RequestContext = {}
+): Promise<Record<string, unknown>> | void {
+  const { sendMessage } = context;
+  const method = typeof message.method === 'string' ? message.method : undefined;
+  if (method && LIST_CHANGED_NOTIFICATIONS.includes(method)) {
+    if (method === 'notifications/tools/list_changed') {
+      clearToolSchemas(server.id);
+    }
+    logger.info('Backend list changed', { serverId: server.id, method });
+    broadcastListChanged([method]);
+    return;
+  }
+
+  if (method === 'notifications/progress') {
+    relayProgress(server.id, message.params as Record<string, unknown> | undefined);
+    return;
+  }
+
+  if (method === 'notifications/message') {
+    relayBackendLog(server, message.params as Record<string, unknown> | undefined, context);
+    return;
+  }
+
+  if (method === 'notifications/resources/updated') {
+    relayResourceUpdated(server.id, message.params as Record<string, unknown> | undefined);
+    return;
+  }
+
+  if (message.id !== undefined && message.id !== null) {
+    if (method === 'sampling/createMessage') {
+      return relaySamplingRequest(message, server, context);
+    }
+    logger.warn('Backend request not supported', { serverId: server.id, method });
+    return;
+  }
+
+  if (method && sendMessage) {
+    sendMessage(message);
+    return;
+  }
+
+  logger.debug('Ignoring backend message', { serverId: server.id, method });
+}
@@ -0,0 +1,360 @@
+/**
+ * Client Request Tests
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { sendJsonRpcRequest } from '../backend.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+function rpc(
+  message: Record<string, unknown>,
+  sessionId?: string,
+  accept = 'application/json'
+): Promise<Response> {
+  return handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: accept,
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    })
+  );
+}
+
+async function openSession(capabilities: Record<string, unknown>): Promise<string> {
+  const res = await rpc({
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities },
+  });
+  await res.body?.cancel();
+  return res.headers.get('Mcp-Session-Id')!;
+}
+
+/**
+ * Read SSE events from a response until the stream ends or `stop` matches
+ */
+async function readEvents(
+  reader: ReadableStreamDefaultReader<string>,
+  stop: (message: Record<string, unknown>) => boolean
+): Promise<Record<string, unknown>[]> {
+  const messages: Record<string, unknown>[] = [];
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return messages;
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop()!;
+    for (const event of events) {
+      const data = event.split('\n').find((line) => line.startsWith('data: '));
+      if (!data) continue;
+      const message = JSON.parse(data.slice('data: '.length));
+      messages.push(message);
+      if (stop(message)) return messages;
+    }
+  }
+}
+
+Deno.test({
+  name: 'Client requests - sampling is forwarded to the client and its response to the backend',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `sampling-${Date.now()}`;
+    const encoder = new TextEncoder();
+    const replies = new Map<string, PromiseWithResolvers<Record<string, unknown>>>();
+    const replyTo = (id: string) => {
+      if (!replies.has(id)) replies.set(id, Promise.withResolvers());
+      return replies.get(id)!;
+    };
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const message = await req.json();
+      if (!message.method) {
+        replyTo(message.id).resolve(message);
+        return new Response(null, { status: 202 });
+      }
+      if (message.method !== 'tools/call') {
+        return Response.json({ jsonrpc: '2.0', id: message.id, result: {} });
+      }
+
+      // Ask the client to sample, then return what it answered
+      const samplingId = `sample-${message.params.arguments.run}`;
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: unknown) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          send({
+            jsonrpc: '2.0',
+            id: samplingId,
+            method: 'sampling/createMessage',
+            params: { messages: [], maxTokens: 10 },
+          });
+          const reply = await replyTo(samplingId).promise;
+          send({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: { content: [{ type: 'text', text: JSON.stringify(reply) }] },
+          });
+          controller.close();
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    });
+
+    const sessionIds: string[] = [];
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Sampling Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+      const callTool = (sessionId: string, run: number) =>
+        rpc(
+          {
+            id: 7,
+            method: 'tools/call',
+            params: { name: `${serverId}__summarize`, arguments: { run } },
+          },
+          sessionId,
+          'application/json, text/event-stream'
+        );
+
+      // The client declared sampling: the request reaches it under a gateway ID
+      const sampling = await openSession({ sampling: {} });
+      sessionIds.push(sampling);
+      const res = await callTool(sampling, 1);
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const [request] = await readEvents(reader, (m) => m.method === 'sampling/createMessage');
+      assertEquals(request.params, { messages: [], maxTokens: 10 });
+      assert(request.id !== 'sample-1');
+
+      // Responses from other sessions are not taken
+      const other = await openSession({ sampling: {} });
+      sessionIds.push(other);
+      const stray = await rpc({ id: request.id, result: { model: 'stray' } }, other);
+      assertEquals(stray.status, 202);
+
+      const sampled = { role: 'assistant', content: { type: 'text', text: 'Hi' }, model: 'm' };
+      const answer = await rpc({ id: request.id, result: sampled }, sampling);
+      assertEquals(answer.status, 202);
+      assertEquals(await replyTo('sample-1').promise, {
+        jsonrpc: '2.0',
+        id: 'sample-1',
+        result: sampled,
+      });
+      const [response] = await readEvents(reader, (m) => m.id === 7);
+      assert((response.result as { content: { text: string }[] }).content[0].text.includes('Hi'));
+
+      // Without the capability the backend is told sampling is unavailable
+      const plain = await openSession({});
+      sessionIds.push(plain);
+      const plainRes = await callTool(plain, 2);
+      const plainReply = await replyTo('sample-2').promise;
+      assertEquals((plainReply.error as { code: number }).code, -32601);
+      const plainEvents = await readEvents(
+        plainRes.body!.pipeThrough(new TextDecoderStream()).getReader(),
+        (m) => m.id === 7
+      );
+      assertEquals(plainEvents.length, 1);
+
+      // Without a stream to deliver it on the backend is told at once, not after minutes
+      const started = Date.now();
+      const jsonRes = await rpc(
+        {
+          id: 8,
+          method: 'tools/call',
+          params: { name: `${serverId}__summarize`, arguments: { run: 3 } },
+        },
+        sampling
+      );
+      await jsonRes.body?.cancel();
+      const unreachableReply = await replyTo('sample-3').promise;
+      assertEquals((unreachableReply.error as { code: number }).code, -32603);
+      assert(Date.now() - started < 5000);
+    } finally {
+      for (const sessionId of sessionIds) {
+        const endRes = await handler(
+          new Request('http://localhost:8000/mcp', {
+            method: 'DELETE',
+            headers: { 'Mcp-Session-Id': sessionId },
+          })
+        );
+        await endRes.body?.cancel();
+      }
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Client requests - the backend request timeout waits for the client',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const encoder = new TextEncoder();
+    // Asks the client something, then answers once 500 ms have passed
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const { id } = await req.json();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: unknown) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          send({ jsonrpc: '2.0', id: 'ask', method: 'sampling/createMessage', params: {} });
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          send({ jsonrpc: '2.0', id, result: { done: true } });
+          controller.close();
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    });
+
+    try {
+      const result = await sendJsonRpcRequest(
+        `http://localhost:${backend.addr.port}/mcp`,
+        'tools/call',
+        {},
+        200,
+        null,
+        {},
+        { onMessage: () => new Promise((resolve) => setTimeout(resolve, 450)) }
+      );
+      assertEquals(result, { done: true });
+    } finally {
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Client requests - sampling on a client backend session GET stream reaches the client',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `sampling-stream-${Date.now()}`;
+    const encoder = new TextEncoder();
+    const replies = new Map<string, PromiseWithResolvers<Record<string, unknown>>>();
+    const replyTo = (id: string) => {
+      if (!replies.has(id)) replies.set(id, Promise.withResolvers());
+      return replies.get(id)!;
+    };
+    const backendStreams: ReadableStreamDefaultController<Uint8Array>[] = [];
+    const bothOpened = Promise.withResolvers<void>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'DELETE') return new Response(null, { status: 204 });
+      if (req.method === 'GET') {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            backendStreams.push(controller);
+            if (backendStreams.length === 2) bothOpened.resolve();
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      const message = await req.json();
+      if (!message.method) {
+        replyTo(message.id).resolve(message);
+        return new Response(null, { status: 202 });
+      }
+      if (message.id === undefined) return new Response(null, { status: 202 });
+      // Every client of the gateway gets a backend session of its own
+      return Response.json(
+        { jsonrpc: '2.0', id: message.id, result: {} },
+        { headers: { 'Mcp-Session-Id': crypto.randomUUID() } }
+      );
+    });
+
+    const registerRes = await handler(
+      new Request('http://localhost:8000/servers/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: serverId,
+          name: 'Sampling Stream Backend',
+          endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          requiresSession: true,
+        }),
+      })
+    );
+    await registerRes.body?.cancel();
+
+    const sessionId = await openSession({ sampling: {} });
+    const streamRes = await handler(
+      new Request('http://localhost:8000/mcp', {
+        method: 'GET',
+        headers: { 'Mcp-Session-Id': sessionId },
+      })
+    );
+    const reader = streamRes.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+    try {
+      // One stream on the shared backend session, one on the client's
+      await bothOpened.promise;
+      backendStreams.forEach((controller, i) => {
+        const request = {
+          jsonrpc: '2.0',
+          id: `ask-${i}`,
+          method: 'sampling/createMessage',
+          params: { messages: [], maxTokens: 5 },
+        };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(request)}\n\n`));
+      });
+
+      const [request] = await readEvents(reader, (m) => m.method === 'sampling/createMessage');
+      const sampled = { role: 'assistant', content: { type: 'text', text: 'Hi' }, model: 'm' };
+      const answer = await rpc({ id: request.id, result: sampled }, sessionId);
+      assertEquals(answer.status, 202);
+
+      const results = await Promise.all([replyTo('ask-0').promise, replyTo('ask-1').promise]);
+      assertEquals(results.filter((reply) => reply.result).map((reply) => reply.result), [
+        sampled,
+      ]);
+      assertEquals(
+        results.filter((reply) => reply.error).map((reply) => (reply.error as { code: number }).code),
+        [-32601]
+      );
+    } finally {
+      await reader.cancel();
+      const endRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': sessionId },
+        })
+      );
+      await endRes.body?.cancel();
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      for (const controller of backendStreams) {
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled when the server was deleted
+        }
+      }
+      await backend.shutdown();
+    }
+  },
+});
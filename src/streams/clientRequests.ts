@@ -0,0 +1,111 @@
+/**
+ * Client Requests
+ *
+ * Backends may send requests of their own while handling a client's
+ * request, such as sampling/createMessage. The gateway forwards them to that
+ * client under an ID unique to the gateway. The client POSTs its response
+ * like any other message; it is matched back by session and ID and returned
+ * to the backend under the backend's ID.
+ */
+
+import {
+  jsonRpcError,
+  JsonRpcErrorCode,
+  jsonRpcRequest,
+  jsonRpcResponse,
+} from '../jsonrpc.ts';
+import { logger } from '../logger.ts';
+import type { BackendServer, RequestContext } from '../types.ts';
+
+/** Sampling may wait for the user to approve the request */
+const CLIENT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingRequest {
+  sessionId: string;
+  resolve: (response: Record<string, unknown>) => void;
+}
+
+/** Requests sent to clients, by the ID the gateway gave them */
+const pendingRequests = new Map<string, PendingRequest>();
+
+/**
+ * Send a request to the client of a session and wait for its response
+ * message (with either `result` or `error`). Fails at once if the request
+ * cannot be delivered, e.g. because the session has no open stream.
+ */
+export async function requestFromClient(
+  sessionId: string,
+  sendMessage: (message: Record<string, unknown>) => boolean,
+  method: string,
+  params?: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const id = crypto.randomUUID();
+  const { promise, resolve } = Promise.withResolvers<Record<string, unknown>>();
+  pendingRequests.set(id, { sessionId, resolve });
+  const timer = setTimeout(
+    () =>
+      resolve(jsonRpcError(id, JsonRpcErrorCode.INTERNAL_ERROR, 'Client did not respond in time')),
+    CLIENT_REQUEST_TIMEOUT_MS
+  );
+  try {
+    if (!sendMessage(jsonRpcRequest(id, method, params))) {
+      logger.warn('Client request could not be delivered', { sessionId, method });
+      return jsonRpcError(id, JsonRpcErrorCode.INTERNAL_ERROR, 'Client is not connected');
+    }
+    return await promise;
+  } finally {
+    clearTimeout(timer);
+    pendingRequests.delete(id);
+  }
+}
+
+/**
+ * Hand a response the client POSTed to the request waiting for it.
+ * Returns false if no request of the session has that ID.
+ */
+export function resolveClientResponse(
+  sessionId: string,
+  message: Record<string, unknown>
+): boolean {
+  const pending = typeof message.id === 'string' ? pendingRequests.get(message.id) : undefined;
+  // A client can only answer requests sent to it
+  if (!pending || pending.sessionId !== sessionId) {
+    logger.warn('Dropping response to unknown request', { sessionId });
+    return false;
+  }
+  pending.resolve(message);
+  return true;
+}
+
+/**
+ * Forward a backend's sampling/createMessage to the client whose request it
+ * came with, if that client declared sampling. Returns the response for the
+ * backend.
+ */
+export async function relaySamplingRequest(
+  message: Record<string, unknown>,
+  server: BackendServer,
+  context: RequestContext
+): Promise<Record<string, unknown>> {
+  const id = message.id as string | number;
+  const { sessionId, sendMessage, clientCapabilities } = context;
+  if (!sessionId || !sendMessage || !clientCapabilities?.sampling) {
+    logger.warn('Sampling request without a client supporting it', { serverId: server.id });
+    return jsonRpcError(
+      id,
+      JsonRpcErrorCode.METHOD_NOT_FOUND,
+      'Sampling is not supported by the client'
+    );
+  }
+
+  logger.info('Forwarding sampling request to client', { serverId: server.id, sessionId });
+  const response = await requestFromClient(
+    sessionId,
+    sendMessage,
+    'sampling/createMessage',
+    message.params as Record<string, unknown> | undefined
+  );
+  return response.error
+    ? { jsonrpc: '2.0', id, error: response.error }
+    : jsonRpcResponse(id, response.result);
+}
@@ -0,0 +1,293 @@
+/**
+ * Client Logging Tests
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import * as kv from '../kv.ts';
+import { logger } from '../logger.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+/**
+ * Read a client SSE stream until it contains all expected strings
+ */
+async function readUntil(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  expected: string[],
+  timeoutMs = 5000
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out, received: ${text}`)), timeoutMs);
+  });
+  try {
+    while (!expected.every((s) => text.includes(s))) {
+      const { value, done } = await Promise.race([reader.read(), timeout]);
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    return text;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function register(id: string, port: number, requiresSession: boolean): Promise<Response> {
+  return handler(
+    new Request('http://localhost:8000/servers/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id,
+        name: 'Logging Backend',
+        endpoint: `http://localhost:${port}/mcp`,
+        requiresSession,
+      }),
+    })
+  );
+}
+
+async function openSession(clientName: string): Promise<string> {
+  const res = await rpc({
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: clientName, version: '1.0.0' },
+    },
+  });
+  const { result } = await res.json();
+  assertEquals(result.capabilities.logging, {});
+  return res.headers.get('Mcp-Session-Id')!;
+}
+
+function rpc(message: Record<string, unknown>, sessionId?: string): Promise<Response> {
+  return handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    })
+  );
+}
+
+Deno.test({
+  name: 'Client logging - setLevel is forwarded and log messages are sent at or above it',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `logging-${Date.now()}`;
+    const sessionlessId = `${serverId}-sessionless`;
+    const policyId = `${serverId}-policy`;
+    const encoder = new TextEncoder();
+    const levelsSet: unknown[] = [];
+    const levelSessions: (string | null)[] = [];
+    const sessionlessLevelsSet: unknown[] = [];
+    // GET streams by backend session: the shared one and the client's
+    const backendStreams = new Map<string, ReadableStreamDefaultController<Uint8Array>>();
+    const streamsOpened = Promise.withResolvers<void>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            backendStreams.set(req.headers.get('Mcp-Session-Id')!, controller);
+            if (backendStreams.size === 2) streamsOpened.resolve();
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      if (req.method === 'DELETE') return new Response(null, { status: 204 });
+      const { id, method, params } = await req.json();
+      if (method === 'initialize') {
+        return Response.json(
+          { jsonrpc: '2.0', id, result: { capabilities: { logging: {} } } },
+          { headers: { 'Mcp-Session-Id': crypto.randomUUID() } }
+        );
+      }
+      if (method === 'logging/setLevel') {
+        levelsSet.push(params.level);
+        levelSessions.push(req.headers.get('Mcp-Session-Id'));
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    // Without sessions a level set for one client would apply to all
+    const sessionless = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method, params } = await req.json();
+      if (method === 'logging/setLevel') sessionlessLevelsSet.push(params.level);
+      if (method === 'tools/call') {
+        // Log messages ahead of the result, unaware of the caller's level
+        const message = (level: string, data: string) =>
+          `data: ${JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'notifications/message',
+            params: { level, data },
+          })}\n\n`;
+        const body = message('debug', 'Sessionless debug') +
+          message('warning', 'Sessionless warning') +
+          `data: ${JSON.stringify({ jsonrpc: '2.0', id, result: { content: [] } })}\n\n`;
+        return new Response(encoder.encode(body), {
+          headers: { 'Content-Type': 'text/event-stream' },
+        });
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: { capabilities: { logging: {} } } });
+    });
+
+    await (await register(serverId, backend.addr.port, true)).body?.cancel();
+    await (await register(sessionlessId, sessionless.addr.port, false)).body?.cancel();
+    await kv.saveAccessPolicy({
+      id: policyId,
+      subjects: [`client:${policyId}`],
+      rules: [{ effect: 'deny', servers: [serverId] }],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    const sessionId = await openSession('logging-test');
+    const deniedId = await openSession(policyId);
+    const [reader, deniedReader] = await Promise.all(
+      [sessionId, deniedId].map(async (id) => {
+        const res = await handler(
+          new Request('http://localhost:8000/mcp', {
+            method: 'GET',
+            headers: { 'Mcp-Session-Id': id },
+          })
+        );
+        return res.body!.getReader();
+      })
+    );
+
+    try {
+      const invalid = await rpc(
+        { id: 2, method: 'logging/setLevel', params: { level: 'verbose' } },
+        sessionId
+      );
+      assertEquals((await invalid.json()).error.code, -32602);
+
+      const setLevel = await rpc(
+        { id: 3, method: 'logging/setLevel', params: { level: 'warning' } },
+        sessionId
+      );
+      assertEquals((await setLevel.json()).result, {});
+      assertEquals(levelsSet, ['warning']);
+      assertEquals(sessionlessLevelsSet, []);
+
+      // Sessions are only told about servers their policy allows
+      const deniedSetLevel = await rpc(
+        { id: 4, method: 'logging/setLevel', params: { level: 'debug' } },
+        deniedId
+      );
+      assertEquals((await deniedSetLevel.json()).result, {});
+      assertEquals(levelsSet, ['warning']);
+
+      // Gateway entries: only the message is sent, at the mapped level
+      logger.info('Gateway info below the level', { sessionId });
+      logger.warn('Gateway warning for clients', { sessionId });
+
+      // Backend entries on its GET stream get the server ID as logger prefix
+      await streamsOpened.promise;
+      const log = (level: string, data: string) =>
+        `data: ${JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: { level, logger: 'db', data },
+        })}\n\n`;
+      const clientStream = backendStreams.get(levelSessions[0]!)!;
+      const sharedStream = [...backendStreams]
+        .find(([backendSessionId]) => backendSessionId !== levelSessions[0])![1];
+      sharedStream.enqueue(
+        encoder.encode(log('debug', 'Backend debug') + log('error', 'Backend error'))
+      );
+      // The level applies to the client's own backend session as well
+      clientStream.enqueue(
+        encoder.encode(
+          log('info', 'Backend info for the client') +
+            log('warning', 'Backend warning for the client')
+        )
+      );
+
+      const text = await readUntil(reader, [
+        'Gateway warning',
+        'Backend error',
+        'Backend warning for the client',
+      ]);
+      assert(!text.includes('Gateway info'));
+      assert(!text.includes('Backend debug'));
+      assert(!text.includes('Backend info for the client'));
+      assert(text.includes(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'warning', logger: 'gateway', data: 'Gateway warning for clients' },
+      })));
+      assert(text.includes(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'error', logger: `${serverId}__db`, data: 'Backend error' },
+      })));
+
+      logger.warn('Gateway marker after the backend entries', { sessionId });
+      const deniedText = await readUntil(deniedReader, ['Gateway marker']);
+      assert(!deniedText.includes('Backend'));
+
+      // Messages ahead of a sessionless backend's response get the level applied too
+      const callRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            'Mcp-Session-Id': sessionId,
+          },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 5,
+            method: 'tools/call',
+            params: { name: `${sessionlessId}__work`, arguments: {} },
+          }),
+        })
+      );
+      const callText = await readUntil(callRes.body!.getReader(), ['"id":5']);
+      assert(callText.includes('Sessionless warning'));
+      assert(!callText.includes('Sessionless debug'));
+    } finally {
+      await reader.cancel();
+      await deniedReader.cancel();
+      for (const id of [sessionId, deniedId]) {
+        const endRes = await handler(
+          new Request('http://localhost:8000/mcp', {
+            method: 'DELETE',
+            headers: { 'Mcp-Session-Id': id },
+          })
+        );
+        await endRes.body?.cancel();
+      }
+      await kv.deleteAccessPolicy(policyId);
+      for (const id of [serverId, sessionlessId]) {
+        const deleteRes = await handler(
+          new Request(`http://localhost:8000/mcp/servers/${id}`, { method: 'DELETE' })
+        );
+        await deleteRes.body?.cancel();
+      }
+      for (const controller of backendStreams.values()) {
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled when the server was deleted
+        }
+      }
+      await backend.shutdown();
+      await sessionless.shutdown();
+    }
+  },
+});
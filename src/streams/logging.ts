@@ -0,0 +1,143 @@
+/**
+ * Client Logging
+ *
+ * Sessions choose a level with logging/setLevel. From then on the gateway's
+ * own log entries at or above that level reach the session's stream as
+ * notifications/message, as do log messages backends send on their GET
+ * streams, if the session's access policy (as of setLevel) allows the server.
+ * Backend loggers are prefixed with the server ID.
+ */
+
+import { jsonRpcNotification } from '../jsonrpc.ts';
+import { type LogEntry, LogLevel, logger } from '../logger.ts';
+import { sendSSE } from '../session.ts';
+import type { AccessControl } from '../policy/mod.ts';
+import type { BackendServer, RequestContext } from '../types.ts';
+
+/** MCP log levels, by increasing severity */
+export const LOGGING_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+export type LoggingLevel = typeof LOGGING_LEVELS[number];
+
+const GATEWAY_LOGGER = 'gateway';
+
+const GATEWAY_LEVELS: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.DEBUG]: 'debug',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.ERROR]: 'error',
+};
+
+interface SessionLogging {
+  level: LoggingLevel;
+  access: AccessControl;
+}
+
+/** Requested level and access decisions by session ID */
+const sessionLevels = new Map<string, SessionLogging>();
+
+/** Set while any session has a level */
+let removeListener: (() => void) | undefined;
+
+/** Set while entries are sent, so logging done on the way is not sent again */
+let sending = false;
+
+export function isLoggingLevel(level: unknown): level is LoggingLevel {
+  return LOGGING_LEVELS.includes(level as LoggingLevel);
+}
+
+/**
+ * Send log messages at or above `level` to a session
+ */
+export function setSessionLogLevel(
+  sessionId: string,
+  level: LoggingLevel,
+  access: AccessControl
+): void {
+  sessionLevels.set(sessionId, { level, access });
+  removeListener ??= logger.addListener(sendGatewayEntry);
+}
+
+/**
+ * Stop sending log messages to a session that ended
+ */
+export function clearSessionLogLevel(sessionId: string): void {
+  sessionLevels.delete(sessionId);
+  if (sessionLevels.size === 0 && removeListener) {
+    removeListener();
+    removeListener = undefined;
+  }
+}
+
+/**
+ * Relay a backend's notifications/message with its logger prefixed by the
+ * server ID: to the caller if it came with a response, otherwise to every
+ * session whose level it meets and that may use the server
+ */
+export function relayBackendLog(
+  server: BackendServer,
+  params: Record<string, unknown> | undefined,
+  { sessionId, sendMessage }: Pick<RequestContext, 'sessionId' | 'sendMessage'> = {}
+): void {
+  const backendLogger = typeof params?.logger === 'string' ? params.logger : undefined;
+  const notification = jsonRpcNotification('notifications/message', {
+    ...params,
+    logger: backendLogger ? `${server.id}__${backendLogger}` : server.id,
+  });
+
+  // Backends without sessions never received the caller's level, so apply it here
+  if (sendMessage) {
+    const minLevel = sessionId ? sessionLevels.get(sessionId)?.level : undefined;
+    if (!minLevel || (isLoggingLevel(params?.level) && meetsLevel(params.level, minLevel))) {
+      sendMessage(notification);
+    }
+    return;
+  }
+  if (isLoggingLevel(params?.level)) {
+    sendToSessions(params.level, notification, server.id);
+  }
+}
+
+function meetsLevel(level: LoggingLevel, minLevel: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(minLevel);
+}
+
+function sendGatewayEntry(entry: LogEntry): void {
+  if (sending) return;
+  // Structured data stays in the server log: it may concern other clients
+  const level = GATEWAY_LEVELS[entry.level];
+  sendToSessions(
+    level,
+    jsonRpcNotification('notifications/message', {
+      level,
+      logger: GATEWAY_LOGGER,
+      data: entry.message,
+    })
+  );
+}
+
+function sendToSessions(
+  level: LoggingLevel,
+  notification: Record<string, unknown>,
+  serverId?: string
+): void {
+  sending = true;
+  try {
+    for (const [sessionId, { level: minLevel, access }] of sessionLevels) {
+      if (!meetsLevel(level, minLevel)) continue;
+      if (serverId && !access.isAllowed({ kind: 'server', serverId })) continue;
+      sendSSE(sessionId, 'message', notification);
+    }
+  } finally {
+    sending = false;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Streams Module Exports
+ *
+ * Main entry point for SSE parsing, backend notification streams, client
+ * logging and the relaying of backend messages to clients
+ */
+
+export { SseParser, type SseEvent } from './sseParser.ts';
+export {
+  broadcastListChanged,
+  LIST_CHANGED_NOTIFICATIONS,
+  relayBackendMessage,
+  restartBackendStream,
+  stopBackendStream,
+  stopClientBackendStreams,
+  watchBackendStreams,
+  watchClientBackendStreams,
+} from './backendStreams.ts';
+export { registerProgressToken, releaseProgressToken, relayProgress } from './progress.ts';
+export {
+  relayResourceUpdated,
+  releaseSubscriptions,
+  subscribeResource,
+  unsubscribeResource,
+} from './subscriptions.ts';
+export {
+  clearSessionLogLevel,
+  isLoggingLevel,
+  LOGGING_LEVELS,
+  type LoggingLevel,
+  relayBackendLog,
+  setSessionLogLevel,
+} from './logging.ts';
+export {
+  relaySamplingRequest,
+  requestFromClient,
+  resolveClientResponse,
+} from './clientRequests.ts';
@@ -0,0 +1,193 @@
+/**
+ * Progress Relay Tests
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { sendJsonRpcRequest } from '../backend.ts';
+import { registerProgressToken, releaseProgressToken, relayProgress } from './mod.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+Deno.test('Progress relay - maps tokens back and checks the server', () => {
+  const sent: Record<string, unknown>[] = [];
+  const token = registerProgressToken('weather', 42, (message) => sent.push(message));
+
+  assertEquals(relayProgress('other', { progressToken: token, progress: 1 }), false);
+  assertEquals(relayProgress('weather', { progressToken: token, progress: 1, total: 4 }), true);
+  assertEquals(sent, [
+    {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 42, progress: 1, total: 4 },
+    },
+  ]);
+
+  releaseProgressToken(token);
+  assertEquals(relayProgress('weather', { progressToken: token, progress: 2 }), false);
+});
+
+Deno.test({
+  name: 'Progress relay - backend progress streams to the client before the result',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `progress-${Date.now()}`;
+    const encoder = new TextEncoder();
+    const progressSeen = Promise.withResolvers<void>();
+    let backendToken: unknown;
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') return new Response(null, { status: 405 });
+      const { id, method, params } = await req.json();
+      if (method !== 'tools/call') {
+        return Response.json({ jsonrpc: '2.0', id, result: { tools: [] } });
+      }
+
+      backendToken = params._meta?.progressToken;
+      const event = (message: unknown) =>
+        encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          controller.enqueue(event({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken: backendToken, progress: 1, total: 2, message: 'Halfway' },
+          }));
+          // The result is only sent once the client has seen the progress
+          await progressSeen.promise;
+          controller.enqueue(event({ jsonrpc: '2.0', id, result: { content: [] } }));
+          controller.close();
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    });
+
+    try {
+      const registerRes = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: serverId,
+            name: 'Progress Backend',
+            endpoint: `http://localhost:${backend.addr.port}/mcp`,
+          }),
+        })
+      );
+      await registerRes.body?.cancel();
+
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 5,
+            method: 'tools/call',
+            params: {
+              name: `${serverId}__longTask`,
+              arguments: {},
+              _meta: { progressToken: 'client-token' },
+            },
+          }),
+        })
+      );
+      assertEquals(res.headers.get('Content-Type'), 'text/event-stream');
+
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      const first = await reader.read();
+      assertEquals(
+        first.value,
+        'event: message\ndata: ' +
+          JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken: 'client-token', progress: 1, total: 2, message: 'Halfway' },
+          }) +
+          '\n\n'
+      );
+      assert(typeof backendToken === 'string');
+      assertNotEquals(backendToken, 'client-token');
+      progressSeen.resolve();
+
+      let rest = '';
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        rest += chunk.value;
+      }
+      const response = { jsonrpc: '2.0', id: 5, result: { content: [] } };
+      assertEquals(rest, `event: message\ndata: ${JSON.stringify(response)}\n\n`);
+    } finally {
+      progressSeen.resolve();
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      await backend.shutdown();
+    }
+  },
+});
+
+Deno.test({
+  name: 'Progress relay - progress notifications restart the request timeout',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const encoder = new TextEncoder();
+    // Answers after 600 ms, reporting progress every 100 ms if asked to
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const { id, params } = await req.json();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: unknown) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          for (let progress = 1; progress <= 6; progress++) {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            if (params.progress) {
+              send({
+                jsonrpc: '2.0',
+                method: 'notifications/progress',
+                params: { progressToken: 'p', progress },
+              });
+            }
+          }
+          send({ jsonrpc: '2.0', id, result: { done: true } });
+          controller.close();
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    });
+    const endpoint = `http://localhost:${backend.addr.port}/mcp`;
+
+    try {
+      const progress: unknown[] = [];
+      const result = await sendJsonRpcRequest(
+        endpoint,
+        'tools/call',
+        { progress: true },
+        300,
+        null,
+        {},
+        { onMessage: (message) => void progress.push(message) }
+      );
+      assertEquals(result, { done: true });
+      assertEquals(progress.length, 6);
+
+      await assertRejects(() =>
+        sendJsonRpcRequest(endpoint, 'tools/call', { progress: false }, 300)
+      );
+    } finally {
+      await backend.shutdown();
+    }
+  },
+});
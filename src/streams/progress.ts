@@ -0,0 +1,66 @@
+/**
+ * Progress Relay
+ *
+ * Clients choose their own progress tokens, so tokens of different clients
+ * may collide on a shared backend session. Backends get a token unique to
+ * the gateway instead; their notifications/progress are mapped back to the
+ * client's token and sent to the client that made the request.
+ */
+
+import { jsonRpcNotification } from '../jsonrpc.ts';
+import { logger } from '../logger.ts';
+
+interface ProgressTarget {
+  serverId: string;
+  clientToken: string | number;
+  send: (message: Record<string, unknown>) => void;
+}
+
+/** Clients waiting for progress, by the token sent to the backend */
+const progressTargets = new Map<string, ProgressTarget>();
+
+/**
+ * Register the progress token of a client request to a backend.
+ * Returns the token to send to the backend.
+ */
+export function registerProgressToken(
+  serverId: string,
+  clientToken: string | number,
+  send: (message: Record<string, unknown>) => void
+): string {
+  const token = crypto.randomUUID();
+  progressTargets.set(token, { serverId, clientToken, send });
+  return token;
+}
+
+/**
+ * Stop relaying progress once the request completed
+ */
+export function releaseProgressToken(token: string): void {
+  progressTargets.delete(token);
+}
+
+/**
+ * Send a backend's notifications/progress to the client under its own
+ * token. Returns false for unknown tokens.
+ */
+export function relayProgress(
+  serverId: string,
+  params: Record<string, unknown> | undefined
+): boolean {
+  const token = params?.progressToken;
+  const target = typeof token === 'string' ? progressTargets.get(token) : undefined;
+  // A backend can only report progress on its own requests
+  if (!target || target.serverId !== serverId) {
+    logger.debug('Dropping progress for unknown token', { serverId });
+    return false;
+  }
+
+  target.send(
+    jsonRpcNotification('notifications/progress', {
+      ...params,
+      progressToken: target.clientToken,
+    })
+  );
+  return true;
+}
@@ -0,0 +1,45 @@
+/**
+ * SSE Parser Tests
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { SseParser } from './mod.ts';
+
+Deno.test('SSE parser - events end at a blank line', () => {
+  const parser = new SseParser();
+  assertEquals(parser.push('data: {"a":1}\n'), []);
+  assertEquals(parser.push('\ndata: {"b":2}\n\n'), [
+    { event: 'message', data: '{"a":1}' },
+    { event: 'message', data: '{"b":2}' },
+  ]);
+});
+
+Deno.test('SSE parser - multi-line data, event types, IDs and comments', () => {
+  const parser = new SseParser();
+  const events = parser.push(
+    ': keep-alive\n' +
+      'event: update\nid: 7\ndata: first\ndata:second\n\n' +
+      'data\n\n' +
+      'retry: 1000\nunknown: field\n\n'
+  );
+  assertEquals(events, [
+    { event: 'update', data: 'first\nsecond', id: '7' },
+    { event: 'message', data: '', id: '7' },
+  ]);
+  assertEquals(parser.lastEventId, '7');
+});
+
+Deno.test('SSE parser - line endings split across chunks', () => {
+  const parser = new SseParser();
+  assertEquals(parser.push('data: a\r'), []);
+  assertEquals(parser.push('\n\r'), []);
+  assertEquals(parser.push('\ndat'), [{ event: 'message', data: 'a' }]);
+  assertEquals(parser.push('a: b\r\r\n'), [{ event: 'message', data: 'b' }]);
+});
+
+Deno.test('SSE parser - end dispatches a final event without blank line', () => {
+  const parser = new SseParser();
+  assertEquals(parser.push('event: message\ndata: {"id":1}'), []);
+  assertEquals(parser.end(), [{ event: 'message', data: '{"id":1}' }]);
+  assertEquals(parser.end(), []);
+});
@@ -0,0 +1,93 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Incremental parser for text/event-stream bodies as specified by the
+ * WHATWG HTML standard: events end at a blank line, `data:` lines are
+ * joined with newlines, `id:` sets the last event ID and lines starting
+ * with a colon are comments.
+ */
+
+export interface SseEvent {
+  event: string; // "message" unless set by an `event:` field
+  data: string;
+  id?: string; // Last event ID at the time of dispatch
+}
+
+export class SseParser {
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private _lastEventId: string | undefined;
+
+  /** ID to send as `Last-Event-ID` when reconnecting */
+  get lastEventId(): string | undefined {
+    return this._lastEventId;
+  }
+
+  /**
+   * Feed a chunk of the stream. Returns the events it completed.
+   */
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+    for (;;) {
+      const newline = /\r\n|\r|\n/.exec(this.buffer);
+      if (!newline) break;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (newline[0] === '\r' && newline.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, newline.index);
+      this.buffer = this.buffer.slice(newline.index + newline[0].length);
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Signal the end of the stream. Unlike browsers, a final event without
+   * the closing blank line is dispatched: some servers omit it.
+   */
+  end(): SseEvent[] {
+    const events = this.push('\n');
+    const last = this.dispatch();
+    return last ? [...events, last] : events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // Comment, e.g. keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this._lastEventId = value;
+        break;
+      // `retry` and unknown fields are ignored
+    }
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    const data = this.data;
+    const event = this.eventType || 'message';
+    this.data = [];
+    this.eventType = '';
+    if (data.length === 0) return null;
+    return {
+      event,
+      data: data.join('\n'),
+      ...(this._lastEventId !== undefined && { id: this._lastEventId }),
+    };
+  }
+}
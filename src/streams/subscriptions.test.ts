@@ -0,0 +1,194 @@
+/**
+ * Resource Subscription Tests
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+
+// Admin routes are called without credentials and backends run on localhost
+Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+/**
+ * Read a client SSE stream until it contains all expected strings
+ */
+async function readUntil(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  expected: string[],
+  timeoutMs = 5000
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out, received: ${text}`)), timeoutMs);
+  });
+  try {
+    while (!expected.every((s) => text.includes(s))) {
+      const { value, done } = await Promise.race([reader.read(), timeout]);
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    return text;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function rpc(message: Record<string, unknown>, sessionId?: string): Promise<Response> {
+  return handler(
+    new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    })
+  );
+}
+
+async function openSession(): Promise<{
+  sessionId: string;
+  capabilities: Record<string, unknown>;
+}> {
+  const res = await rpc({
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities: {} },
+  });
+  const { result } = await res.json();
+  return { sessionId: res.headers.get('Mcp-Session-Id')!, capabilities: result.capabilities };
+}
+
+Deno.test({
+  name: 'Resource subscriptions - one backend subscription, updates go to subscribed sessions',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `subscribe-${Date.now()}`;
+    const encoder = new TextEncoder();
+    const calls: { method: string; uri: unknown }[] = [];
+    let backendStream: ReadableStreamDefaultController<Uint8Array> | undefined;
+    const streamOpened = Promise.withResolvers<void>();
+    const unsubscribed = Promise.withResolvers<void>();
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (req.method === 'GET') {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            backendStream = controller;
+            streamOpened.resolve();
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      const { id, method, params } = await req.json();
+      if (method.startsWith('resources/')) calls.push({ method, uri: params?.uri });
+      if (method === 'resources/unsubscribe') unsubscribed.resolve();
+      return Response.json({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    const registerRes = await handler(
+      new Request('http://localhost:8000/servers/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: serverId,
+          name: 'Subscribable Backend',
+          endpoint: `http://localhost:${backend.addr.port}/mcp`,
+        }),
+      })
+    );
+    await registerRes.body?.cancel();
+
+    const first = await openSession();
+    const second = await openSession();
+    assertEquals(first.capabilities.resources, { subscribe: true, listChanged: true });
+
+    const readers = await Promise.all(
+      [first, second].map(async ({ sessionId }) => {
+        const res = await handler(
+          new Request('http://localhost:8000/mcp', {
+            method: 'GET',
+            headers: { 'Mcp-Session-Id': sessionId },
+          })
+        );
+        return res.body!.getReader();
+      })
+    );
+
+    try {
+      const uri = `${serverId}://file:///notes.txt`;
+      for (const { sessionId } of [first, second]) {
+        const res = await rpc({ id: 2, method: 'resources/subscribe', params: { uri } }, sessionId);
+        assertEquals((await res.json()).result, {});
+      }
+      assertEquals(calls, [{ method: 'resources/subscribe', uri: 'file:///notes.txt' }]);
+
+      await streamOpened.promise;
+      const update = (resource: string) =>
+        `data: ${JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri: resource },
+        })}\n\n`;
+      backendStream!.enqueue(
+        encoder.encode(update('file:///other.txt') + update('file:///notes.txt'))
+      );
+
+      const expected = 'event: message\ndata: ' +
+        JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+        }) +
+        '\n\n';
+      for (const reader of readers) {
+        const text = await readUntil(reader, [uri]);
+        assert(text.endsWith(expected));
+        assert(!text.includes('other.txt'));
+      }
+
+      // The backend is only unsubscribed once the last session has left
+      const res = await rpc(
+        { id: 3, method: 'resources/unsubscribe', params: { uri } },
+        first.sessionId
+      );
+      assertEquals((await res.json()).result, {});
+      assertEquals(calls.length, 1);
+      const endRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': second.sessionId },
+        })
+      );
+      await endRes.body?.cancel();
+      await unsubscribed.promise;
+      assertEquals(calls[1], { method: 'resources/unsubscribe', uri: 'file:///notes.txt' });
+
+      // Updates need a session to be delivered to
+      const noSession = await rpc({ id: 4, method: 'resources/subscribe', params: { uri } });
+      assertEquals((await noSession.json()).error.code, -32602);
+    } finally {
+      for (const reader of readers) await reader.cancel();
+      const endRes = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': first.sessionId },
+        })
+      );
+      await endRes.body?.cancel();
+      const deleteRes = await handler(
+        new Request(`http://localhost:8000/mcp/servers/${serverId}`, { method: 'DELETE' })
+      );
+      await deleteRes.body?.cancel();
+      try {
+        backendStream?.close();
+      } catch {
+        // Already cancelled when the server was deleted
+      }
+      await backend.shutdown();
+    }
+  },
+});
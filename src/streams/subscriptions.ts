@@ -0,0 +1,109 @@
+/**
+ * Resource Subscriptions
+ *
+ * Backends see the gateway as a single subscriber: it subscribes on the
+ * shared backend session when the first client session subscribes to a URI
+ * and unsubscribes once the last one has left. notifications/resources/updated
+ * from the backend go to every subscribed session under the namespaced URI.
+ */
+
+import { resolveResourceUri, sendToBackend } from '../backend.ts';
+import { jsonRpcNotification } from '../jsonrpc.ts';
+import { logger } from '../logger.ts';
+import { sendSSE } from '../session.ts';
+import type { BackendServer } from '../types.ts';
+
+interface Subscription {
+  server: BackendServer;
+  originalUri: string;
+  sessionIds: Set<string>;
+  ready: Promise<unknown>; // Settles once the backend confirmed the subscription
+}
+
+/** Subscriptions by namespaced URI */
+const subscriptions = new Map<string, Subscription>();
+
+/**
+ * Subscribe a session to a namespaced resource URI
+ */
+export async function subscribeResource(
+  sessionId: string,
+  uri: string,
+  getServer: (id: string) => BackendServer | undefined
+): Promise<void> {
+  let subscription = subscriptions.get(uri);
+  if (!subscription) {
+    const { server, originalUri } = resolveResourceUri(uri, getServer);
+    const created: Subscription = {
+      server,
+      originalUri,
+      sessionIds: new Set(),
+      ready: sendToBackend(server, 'resources/subscribe', { uri: originalUri }),
+    };
+    // A failed subscription is forgotten, so the next subscriber retries it
+    created.ready.catch(() => {
+      if (subscriptions.get(uri) === created) subscriptions.delete(uri);
+    });
+    subscriptions.set(uri, created);
+    subscription = created;
+  }
+
+  subscription.sessionIds.add(sessionId);
+  await subscription.ready;
+}
+
+/**
+ * Unsubscribe a session from a namespaced resource URI. The backend is only
+ * told once no session is subscribed anymore.
+ */
+export async function unsubscribeResource(sessionId: string, uri: string): Promise<void> {
+  const subscription = subscriptions.get(uri);
+  if (!subscription?.sessionIds.delete(sessionId)) return;
+  if (subscription.sessionIds.size > 0) return;
+
+  subscriptions.delete(uri);
+  try {
+    await subscription.ready;
+    await sendToBackend(subscription.server, 'resources/unsubscribe', {
+      uri: subscription.originalUri,
+    });
+  } catch (error) {
+    logger.warn('Failed to unsubscribe from backend resource', {
+      serverId: subscription.server.id,
+      uri,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Drop all subscriptions of a session that ended
+ */
+export async function releaseSubscriptions(sessionId: string): Promise<void> {
+  const uris = Array.from(subscriptions.entries())
+    .filter(([, subscription]) => subscription.sessionIds.has(sessionId))
+    .map(([uri]) => uri);
+  await Promise.all(uris.map((uri) => unsubscribeResource(sessionId, uri)));
+}
+
+/**
+ * Send a backend's notifications/resources/updated to the subscribed
+ * sessions. Returns false if no session is subscribed to the URI.
+ */
+export function relayResourceUpdated(
+  serverId: string,
+  params: Record<string, unknown> | undefined
+): boolean {
+  const uri = typeof params?.uri === 'string' ? `${serverId}://${params.uri}` : undefined;
+  const subscription = uri ? subscriptions.get(uri) : undefined;
+  if (!subscription) {
+    logger.debug('Dropping update for unsubscribed resource', { serverId });
+    return false;
+  }
+
+  const notification = jsonRpcNotification('notifications/resources/updated', { ...params, uri });
+  for (const sessionId of subscription.sessionIds) {
+    sendSSE(sessionId, 'message', notification);
+  }
+  return true;
+}
@@ -12,6 +12,57 @@ export interface BackendServer {
   name: string;
   endpoint: string;
   requiresSession: boolean;
+  auth?: BackendAuth;
+  headers?: Record<string, SecretValue>; // Custom headers sent with every request
+  outputFilters?: OutputFilter[]; // PII and secret filters for tool results
+}
+
+export type PiiDetector = 'email' | 'phone' | 'iban' | 'credit-card' | 'api-key';
+
+export type OutputFilterAction = 'mask' | 'hash' | 'block';
+
+/**
+ * Filter applied to the text of tool results before they reach the client.
+ * Without `tools` the filter applies to every tool of the server.
+ */
+export interface OutputFilter {
+  tools?: string[]; // Tool name globs, without the server prefix
+  detectors: PiiDetector[];
+  action: OutputFilterAction;
+}
+
+/**
+ * Reference to a secret by name. The value is read from the environment
+ * variable of that name at request time, so it never has to be stored in KV.
+ */
+export interface SecretRef {
+  secret: string;
+}
+
+/**
+ * A credential value: either plain text or a reference to a named secret
+ */
+export type SecretValue = string | SecretRef;
+
+/**
+ * Credentials the gateway presents to a backend server
+ */
+export type BackendAuth =
+  | { type: 'bearer'; token: SecretValue }
+  | { type: 'api-key'; header?: string; value: SecretValue }
+  | OAuthClientCredentialsAuth;
+
+/**
+ * Tokens obtained from an OAuth2 token endpoint with the client_credentials grant
+ */
+export interface OAuthClientCredentialsAuth {
+  type: 'oauth-client-credentials';
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: SecretValue;
+  scope?: string;
+  audience?: string;
+  clientAuthMethod?: 'client_secret_basic' | 'client_secret_post'; // default: basic
 }
 
 export interface ServerHealth {
@@ -23,10 +74,276 @@ export interface ServerHealth {
   circuitBreakerState?: string;
 }
 
+// ============================================================================
+// Admin Auth Types
+// ============================================================================
+
+/**
+ * Key roles, ordered by privilege: client keys only identify MCP clients for
+ * access policies, operators may mutate the server registry and reset circuit
+ * breakers, admins may additionally manage API keys and policies.
+ */
+export type AdminRole = 'client' | 'operator' | 'admin';
+
+export interface AdminKeyRecord {
+  id: string;
+  name: string;
+  role: AdminRole;
+  hash: string; // SHA-256 hex digest of the key, the key itself is never stored
+  prefix: string; // First characters of the key, for identification in listings
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface AdminIdentity {
+  keyId: string;
+  name: string;
+  role: AdminRole;
+  source: 'bootstrap' | 'kv' | 'open';
+}
+
+// ============================================================================
+// OAuth / Request Context Types
+// ============================================================================
+
+export interface OAuthConfig {
+  issuer: string;
+  jwksUrl?: string;
+  audience: string;
+  resource?: string;
+  requiredScopes: string[];
+  clockSkewSeconds: number;
+}
+
+/**
+ * Authenticated caller of the MCP endpoint, derived from a validated access token
+ */
+export interface AuthInfo {
+  subject: string;
+  issuer: string;
+  clientId?: string;
+  scopes: string[];
+  expiresAt?: number;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Per-request context passed from the transport handlers to the MCP methods
+ */
+export interface RequestContext {
+  sessionId?: string;
+  auth?: AuthInfo;
+  apiKeyId?: string; // ID of the gateway API key presented by the client
+  clientInfo?: ClientInfo; // As declared by the client in `initialize`
+  clientCapabilities?: Record<string, unknown>; // Likewise
+  clientIp?: string;
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  // Delivers notifications to the client ahead of the response; false if it could not
+  sendMessage?: (message: Record<string, unknown>) => boolean;
+}
+
+export interface ClientInfo {
+  name: string;
+  version?: string;
+}
+
+// ============================================================================
+// Access Policy Types
+// ============================================================================
+
+export type PolicyEffect = 'allow' | 'deny';
+
+/**
+ * A rule matches a target when every given list contains a matching glob.
+ * Rules with `tools` only match tools, not prompts or resources.
+ */
+export interface PolicyRule {
+  effect: PolicyEffect;
+  servers?: string[]; // Server ID globs, e.g. "journey" or "swiss-*"
+  tools?: string[]; // Namespaced tool name globs, e.g. "journey__*"
+}
+
+/**
+ * Access policy applying rules to the clients matched by `subjects`.
+ * Subjects are "apiKey:<glob>", "subject:<glob>", "client:<glob>" or "*".
+ */
+export interface AccessPolicy {
+  id: string;
+  description?: string;
+  subjects: string[];
+  rules: PolicyRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Identity of an MCP client as seen by the policy engine
+ */
+export interface ClientIdentity {
+  apiKeyId?: string;
+  subject?: string;
+  clientName?: string;
+}
+
+// ============================================================================
+// Egress Types
+// ============================================================================
+
+/**
+ * Rules for outbound requests to backend and token endpoints
+ */
+export interface EgressConfig {
+  allowedSchemes: string[]; // e.g. ["http:", "https:"]
+  blockPrivate: boolean; // Block loopback and private ranges
+  allowedHosts: string[]; // Hostname globs, empty allows any host
+  deniedHosts: string[]; // Hostname globs
+  allowedPorts: Array<[number, number]>; // Inclusive ranges, empty allows any port
+}
+
+// ============================================================================
+// CORS Types
+// ============================================================================
+
+/**
+ * CORS policy applied to a route: admin routes are strict, MCP transport
+ * routes validate Origin against DNS rebinding, everything else is public
+ */
+export type CorsPolicyName = 'admin' | 'mcp' | 'public';
+
+/**
+ * Allowed origins per policy (exact origins or globs, "*" allows any).
+ * The gateway's own origin is always allowed.
+ */
+export interface CorsConfig extends Record<CorsPolicyName, string[]> {
+  gatewayOrigin?: string; // Canonical origin of the gateway's own UI, allowed everywhere
+}
+
+// ============================================================================
+// Audit Log Types
+// ============================================================================
+
+export type AuditAction =
+  | 'server.register'
+  | 'server.upload'
+  | 'server.delete'
+  | 'circuit-breakers.reset'
+  | 'admin-key.issue'
+  | 'admin-key.revoke'
+  | 'access-policy.save'
+  | 'access-policy.delete'
+  | 'tool-pin.approve';
+
+/**
+ * Audit log entry. Server snapshots have plain-text credentials redacted.
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  action: AuditAction;
+  actor: AdminIdentity;
+  serverId?: string;
+  targetId?: string; // Admin key, access policy ID or tool name
+  before: BackendServer | null;
+  after: BackendServer | null;
+}
+
+export interface AuditQuery {
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, exclusive
+  actions?: AuditAction[];
+  limit: number;
+  cursor?: string;
+}
+
+// ============================================================================
+// Tool Integrity Types
+// ============================================================================
+
+/**
+ * What happens to tools whose definition changed or looks suspicious:
+ * quarantined tools are hidden from tools/list and cannot be called until
+ * an admin approves them, warn and allow only record an alert.
+ */
+export type ToolIntegrityPolicy = 'quarantine' | 'warn' | 'allow';
+
+export type ToolFindingKind =
+  | 'definition-changed'
+  | 'hidden-unicode'
+  | 'homoglyph'
+  | 'instruction';
+
+export interface ToolFinding {
+  kind: ToolFindingKind;
+  detail: string;
+}
+
+/**
+ * Hash of a backend tool definition, pinned the first time the tool is seen
+ */
+export interface ToolPin {
+  serverId: string;
+  name: string; // Namespaced tool name
+  hash: string; // SHA-256 hex digest of the canonical definition
+  pinnedAt: string;
+  pendingHash?: string; // Changed definition awaiting approval
+  quarantined: boolean;
+  findings: ToolFinding[];
+}
+
+export interface ToolAlert {
+  id: string;
+  timestamp: string; // ISO 8601
+  serverId: string;
+  name: string;
+  hash: string;
+  findings: ToolFinding[];
+  action: 'quarantined' | 'warned' | 'allowed';
+}
+
+// ============================================================================
+// Request Limit Types
+// ============================================================================
+
+export interface RequestLimits {
+  maxBodyBytes: number;
+  maxBatchSize: number;
+  maxJsonDepth: number;
+  maxStringLength: number; // Per string in tool and prompt arguments
+}
+
+// ============================================================================
+// Rate Limit Types
+// ============================================================================
+
+/**
+ * Token-bucket limits: `requestsPerMinute` is the refill rate, `burst` the
+ * bucket size. Tool limits apply per client and tool on tools/call.
+ */
+export interface RateLimitConfig {
+  requestsPerMinute?: number; // Per client, all JSON-RPC calls
+  burst?: number; // Bucket size (default: requestsPerMinute)
+  toolLimits: Array<{ pattern: string; requestsPerMinute: number }>;
+  store: 'memory' | 'kv';
+}
+
 // ============================================================================
 // Session Types
 // ============================================================================
 
+/**
+ * Streamable HTTP session, created by `initialize` and identified by the
+ * Mcp-Session-Id header on all later requests
+ */
+export interface McpSession {
+  id: string;
+  protocolVersion: string; // As requested by the client
+  clientInfo?: ClientInfo;
+  capabilities: Record<string, unknown>; // Client capabilities
+  owner?: string; // API key or OAuth subject that created it, see getSessionOwner
+  createdAt: number;
+  lastActivity: number;
+}
+
 export interface Session {
   id: string;
   serverId: string;
@@ -0,0 +1,208 @@
+/**
+ * JSON Schema Validation Tests
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import * as kv from '../kv.ts';
+import { JsonRpcErrorCode } from '../jsonrpc.ts';
+import { formatSchemaErrors, validateJsonSchema, type JsonSchema } from './jsonSchema.ts';
+import { clearToolSchemas } from './toolSchemas.ts';
+
+// Backends run on localhost
+Deno.env.set('EGRESS_BLOCK_PRIVATE', 'false');
+
+const journeySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', minLength: 1 },
+    to: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 10 },
+    via: { type: 'array', items: { $ref: '#/$defs/stop' }, uniqueItems: true },
+  },
+  required: ['from', 'to'],
+  additionalProperties: false,
+  $defs: {
+    stop: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+  },
+};
+
+// =============================================================================
+// Validator
+// =============================================================================
+
+Deno.test('JSON Schema - valid arguments produce no errors', () => {
+  assertEquals(
+    validateJsonSchema(journeySchema, {
+      from: 'Bern',
+      to: 'Zürich',
+      limit: 3,
+      via: [{ name: 'Olten' }],
+    }),
+    []
+  );
+  assertEquals(validateJsonSchema(true, { anything: 1 }), []);
+});
+
+Deno.test('JSON Schema - errors carry JSON pointer paths', () => {
+  const errors = validateJsonSchema(journeySchema, {
+    from: 42,
+    limit: 11,
+    via: [{ name: 'Olten' }, {}],
+    'a/b': true,
+  });
+  assertEquals(errors, [
+    { path: '/to', message: 'is required' },
+    { path: '/from', message: 'must be string' },
+    { path: '/limit', message: 'must be <= 10' },
+    { path: '/via/1/name', message: 'is required' },
+    { path: '/a~1b', message: 'is not allowed (additional property)' },
+  ]);
+  assertEquals(
+    formatSchemaErrors(errors.slice(0, 2)),
+    '/to: is required; /from: must be string'
+  );
+  assertEquals(formatSchemaErrors(validateJsonSchema(journeySchema, [])), '/: must be object');
+});
+
+Deno.test('JSON Schema - composition and conditional keywords', () => {
+  const schema: JsonSchema = {
+    oneOf: [{ type: 'string' }, { type: 'integer' }],
+    not: { const: 0 },
+  };
+  assertEquals(validateJsonSchema(schema, 'x'), []);
+  assertEquals(validateJsonSchema(schema, 0), [
+    { path: '', message: 'must not match the schema in not' },
+  ]);
+  assertEquals(validateJsonSchema(schema, 1.5), [
+    { path: '', message: 'must match exactly one schema in oneOf' },
+  ]);
+
+  const conditional: JsonSchema = {
+    type: 'object',
+    if: { properties: { mode: { const: 'train' } } },
+    then: { required: ['line'] },
+    else: { properties: { line: false } },
+  };
+  assertEquals(validateJsonSchema(conditional, { mode: 'train' }), [
+    { path: '/line', message: 'is required' },
+  ]);
+  assertEquals(validateJsonSchema(conditional, { mode: 'bus', line: 'S1' }), [
+    { path: '/line', message: 'is not allowed' },
+  ]);
+});
+
+Deno.test('JSON Schema - string, array and enum keywords', () => {
+  assertEquals(validateJsonSchema({ maxLength: 2 }, '😀😀'), []);
+  assertEquals(validateJsonSchema({ pattern: '^[A-Z]{3}$' }, 'bern'), [
+    { path: '', message: 'must match pattern ^[A-Z]{3}$' },
+  ]);
+  assertEquals(
+    validateJsonSchema({ prefixItems: [{ type: 'string' }], items: { type: 'number' } }, [
+      'a',
+      'b',
+    ]),
+    [{ path: '/1', message: 'must be number' }]
+  );
+  assertEquals(validateJsonSchema({ enum: ['asc', 'desc'] }, 'up'), [
+    { path: '', message: 'must be one of "asc", "desc"' },
+  ]);
+});
+
+Deno.test('JSON Schema - patterns that could backtrack catastrophically are not run', () => {
+  const input = `${'a'.repeat(40)}!`;
+  assertEquals(validateJsonSchema({ pattern: '^(a+)+$' }, input), []);
+  assertEquals(
+    validateJsonSchema({ patternProperties: { '^(a|aa*)*$': false } }, { [input]: 1 }),
+    []
+  );
+
+  // Repeated groups without nested quantifiers still apply
+  assertEquals(validateJsonSchema({ pattern: '^([+-]\\d)+$' }, '+1-2'), []);
+  assertEquals(validateJsonSchema({ pattern: '^([+-]\\d)+$' }, '+12'), [
+    { path: '', message: 'must match pattern ^([+-]\\d)+$' },
+  ]);
+});
+
+Deno.test('JSON Schema - required properties must be own properties', () => {
+  assertEquals(validateJsonSchema({ required: ['toString'] }, {}), [
+    { path: '/toString', message: 'is required' },
+  ]);
+  assertEquals(
+    validateJsonSchema({ dependentRequired: { a: ['constructor'] } }, { a: 1 }),
+    [{ path: '/constructor', message: 'is required when a is present' }]
+  );
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'JSON Schema - tools/call arguments are validated before the backend is called',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const serverId = `schema-${Date.now()}`;
+    const calls: unknown[] = [];
+
+    const backend = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const { id, method, params } = await req.json();
+      if (method === 'tools/list') {
+        return Response.json({
+          jsonrpc: '2.0',
+          id,
+          result: { tools: [{ name: 'findTrips', inputSchema: journeySchema }] },
+        });
+      }
+      calls.push(params.arguments);
+      return Response.json({
+        jsonrpc: '2.0',
+        id,
+        result: { content: [{ type: 'text', text: 'ok' }] },
+      });
+    });
+
+    const call = async (args: unknown) => {
+      const res = await handler(
+        new Request('http://localhost:8000/mcp', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'tools/call',
+            params: { name: `${serverId}__findTrips`, arguments: args },
+          }),
+        })
+      );
+      return await res.json();
+    };
+
+    try {
+      await kv.saveServer({
+        id: serverId,
+        name: 'Schema Test',
+        endpoint: `http://localhost:${backend.addr.port}/mcp`,
+        requiresSession: false,
+      });
+
+      // Schemas are fetched on the first call when not yet cached
+      const invalid = await call({ from: 'Bern', limit: 0 });
+      assertEquals(invalid.error.code, JsonRpcErrorCode.INVALID_PARAMS);
+      assertEquals(
+        invalid.error.message,
+        'Invalid tool call: /to: is required; /limit: must be >= 1'
+      );
+      assertEquals(calls, []);
+
+      const valid = await call({ from: 'Bern', to: 'Basel' });
+      assertEquals(valid.error, undefined);
+      assertEquals(calls, [{ from: 'Bern', to: 'Basel' }]);
+    } finally {
+      clearToolSchemas(serverId);
+      await kv.deleteServer(serverId);
+      await backend.shutdown();
+    }
+  },
+});
@@ -0,0 +1,352 @@
+/**
+ * JSON Schema Validation
+ *
+ * Validates values against JSON Schema draft 2020-12 as used in MCP tool
+ * inputSchemas. Supports the applicator and assertion vocabularies (type,
+ * enum/const, numeric, string, array and object keywords, allOf/anyOf/oneOf/
+ * not, if/then/else) and local $ref into $defs/definitions. `format` is
+ * treated as an annotation, as the draft 2020-12 default specifies.
+ *
+ * `pattern` and `patternProperties` are compiled once and cached. Patterns
+ * that could backtrack catastrophically (nested quantifiers such as `(a+)+`,
+ * or overly long ones) are not run, like patterns that do not compile.
+ */
+
+export type JsonSchema = boolean | Record<string, unknown>;
+
+export interface SchemaError {
+  path: string; // JSON pointer into the validated value ("" is the root)
+  message: string;
+}
+
+/** Guards against $ref cycles that do not descend into the value */
+const MAX_SCHEMA_DEPTH = 64;
+
+const MAX_PATTERN_LENGTH = 500;
+const MAX_CACHED_PATTERNS = 1000;
+
+// A group containing a quantifier that is itself repeated, e.g. (a+)+ or (\w*x)*
+const PATTERN_ITEM = String.raw`(?:[^()\[\]\\]|\\.|\[(?:[^\]\\]|\\.)*\])`;
+const PATTERN_QUANTIFIER = String.raw`(?:[+*]|\{\d+,\d*\})`;
+const NESTED_QUANTIFIER = new RegExp(
+  String.raw`(?<!\\)\(${PATTERN_ITEM}*${PATTERN_QUANTIFIER}${PATTERN_ITEM}*\)${PATTERN_QUANTIFIER}`
+);
+
+/** Compiled patterns, null for those that are not run */
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Validate a value against a schema. Returns all errors found (empty if valid).
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validate(schema, value, '', schema, errors, 0);
+  return errors;
+}
+
+/**
+ * Format schema errors for an error message, e.g. "/from: must be string"
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((e) => `${e.path || '/'}: ${e.message}`).join('; ');
+}
+
+/**
+ * Compile a schema pattern, or return null if it does not compile or could
+ * take exponential time to match
+ */
+function compilePattern(pattern: string): RegExp | null {
+  const cached = patternCache.get(pattern);
+  if (cached !== undefined) return cached;
+
+  let regex: RegExp | null = null;
+  if (pattern.length <= MAX_PATTERN_LENGTH && !NESTED_QUANTIFIER.test(pattern)) {
+    try {
+      regex = new RegExp(pattern, 'u');
+    } catch {
+      // Not valid in JavaScript
+    }
+  }
+  if (patternCache.size >= MAX_CACHED_PATTERNS) {
+    patternCache.delete(patternCache.keys().next().value!);
+  }
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+/**
+ * Resolve a local reference ("#", "#/$defs/name") against the root schema
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  let target: unknown = root;
+  for (const raw of ref.slice(1).split('/').slice(1)) {
+    const segment = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof target !== 'object' || target === null) return undefined;
+    target = (target as Record<string, unknown>)[segment];
+  }
+  return typeof target === 'boolean' || (typeof target === 'object' && target !== null)
+    ? (target as JsonSchema)
+    : undefined;
+}
+
+function isValid(schema: JsonSchema, value: unknown, root: JsonSchema, depth: number): boolean {
+  const errors: SchemaError[] = [];
+  validate(schema, value, '', root, errors, depth);
+  return errors.length === 0;
+}
+
+function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+  depth: number
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, message: 'is not allowed' });
+    return;
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    errors.push({ path, message: 'schema nesting too deep' });
+    return;
+  }
+
+  const s = schema;
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  if (typeof s.$ref === 'string') {
+    const target = resolveRef(s.$ref, root);
+    if (target === undefined) {
+      fail(`unresolvable $ref ${s.$ref}`);
+    } else {
+      validate(target, value, path, root, errors, depth + 1);
+    }
+  }
+
+  // Generic keywords
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}`);
+      return; // Type-specific keywords below would only add noise
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((option) => deepEqual(option, value))) {
+    fail(`must be one of ${s.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in s && !deepEqual(s.const, value)) {
+    fail(`must be ${JSON.stringify(s.const)}`);
+  }
+
+  // Subschema composition
+  if (Array.isArray(s.allOf)) {
+    for (const item of s.allOf as JsonSchema[]) {
+      validate(item, value, path, root, errors, depth + 1);
+    }
+  }
+  if (Array.isArray(s.anyOf)) {
+    if (!(s.anyOf as JsonSchema[]).some((item) => isValid(item, value, root, depth + 1))) {
+      fail('must match at least one schema in anyOf');
+    }
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = (s.oneOf as JsonSchema[]).filter((item) =>
+      isValid(item, value, root, depth + 1)
+    ).length;
+    if (matches !== 1) fail('must match exactly one schema in oneOf');
+  }
+  if (s.not !== undefined && isValid(sub(s, 'not'), value, root, depth + 1)) {
+    fail('must not match the schema in not');
+  }
+  if (s.if !== undefined) {
+    const branch = isValid(sub(s, 'if'), value, root, depth + 1) ? 'then' : 'else';
+    if (s[branch] !== undefined) validate(sub(s, branch), value, path, root, errors, depth + 1);
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(s, value, fail);
+  } else if (typeof value === 'string') {
+    validateString(s, value, fail);
+  } else if (Array.isArray(value)) {
+    validateArray(s, value, path, root, errors, depth, fail);
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(s, value as Record<string, unknown>, path, root, errors, depth, fail);
+  }
+}
+
+type Fail = (message: string, at?: string) => void;
+
+function validateNumber(s: Record<string, unknown>, value: number, fail: Fail): void {
+  if (typeof s.minimum === 'number' && value < s.minimum) fail(`must be >= ${s.minimum}`);
+  if (typeof s.maximum === 'number' && value > s.maximum) fail(`must be <= ${s.maximum}`);
+  if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) {
+    fail(`must be > ${s.exclusiveMinimum}`);
+  }
+  if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) {
+    fail(`must be < ${s.exclusiveMaximum}`);
+  }
+  if (typeof s.multipleOf === 'number' && s.multipleOf > 0) {
+    const quotient = value / s.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail(`must be a multiple of ${s.multipleOf}`);
+    }
+  }
+}
+
+function validateString(s: Record<string, unknown>, value: string, fail: Fail): void {
+  const length = [...value].length; // Code points, not UTF-16 units
+  if (typeof s.minLength === 'number' && length < s.minLength) {
+    fail(`must have at least ${s.minLength} characters`);
+  }
+  if (typeof s.maxLength === 'number' && length > s.maxLength) {
+    fail(`must have at most ${s.maxLength} characters`);
+  }
+  if (typeof s.pattern === 'string') {
+    // Patterns that are not run are ignored rather than rejecting every call
+    const regex = compilePattern(s.pattern);
+    if (regex && !regex.test(value)) fail(`must match pattern ${s.pattern}`);
+  }
+}
+
+function validateArray(
+  s: Record<string, unknown>,
+  value: unknown[],
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+  depth: number,
+  fail: Fail
+): void {
+  if (typeof s.minItems === 'number' && value.length < s.minItems) {
+    fail(`must have at least ${s.minItems} items`);
+  }
+  if (typeof s.maxItems === 'number' && value.length > s.maxItems) {
+    fail(`must have at most ${s.maxItems} items`);
+  }
+  if (s.uniqueItems === true) {
+    const duplicate = value.findIndex((item, i) =>
+      value.slice(0, i).some((other) => deepEqual(other, item))
+    );
+    if (duplicate !== -1) fail('must not contain duplicate items', `${path}/${duplicate}`);
+  }
+
+  const prefixItems = Array.isArray(s.prefixItems) ? (s.prefixItems as JsonSchema[]) : [];
+  value.forEach((item, i) => {
+    const itemSchema = i < prefixItems.length
+      ? prefixItems[i]
+      : (s.items as JsonSchema | undefined);
+    if (itemSchema !== undefined) {
+      validate(itemSchema, item, `${path}/${i}`, root, errors, depth + 1);
+    }
+  });
+
+  if (s.contains !== undefined) {
+    const count = value.filter((item) =>
+      isValid(s.contains as JsonSchema, item, root, depth + 1)
+    ).length;
+    const min = typeof s.minContains === 'number' ? s.minContains : 1;
+    if (count < min) fail(`must contain at least ${min} matching items`);
+    if (typeof s.maxContains === 'number' && count > s.maxContains) {
+      fail(`must contain at most ${s.maxContains} matching items`);
+    }
+  }
+}
+
+function validateObject(
+  s: Record<string, unknown>,
+  value: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[],
+  depth: number,
+  fail: Fail
+): void {
+  const keys = Object.keys(value);
+  const properties = (s.properties ?? {}) as Record<string, JsonSchema>;
+  const patternProperties = (s.patternProperties ?? {}) as Record<string, JsonSchema>;
+
+  if (Array.isArray(s.required)) {
+    for (const name of s.required as string[]) {
+      if (!Object.hasOwn(value, name)) fail('is required', `${path}/${escapePointer(name)}`);
+    }
+  }
+  if (typeof s.minProperties === 'number' && keys.length < s.minProperties) {
+    fail(`must have at least ${s.minProperties} properties`);
+  }
+  if (typeof s.maxProperties === 'number' && keys.length > s.maxProperties) {
+    fail(`must have at most ${s.maxProperties} properties`);
+  }
+  if (s.dependentRequired && typeof s.dependentRequired === 'object') {
+    for (const [name, dependents] of Object.entries(s.dependentRequired)) {
+      if (!Object.hasOwn(value, name) || !Array.isArray(dependents)) continue;
+      for (const dependent of dependents as string[]) {
+        if (!Object.hasOwn(value, dependent)) {
+          fail(`is required when ${name} is present`, `${path}/${escapePointer(dependent)}`);
+        }
+      }
+    }
+  }
+
+  for (const key of keys) {
+    const keyPath = `${path}/${escapePointer(key)}`;
+    let evaluated = false;
+
+    if (Object.hasOwn(properties, key)) {
+      validate(properties[key], value[key], keyPath, root, errors, depth + 1);
+      evaluated = true;
+    }
+    for (const [pattern, patternSchema] of Object.entries(patternProperties)) {
+      if (compilePattern(pattern)?.test(key)) {
+        validate(patternSchema, value[key], keyPath, root, errors, depth + 1);
+        evaluated = true;
+      }
+    }
+    if (!evaluated && s.additionalProperties !== undefined) {
+      if (s.additionalProperties === false) {
+        fail('is not allowed (additional property)', keyPath);
+      } else {
+        validate(sub(s, 'additionalProperties'), value[key], keyPath, root, errors, depth + 1);
+      }
+    }
+    if (s.propertyNames !== undefined && !isValid(sub(s, 'propertyNames'), key, root, depth + 1)) {
+      fail('property name does not match propertyNames', keyPath);
+    }
+  }
+}
+
+function sub(s: Record<string, unknown>, key: string): JsonSchema {
+  return s[key] as JsonSchema;
+}
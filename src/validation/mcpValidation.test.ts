@@ -2,11 +2,13 @@
  * Tests for MCP Protocol Request Validation
  */
 
-import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import {
+  checkArgumentLimits,
   validateToolCall,
   validateResourceRead,
   validatePromptGet,
+  validateCompletionRequest,
   validateNamespace,
   sanitizeInput,
 } from './mcpValidation.ts';
@@ -230,6 +232,46 @@ Deno.test('validatePromptGet - invalid namespace format', () => {
   );
 });
 
+// ============================================================================
+// Completion Validation Tests
+// ============================================================================
+
+Deno.test('validateCompletionRequest - valid prompt and resource references', () => {
+  const argument = { name: 'city', value: 'Ber' };
+  for (const ref of [
+    { type: 'ref/prompt', name: 'journey-service-mcp__tripSummary' },
+    { type: 'ref/resource', uri: 'journey-service-mcp://trips/{id}' },
+  ]) {
+    const result = validateCompletionRequest({ ref, argument });
+    assertEquals(result.valid, true);
+    assertEquals(result.errors.length, 0);
+  }
+});
+
+Deno.test('validateCompletionRequest - invalid references', () => {
+  const argument = { name: 'city', value: 'Ber' };
+  assertEquals(
+    validateCompletionRequest({ ref: { type: 'ref/prompt', name: 'summary' }, argument }).valid,
+    false
+  );
+  assertEquals(
+    validateCompletionRequest({ ref: { type: 'ref/resource', uri: 'trips/{id}' }, argument }).valid,
+    false
+  );
+  assertEquals(
+    validateCompletionRequest({ ref: { type: 'ref/tool', name: 'a__b' }, argument }).errors,
+    ['ref type must be "ref/prompt" or "ref/resource"']
+  );
+});
+
+Deno.test('validateCompletionRequest - missing argument', () => {
+  const result = validateCompletionRequest({
+    ref: { type: 'ref/prompt', name: 'journey-service-mcp__tripSummary' },
+  });
+  assertEquals(result.valid, false);
+  assertEquals(result.errors, ['argument is required']);
+});
+
 // ============================================================================
 // Namespace Validation Tests
 // ============================================================================
@@ -318,3 +360,44 @@ Deno.test('sanitizeInput - deeply nested prototype pollution', () => {
   assertEquals(level3.data, 'valid');
   assertEquals(Object.prototype.hasOwnProperty.call(level3, '__proto__'), false);
 });
+
+Deno.test('sanitizeInput - rejects input nested deeper than maxDepth', () => {
+  assertEquals(sanitizeInput({ a: { b: 1 } }, 2), { a: { b: 1 } });
+  assertThrows(() => sanitizeInput({ a: { b: { c: 1 } } }, 2), Error, 'nesting too deep');
+});
+
+// ============================================================================
+// Argument Limit Tests
+// ============================================================================
+
+Deno.test('checkArgumentLimits - accepts arguments within limits', () => {
+  const limits = { maxDepth: 3, maxStringLength: 5 };
+  assertEquals(checkArgumentLimits({ a: { b: ['hello'] } }, limits), null);
+});
+
+Deno.test('checkArgumentLimits - reports long strings with their path', () => {
+  const limits = { maxDepth: 3, maxStringLength: 5 };
+  assertEquals(
+    checkArgumentLimits({ a: { b: ['ok', 'too long'] } }, limits),
+    'arguments.a.b[1] exceeds maximum string length of 5'
+  );
+});
+
+Deno.test('checkArgumentLimits - reports excessive nesting', () => {
+  let deep: unknown = 'leaf';
+  for (let i = 0; i < 100000; i++) deep = [deep];
+
+  assertEquals(
+    checkArgumentLimits({ deep }),
+    'arguments exceed maximum nesting depth of 32'
+  );
+});
+
+Deno.test('validateToolCall - arguments exceeding limits', () => {
+  const result = validateToolCall(
+    { name: 'journey-service-mcp__findTrips', arguments: { from: 'x'.repeat(11) } },
+    { maxDepth: 32, maxStringLength: 10 }
+  );
+  assertEquals(result.valid, false);
+  assertEquals(result.errors, ['arguments.from exceeds maximum string length of 10']);
+});
@@ -39,10 +39,61 @@ const DANGEROUS_URI_SCHEMES = [
  */
 const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
 
+/**
+ * Limits on tool and prompt arguments
+ */
+export interface ArgumentLimits {
+  maxDepth: number;
+  maxStringLength: number;
+}
+
+export const DEFAULT_ARGUMENT_LIMITS: ArgumentLimits = {
+  maxDepth: 32,
+  maxStringLength: 100000,
+};
+
+/**
+ * Check nesting depth and string lengths of arguments.
+ * Walks iteratively so deeply nested input cannot overflow the stack.
+ * Returns an error message, or null if within limits.
+ */
+export function checkArgumentLimits(
+  args: unknown,
+  limits: ArgumentLimits = DEFAULT_ARGUMENT_LIMITS
+): string | null {
+  const stack: Array<{ value: unknown; path: string; depth: number }> = [
+    { value: args, path: 'arguments', depth: 0 },
+  ];
+
+  while (stack.length > 0) {
+    const { value, path, depth } = stack.pop()!;
+    if (typeof value === 'string') {
+      if (value.length > limits.maxStringLength) {
+        return `${path} exceeds maximum string length of ${limits.maxStringLength}`;
+      }
+    } else if (value !== null && typeof value === 'object') {
+      if (depth >= limits.maxDepth) {
+        return `arguments exceed maximum nesting depth of ${limits.maxDepth}`;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        stack.push({
+          value: item,
+          path: Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`,
+          depth: depth + 1,
+        });
+      }
+    }
+  }
+  return null;
+}
+
 /**
  * Validate tool call request
  */
-export function validateToolCall(params: unknown): ValidationResult {
+export function validateToolCall(
+  params: unknown,
+  limits: ArgumentLimits = DEFAULT_ARGUMENT_LIMITS
+): ValidationResult {
   const errors: string[] = [];
 
   if (!params || typeof params !== 'object') {
@@ -81,9 +132,13 @@ export function validateToolCall(params: unknown): ValidationResult {
     if (typeof p.arguments !== 'object' || p.arguments === null) {
       errors.push('arguments must be an object');
     } else {
+      // Check size limits first: hasForbiddenKeys recurses
+      const limitError = checkArgumentLimits(p.arguments, limits);
       // Check for forbidden keys (prototype pollution)
-      const hasProhibitedKeys = hasForbiddenKeys(p.arguments);
-      if (hasProhibitedKeys) {
+      const hasProhibitedKeys = !limitError && hasForbiddenKeys(p.arguments);
+      if (limitError) {
+        errors.push(limitError);
+      } else if (hasProhibitedKeys) {
         errors.push(
           'arguments contain forbidden keys (__proto__, constructor, prototype)'
         );
@@ -143,7 +198,10 @@ export function validateResourceRead(params: unknown): ValidationResult {
 /**
  * Validate prompt get request
  */
-export function validatePromptGet(params: unknown): ValidationResult {
+export function validatePromptGet(
+  params: unknown,
+  limits: ArgumentLimits = DEFAULT_ARGUMENT_LIMITS
+): ValidationResult {
   const errors: string[] = [];
 
   if (!params || typeof params !== 'object') {
@@ -182,9 +240,13 @@ export function validatePromptGet(params: unknown): ValidationResult {
     if (typeof p.arguments !== 'object' || p.arguments === null) {
       errors.push('arguments must be an object');
     } else {
+      // Check size limits first: hasForbiddenKeys recurses
+      const limitError = checkArgumentLimits(p.arguments, limits);
       // Check for forbidden keys
-      const hasProhibitedKeys = hasForbiddenKeys(p.arguments);
-      if (hasProhibitedKeys) {
+      const hasProhibitedKeys = !limitError && hasForbiddenKeys(p.arguments);
+      if (limitError) {
+        errors.push(limitError);
+      } else if (hasProhibitedKeys) {
         errors.push(
           'arguments contain forbidden keys (__proto__, constructor, prototype)'
         );
@@ -195,6 +257,47 @@ export function validatePromptGet(params: unknown): ValidationResult {
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Validate completion request: a namespaced prompt or resource reference
+ * and the argument being completed
+ */
+export function validateCompletionRequest(params: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!params || typeof params !== 'object') {
+    errors.push('params must be an object');
+    return { valid: false, errors };
+  }
+
+  const p = params as Record<string, unknown>;
+
+  // Validate ref field
+  const ref = p.ref as Record<string, unknown> | undefined;
+  if (!ref || typeof ref !== 'object') {
+    errors.push('ref is required');
+  } else if (ref.type === 'ref/prompt') {
+    if (typeof ref.name !== 'string' || !NAMESPACED_NAME_PATTERN.test(ref.name)) {
+      errors.push(
+        'ref name must match pattern {namespace}__{promptName} (e.g., "journey-service-mcp__tripSummary")'
+      );
+    }
+  } else if (ref.type === 'ref/resource') {
+    errors.push(...validateResourceRead({ uri: ref.uri }).errors);
+  } else {
+    errors.push('ref type must be "ref/prompt" or "ref/resource"');
+  }
+
+  // Validate argument field
+  const argument = p.argument as Record<string, unknown> | undefined;
+  if (!argument || typeof argument !== 'object') {
+    errors.push('argument is required');
+  } else if (typeof argument.name !== 'string' || typeof argument.value !== 'string') {
+    errors.push('argument must have a string name and value');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
 /**
  * Validate namespace format
  */
@@ -218,8 +321,12 @@ export function validateNamespace(name: string): ValidationResult {
 /**
  * Sanitize input by removing forbidden keys recursively
  * Uses Object.getOwnPropertyNames to catch all properties including __proto__
+ * Throws if the input is nested deeper than maxDepth
  */
-export function sanitizeInput(input: unknown): unknown {
+export function sanitizeInput(
+  input: unknown,
+  maxDepth = DEFAULT_ARGUMENT_LIMITS.maxDepth
+): unknown {
   if (input === null || input === undefined) {
     return input;
   }
@@ -228,8 +335,12 @@ export function sanitizeInput(input: unknown): unknown {
     return input;
   }
 
+  if (maxDepth <= 0) {
+    throw new Error('Invalid input: nesting too deep');
+  }
+
   if (Array.isArray(input)) {
-    return input.map((item) => sanitizeInput(item));
+    return input.map((item) => sanitizeInput(item, maxDepth - 1));
   }
 
   // Handle objects - use getOwnPropertyNames to catch all properties
@@ -246,7 +357,7 @@ export function sanitizeInput(input: unknown): unknown {
     }
 
     // Recursively sanitize nested objects
-    sanitized[key] = sanitizeInput(obj[key]);
+    sanitized[key] = sanitizeInput(obj[key], maxDepth - 1);
   }
 
   return sanitized;
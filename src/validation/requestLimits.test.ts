@@ -0,0 +1,232 @@
+/**
+ * Request Size Limit Tests
+ */
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handler } from '../../main.ts';
+import { getRequestLimits } from '../config.ts';
+import { JsonRpcErrorCode } from '../jsonrpc.ts';
+import { measureJsonDepth, readBodyText, readJsonBody, RequestBodyError } from './requestLimits.ts';
+
+function mcpRequest(body: string): Request {
+  return new Request('http://localhost:8000/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+}
+
+// =============================================================================
+// Body Reading
+// =============================================================================
+
+Deno.test('Request limits - measureJsonDepth ignores brackets in strings', () => {
+  assertEquals(measureJsonDepth('1'), 0);
+  assertEquals(measureJsonDepth('{"a":[1,{"b":2}]}'), 3);
+  assertEquals(measureJsonDepth('{"a":"[[[{{{\\\\\\"[["}'), 1);
+  assertEquals(measureJsonDepth('['.repeat(1000)), 1000);
+});
+
+Deno.test({
+  name: 'Request limits - readBodyText stops reading an oversized stream',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    let chunks = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunks++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+    const req = new Request('http://localhost:8000/mcp', { method: 'POST', body: endless });
+
+    await assertRejects(
+      () => readBodyText(req, 4096),
+      RequestBodyError,
+      'Request body exceeds 4096 bytes'
+    );
+    assertEquals(chunks <= 6, true);
+  },
+});
+
+Deno.test({
+  name: 'Request limits - readJsonBody rejects by Content-Length and depth',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const limits = { maxBodyBytes: 10, maxBatchSize: 1, maxJsonDepth: 2, maxStringLength: 1 };
+
+    const declared = new Request('http://localhost:8000/mcp', {
+      method: 'POST',
+      headers: { 'Content-Length': '11' },
+      body: '[[[[[[]]]]]]',
+    });
+    const tooLarge = await assertRejects(() => readJsonBody(declared, limits), RequestBodyError);
+    assertEquals(tooLarge.status, 413);
+
+    const tooDeep = await assertRejects(
+      () => readJsonBody(mcpRequest('[[[]]]'), limits),
+      RequestBodyError,
+      'JSON nesting exceeds 2 levels'
+    );
+    assertEquals(tooDeep.code, JsonRpcErrorCode.INVALID_REQUEST);
+
+    assertEquals(await readJsonBody(mcpRequest('[[1]]'), limits), [[1]]);
+  },
+});
+
+Deno.test('Request limits - getRequestLimits defaults and environment overrides', () => {
+  assertEquals(getRequestLimits(), {
+    maxBodyBytes: 1048576,
+    maxBatchSize: 50,
+    maxJsonDepth: 32,
+    maxStringLength: 100000,
+  });
+
+  Deno.env.set('REQUEST_MAX_BATCH_SIZE', '5');
+  Deno.env.set('REQUEST_MAX_JSON_DEPTH', 'invalid');
+  try {
+    assertEquals(getRequestLimits().maxBatchSize, 5);
+    assertEquals(getRequestLimits().maxJsonDepth, 32);
+  } finally {
+    Deno.env.delete('REQUEST_MAX_BATCH_SIZE');
+    Deno.env.delete('REQUEST_MAX_JSON_DEPTH');
+  }
+});
+
+// =============================================================================
+// Integration
+// =============================================================================
+
+Deno.test({
+  name: 'Request limits - oversized body returns 413 with JSON-RPC error',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    Deno.env.set('REQUEST_MAX_BODY_BYTES', '100');
+    try {
+      const padded = { jsonrpc: '2.0', id: 1, method: 'ping', params: { pad: 'x'.repeat(200) } };
+      const res = await handler(mcpRequest(JSON.stringify(padded)));
+      assertEquals(res.status, 413);
+      const body = await res.json();
+      assertEquals(body.error.code, JsonRpcErrorCode.INVALID_REQUEST);
+      assertEquals(body.error.message, 'Request body exceeds 100 bytes');
+    } finally {
+      Deno.env.delete('REQUEST_MAX_BODY_BYTES');
+    }
+  },
+});
+
+Deno.test({
+  name: 'Request limits - admin route bodies are limited as well',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const adminAuthDisabled = Deno.env.get('ADMIN_AUTH_DISABLED');
+    Deno.env.set('ADMIN_AUTH_DISABLED', 'true');
+    Deno.env.set('REQUEST_MAX_BODY_BYTES', '100');
+    try {
+      const pad = 'x'.repeat(200);
+      const requests = [
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: 'limits', name: pad, endpoint: 'http://localhost:9000' }),
+        }),
+        new Request('http://localhost:8000/mcp/servers/upload', {
+          method: 'POST',
+          headers: { 'Content-Type': 'multipart/form-data; boundary=b' },
+          body: `--b\r\nContent-Disposition: form-data; name="config"\r\n\r\n${pad}\r\n--b--`,
+        }),
+        new Request('http://localhost:8000/mcp/admin/policies', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: 'limits', description: pad, subjects: ['*'], rules: [] }),
+        }),
+      ];
+      for (const req of requests) {
+        const res = await handler(req);
+        assertEquals(res.status, 413, req.url);
+        assertEquals((await res.json()).error, 'Request body exceeds 100 bytes');
+      }
+
+      const invalid = await handler(
+        new Request('http://localhost:8000/servers/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"id":',
+        })
+      );
+      assertEquals(invalid.status, 400);
+      assertEquals((await invalid.json()).error, 'Parse error: invalid JSON');
+    } finally {
+      Deno.env.delete('REQUEST_MAX_BODY_BYTES');
+      if (adminAuthDisabled === undefined) Deno.env.delete('ADMIN_AUTH_DISABLED');
+      else Deno.env.set('ADMIN_AUTH_DISABLED', adminAuthDisabled);
+    }
+  },
+});
+
+Deno.test({
+  name: 'Request limits - invalid and deeply nested JSON return JSON-RPC errors',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const invalid = await handler(mcpRequest('{"jsonrpc": "2.0",'));
+    assertEquals(invalid.status, 400);
+    assertEquals((await invalid.json()).error.code, JsonRpcErrorCode.PARSE_ERROR);
+
+    const deep = await handler(mcpRequest('['.repeat(100000) + ']'.repeat(100000)));
+    assertEquals(deep.status, 400);
+    assertEquals((await deep.json()).error.message, 'JSON nesting exceeds 32 levels');
+  },
+});
+
+Deno.test({
+  name: 'Request limits - oversized batch is rejected',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    Deno.env.set('REQUEST_MAX_BATCH_SIZE', '2');
+    try {
+      const batch = [1, 2, 3].map((id) => ({ jsonrpc: '2.0', id, method: 'ping' }));
+      const res = await handler(mcpRequest(JSON.stringify(batch)));
+      assertEquals(res.status, 400);
+      const body = await res.json();
+      assertEquals(body.error.code, JsonRpcErrorCode.INVALID_REQUEST);
+      assertEquals(body.error.message, 'Batch too large: 3 messages (maximum 2)');
+    } finally {
+      Deno.env.delete('REQUEST_MAX_BATCH_SIZE');
+    }
+  },
+});
+
+Deno.test({
+  name: 'Request limits - long tool argument strings return INVALID_PARAMS',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    Deno.env.set('REQUEST_MAX_STRING_LENGTH', '16');
+    try {
+      const res = await handler(
+        mcpRequest(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'tools/call',
+            params: { name: 'journey__findTrips', arguments: { from: 'x'.repeat(17) } },
+          })
+        )
+      );
+      const body = await res.json();
+      assertEquals(body.error.code, JsonRpcErrorCode.INVALID_PARAMS);
+      assertEquals(
+        body.error.message,
+        'Invalid tool call: arguments.from exceeds maximum string length of 16'
+      );
+    } finally {
+      Deno.env.delete('REQUEST_MAX_STRING_LENGTH');
+    }
+  },
+});
@@ -0,0 +1,127 @@
+/**
+ * Request Size Limits
+ *
+ * Reads JSON request bodies with a byte limit enforced while streaming and
+ * rejects excessive nesting before the body is parsed.
+ */
+
+import { corsHeaders, getRequestLimits } from '../config.ts';
+import { jsonRpcError, JsonRpcErrorCode } from '../jsonrpc.ts';
+import type { RequestLimits } from '../types.ts';
+
+/**
+ * Thrown when a request body is too large, too deeply nested or not JSON
+ */
+export class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: number
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Read a request body as text, aborting as soon as it exceeds maxBytes
+ */
+export async function readBodyText(req: Request, maxBytes: number): Promise<string> {
+  const tooLarge = () =>
+    new RequestBodyError(
+      `Request body exceeds ${maxBytes} bytes`,
+      413,
+      JsonRpcErrorCode.INVALID_REQUEST
+    );
+
+  const contentLength = parseInt(req.headers.get('Content-Length') || '');
+  if (contentLength > maxBytes) {
+    await req.body?.cancel();
+    throw tooLarge();
+  }
+  if (!req.body) {
+    return '';
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Measure the maximum nesting of objects and arrays in JSON text without
+ * parsing it (so deeply nested input cannot exhaust the parser's stack)
+ */
+export function measureJsonDepth(text: string): number {
+  let depth = 0;
+  let maxDepth = 0;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      maxDepth = Math.max(maxDepth, ++depth);
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+  return maxDepth;
+}
+
+/**
+ * Read and parse a JSON request body within the configured limits.
+ * Throws RequestBodyError if a limit is exceeded or the body is not JSON.
+ */
+export async function readJsonBody(
+  req: Request,
+  limits: RequestLimits = getRequestLimits()
+): Promise<unknown> {
+  const text = await readBodyText(req, limits.maxBodyBytes);
+
+  if (measureJsonDepth(text) > limits.maxJsonDepth) {
+    throw new RequestBodyError(
+      `JSON nesting exceeds ${limits.maxJsonDepth} levels`,
+      400,
+      JsonRpcErrorCode.INVALID_REQUEST
+    );
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestBodyError('Parse error: invalid JSON', 400, JsonRpcErrorCode.PARSE_ERROR);
+  }
+}
+
+/**
+ * JSON-RPC error response for a rejected request body
+ */
+export function requestBodyErrorResponse(error: RequestBodyError): Response {
+  return new Response(JSON.stringify(jsonRpcError(null, error.code, error.message)), {
+    status: error.status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
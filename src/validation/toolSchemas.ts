@@ -0,0 +1,61 @@
+/**
+ * Tool Schema Cache
+ *
+ * Caches the inputSchema of each backend tool as returned by tools/list,
+ * keyed by namespaced tool name, so tools/call arguments can be validated
+ * before they reach the backend.
+ */
+
+import type { JsonSchema } from './jsonSchema.ts';
+
+/** How long a server's schemas are trusted before tools/list is fetched again */
+const SCHEMA_TTL_MS = 5 * 60 * 1000;
+
+interface CachedSchemas {
+  expiresAt: number;
+  schemas: Map<string, JsonSchema>;
+}
+
+const cache = new Map<string, CachedSchemas>();
+
+/**
+ * Cache the input schemas of a server's tools (names already namespaced)
+ */
+export function cacheToolSchemas(serverId: string, tools: unknown[]): void {
+  const schemas = new Map<string, JsonSchema>();
+  for (const tool of tools) {
+    const t = tool as { name?: unknown; inputSchema?: unknown };
+    const schema = t.inputSchema;
+    if (
+      typeof t.name === 'string' &&
+      (typeof schema === 'boolean' || (typeof schema === 'object' && schema !== null))
+    ) {
+      schemas.set(t.name, schema as JsonSchema);
+    }
+  }
+  cache.set(serverId, { expiresAt: Date.now() + SCHEMA_TTL_MS, schemas });
+}
+
+/**
+ * Get the cached schemas of a server, or undefined if missing or expired
+ */
+export function getToolSchemas(serverId: string): Map<string, JsonSchema> | undefined {
+  const entry = cache.get(serverId);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(serverId);
+    return undefined;
+  }
+  return entry.schemas;
+}
+
+/**
+ * Drop cached schemas for one server (e.g. after re-registration) or all servers
+ */
+export function clearToolSchemas(serverId?: string): void {
+  if (serverId === undefined) {
+    cache.clear();
+  } else {
+    cache.delete(serverId);
+  }
+}